@@ -0,0 +1,9 @@
+import { syncHandlers } from "../../lib/server/syncRoutes";
+
+// Saved games, synced between devices (see lib/sync.ts)
+export const dynamic = "force-dynamic";
+
+const handlers = syncHandlers("games");
+
+export const GET = handlers.GET;
+export const POST = handlers.POST;
@@ -0,0 +1,7 @@
+import { liveRoutes } from "../../../lib/server/liveRoutes";
+
+// Live game feed: the tracker publishes, spectators poll (see lib/live.ts)
+export const dynamic = "force-dynamic";
+
+export const GET = liveRoutes.GET;
+export const POST = liveRoutes.POST;
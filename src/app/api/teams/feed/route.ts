@@ -0,0 +1,6 @@
+import { teamRoutes } from "../../../lib/server/teamRoutes";
+
+// The team's latest games
+export const dynamic = "force-dynamic";
+
+export const GET = teamRoutes.feed.GET;
@@ -0,0 +1,7 @@
+import { teamRoutes } from "../../../lib/server/teamRoutes";
+
+// Owners make and revoke invite codes
+export const dynamic = "force-dynamic";
+
+export const POST = teamRoutes.invites.POST;
+export const DELETE = teamRoutes.invites.DELETE;
@@ -0,0 +1,6 @@
+import { teamRoutes } from "../../../lib/server/teamRoutes";
+
+// Join a team with an invite code
+export const dynamic = "force-dynamic";
+
+export const POST = teamRoutes.join.POST;
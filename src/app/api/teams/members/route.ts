@@ -0,0 +1,7 @@
+import { teamRoutes } from "../../../lib/server/teamRoutes";
+
+// Owners change roles and remove members; anyone can leave
+export const dynamic = "force-dynamic";
+
+export const PATCH = teamRoutes.members.PATCH;
+export const DELETE = teamRoutes.members.DELETE;
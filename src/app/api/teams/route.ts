@@ -0,0 +1,7 @@
+import { teamRoutes } from "../../lib/server/teamRoutes";
+
+// Team workspaces: create one, or read yours (see lib/teams.ts)
+export const dynamic = "force-dynamic";
+
+export const GET = teamRoutes.root.GET;
+export const POST = teamRoutes.root.POST;
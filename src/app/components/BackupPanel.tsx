@@ -0,0 +1,297 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { applyRestore, buildBackup, newerCopy, parseBackup, planRestore } from "../lib/backup";
+import type { ConflictChoice, GameConflict, LocalData, RestorePlan } from "../lib/backup";
+import type { AppSettings } from "../lib/settings";
+import { boxScore } from "../lib/stats";
+import type { GameEntry } from "../lib/types";
+import { downloadBlob, todayISO } from "../lib/util";
+
+/**
+ * Backup & restore screen
+ * - Download everything (games incl. Trash, roster, seasons, settings) as one JSON file
+ * - Restore: validate the file, preview adds / conflicts, pick a side for each conflict, then merge
+ */
+
+function GameSide({ label, g, playerName }: { label: string; g: GameEntry; playerName: (g: GameEntry) => string }) {
+  const b = boxScore(g.counts);
+  const lastEdit = g.edits?.length ? g.edits[g.edits.length - 1].at : null;
+  return (
+    <div className="conflictSide">
+      <div className="miniLabel">{label}</div>
+      <div className="conflictLine">
+        {playerName(g)} • {g.date}
+        {g.opponent ? ` vs ${g.opponent}` : ""}
+      </div>
+      <div className="conflictLine">
+        PTS {b.pts} • FG {b.fgm}-{b.fga} • REB {b.reb} • AST {g.counts.ast}
+      </div>
+      <div className="conflictMeta">
+        {g.deletedAt ? "In Trash • " : ""}
+        {lastEdit ? `Edited ${new Date(lastEdit).toLocaleString([], { dateStyle: "short", timeStyle: "short" })}` : "Not edited"}
+      </div>
+    </div>
+  );
+}
+
+export default function BackupPanel({
+  data,
+  settings,
+  playerName,
+  onRestore,
+  onClose,
+}: {
+  data: LocalData;
+  settings: AppSettings;
+  playerName: (g: GameEntry) => string;
+  onRestore: (next: LocalData, settings: AppSettings | null) => void;
+  onClose: () => void;
+}) {
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const [error, setError] = useState<string>("");
+  const [fileName, setFileName] = useState<string>("");
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  const [restoreSettings, setRestoreSettings] = useState<boolean>(false);
+  const [done, setDone] = useState<string>("");
+
+  const exportBackup = () => {
+    const backup = buildBackup(data, settings);
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" });
+    downloadBlob(`fly-stats-backup_${todayISO()}.json`, blob);
+  };
+
+  const onFile = async (file: File | undefined) => {
+    setError("");
+    setDone("");
+    setPlan(null);
+    if (!file) return;
+    setFileName(file.name);
+
+    const parsed = parseBackup(await file.text());
+    if ("error" in parsed) {
+      setError(parsed.error);
+      return;
+    }
+    const next = planRestore(data, parsed.backup, parsed.skipped);
+    setPlan(next);
+    setChoices(Object.fromEntries(next.conflicts.map((c) => [c.id, newerCopy(c)])));
+  };
+
+  const chooseAll = (choice: ConflictChoice) => {
+    if (!plan) return;
+    setChoices(Object.fromEntries(plan.conflicts.map((c) => [c.id, choice])));
+  };
+
+  const apply = () => {
+    if (!plan) return;
+    onRestore(applyRestore(data, plan, choices), restoreSettings ? plan.settings : null);
+    const replaced = plan.conflicts.filter((c) => choices[c.id] === "theirs").length;
+    setDone(
+      `Restored: ${plan.addGames.length} games added, ${replaced} replaced, ${plan.addPlayers.length} players added.`
+    );
+    setPlan(null);
+    setFileName("");
+    if (fileRef.current) fileRef.current.value = "";
+  };
+
+  const nothingToDo =
+    !!plan && !plan.addGames.length && !plan.conflicts.length && !plan.addPlayers.length && !plan.addSeasons.length;
+
+  return (
+    <div className="card backupCard">
+      <div className="cardHeader">
+        <div>
+          <div className="cardTitle">Backup &amp; Restore</div>
+          <div className="cardHint">Move your stats to a new phone, or keep a copy somewhere safe</div>
+        </div>
+        <button className="primaryBtn" onClick={onClose} type="button">
+          Done
+        </button>
+      </div>
+
+      <div className="sectionHeader">Backup</div>
+      <div className="microHint" style={{ marginTop: 4 }}>
+        {data.games.length} games • {data.players.length} players • {data.seasons.length} seasons
+      </div>
+      <button className="miniBtn" style={{ marginTop: 10 }} onClick={exportBackup} type="button">
+        Download backup (.json)
+      </button>
+
+      <div className="sectionHeader" style={{ marginTop: 20 }}>
+        Restore
+      </div>
+      <div className="microHint" style={{ marginTop: 4 }}>
+        Games are matched by id. New ones are added; nothing on this phone is replaced unless you pick it below.
+      </div>
+      <input
+        ref={fileRef}
+        className="input"
+        style={{ marginTop: 10 }}
+        type="file"
+        accept="application/json,.json"
+        onChange={(e) => onFile(e.target.files?.[0])}
+      />
+
+      {error ? <div className="backupError">{error}</div> : null}
+      {done ? <div className="backupDone">{done}</div> : null}
+
+      {plan ? (
+        <div className="restorePreview">
+          <div className="miniLabel">PREVIEW • {fileName}</div>
+          <ul className="restoreList">
+            <li>{plan.addGames.length} new games</li>
+            <li>{plan.sameGames} already here (unchanged)</li>
+            <li>{plan.conflicts.length} games that differ from this phone&apos;s copy</li>
+            <li>
+              {plan.addPlayers.length} new players
+              {Object.keys(plan.playerIdMap).length
+                ? ` • ${Object.keys(plan.playerIdMap).length} matched to existing players by name`
+                : ""}
+            </li>
+            <li>{plan.addSeasons.length} new seasons</li>
+            {plan.skipped ? <li>{plan.skipped} records in the file couldn&apos;t be read and will be skipped</li> : null}
+          </ul>
+
+          {plan.conflicts.length ? (
+            <>
+              <div className="conflictHeader">
+                <div className="sectionHeader" style={{ marginTop: 0 }}>
+                  Conflicts
+                </div>
+                <div className="gameActions">
+                  <button className="miniBtn" onClick={() => chooseAll("mine")} type="button">
+                    Keep all mine
+                  </button>
+                  <button className="miniBtn" onClick={() => chooseAll("theirs")} type="button">
+                    Use all from backup
+                  </button>
+                </div>
+              </div>
+              {plan.conflicts.map((c: GameConflict) => (
+                <div key={c.id} className="conflictCard">
+                  {(["mine", "theirs"] as ConflictChoice[]).map((side) => (
+                    <label key={side} className={"conflictPick " + (choices[c.id] === side ? "conflictPickOn" : "")}>
+                      <input
+                        type="radio"
+                        name={`conflict-${c.id}`}
+                        checked={choices[c.id] === side}
+                        onChange={() => setChoices((ch) => ({ ...ch, [c.id]: side }))}
+                      />
+                      <GameSide
+                        label={side === "mine" ? "THIS PHONE" : "BACKUP"}
+                        g={side === "mine" ? c.mine : c.theirs}
+                        playerName={playerName}
+                      />
+                    </label>
+                  ))}
+                </div>
+              ))}
+            </>
+          ) : null}
+
+          <label className="restoreSettings">
+            <input type="checkbox" checked={restoreSettings} onChange={(e) => setRestoreSettings(e.target.checked)} />
+            Also restore settings from the backup
+          </label>
+
+          <div className="backupActions">
+            <button className="primaryBtn" onClick={apply} type="button" disabled={nothingToDo && !restoreSettings}>
+              {nothingToDo && !restoreSettings ? "Nothing to restore" : "Restore"}
+            </button>
+            <button
+              className="miniBtn"
+              onClick={() => {
+                setPlan(null);
+                setFileName("");
+                if (fileRef.current) fileRef.current.value = "";
+              }}
+              type="button"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      <style>{`
+        .backupCard{ max-width: 1120px; margin: 0 auto; }
+
+        .backupError, .backupDone{
+          margin-top: 10px;
+          border-radius: 12px;
+          padding: 10px 12px;
+          font-size: 13px;
+        }
+        .backupError{ border: 1px solid var(--bad); background: rgba(208,72,46,.06); }
+        .backupDone{ border: 1px solid var(--good); background: rgba(11,107,102,.06); }
+
+        .restorePreview{
+          margin-top: 14px;
+          border-top: 1px solid var(--line);
+          padding-top: 12px;
+        }
+
+        .restoreList{
+          margin: 8px 0 0;
+          padding-left: 18px;
+          font-size: 13px;
+          line-height: 1.6;
+        }
+
+        .conflictHeader{
+          margin-top: 14px;
+          display:flex;
+          align-items:center;
+          justify-content:space-between;
+          gap: 10px;
+          flex-wrap: wrap;
+        }
+
+        .conflictCard{
+          margin-top: 10px;
+          display:grid;
+          grid-template-columns: 1fr 1fr;
+          gap: 8px;
+        }
+
+        @media (max-width: 520px){
+          .conflictCard{ grid-template-columns: 1fr; }
+        }
+
+        .conflictPick{
+          display:flex;
+          gap: 8px;
+          align-items:flex-start;
+          border: 1px solid var(--line);
+          border-radius: 12px;
+          padding: 10px;
+          cursor: pointer;
+        }
+
+        .conflictPickOn{ border-color: var(--good); background: rgba(11,107,102,.05); }
+
+        .conflictLine{ font-size: 13px; margin-top: 2px; }
+        .conflictMeta{ font-size: 11px; margin-top: 4px; color: rgba(0,0,0,.55); }
+
+        .restoreSettings{
+          margin-top: 14px;
+          display:flex;
+          gap: 8px;
+          align-items:center;
+          font-size: 13px;
+        }
+
+        .backupActions{
+          margin-top: 12px;
+          display:flex;
+          gap: 8px;
+          align-items:center;
+        }
+
+        .primaryBtn:disabled{ opacity: .45; cursor: not-allowed; }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+"use client";
+
+import React, { useState } from "react";
+import { COUNT_KEYS, statLabel, statLabels, usedCustomKeys } from "../lib/counts";
+import { describeEdit, gameFields, isEdited } from "../lib/gameEdits";
+import { playerLabel } from "../lib/roster";
+import type { CustomKey, CustomStat, GameEntry, GameFields, LiveCounts, Player, Season } from "../lib/types";
+
+/**
+ * Inline editor for a saved game (Player Log card)
+ * - Fix date / team / opponent / player / season / notes / final score and any box-score or custom stat count
+ * - Every save is logged with a timestamp; "Revert" restores the values first saved
+ */
+
+// Select value for a game with no seasonId at all ("" is "No season"); season ids are makeId()s, so no clash
+const BY_DATE = "by-date";
+
+export default function GameEditor({
+  game,
+  players,
+  stats,
+  seasons,
+  onSave,
+  onRevert,
+  onCancel,
+}: {
+  game: GameEntry;
+  players: Player[];
+  stats: CustomStat[];
+  seasons: Season[];
+  onSave: (next: GameFields) => void;
+  onRevert: () => void;
+  onCancel: () => void;
+}) {
+  const [fields, setFields] = useState<GameFields>(() => gameFields(game));
+
+  const set = <K extends keyof GameFields>(key: K, value: GameFields[K]) =>
+    setFields((f) => ({ ...f, [key]: value }));
+
+  const setCount = (key: keyof LiveCounts, raw: string) => {
+    const n = Math.max(0, Math.floor(Number(raw) || 0));
+    setFields((f) => ({ ...f, counts: { ...f.counts, [key]: n } }));
+  };
+
+  // Clearing both sides removes the score (e.g. it was never kept)
+  const setScore = (side: "team" | "opponent", raw: string) => {
+    setFields((f) => {
+      const n = raw === "" ? null : Math.max(0, Math.floor(Number(raw) || 0));
+      const other = side === "team" ? f.score?.opponent : f.score?.team;
+      if (n === null && !other) return { ...f, score: undefined };
+      const score = { team: f.score?.team ?? 0, opponent: f.score?.opponent ?? 0, [side]: n ?? 0 };
+      return { ...f, score };
+    });
+  };
+
+  const setCustom = (key: CustomKey, raw: string) => {
+    const n = Math.max(0, Math.floor(Number(raw) || 0));
+    setFields((f) => ({ ...f, custom: { ...f.custom, [key]: n } as GameFields["custom"] }));
+  };
+
+  // Custom stats this game has counts for, plus the ones on the tracker now
+  const customKeys = Array.from(new Set([...usedCustomKeys(game.custom), ...stats.map((d) => d.key)]));
+  const labels = [...(game.customStats ?? []), ...stats];
+
+  const save = () => {
+    const player = players.find((p) => p.id === fields.playerId);
+    onSave({
+      ...fields,
+      team: fields.team.trim() || "Fly Academy",
+      opponent: fields.opponent.trim(),
+      playerName: player?.name ?? fields.playerName,
+    });
+  };
+
+  const confirmRevert = () => {
+    const ok = window.confirm("Revert this game to the values it was first saved with?");
+    if (ok) onRevert();
+  };
+
+  const choices = players.filter((p) => !p.archived || p.id === fields.playerId);
+
+  return (
+    <div className="editBox">
+      <div className="formGrid">
+        <div className="field">
+          <div className="label">DATE</div>
+          <input className="input" type="date" value={fields.date} onChange={(e) => set("date", e.target.value)} />
+        </div>
+        <div className="field">
+          <div className="label">PLAYER</div>
+          <select
+            className="select"
+            value={fields.playerId ?? ""}
+            onChange={(e) => set("playerId", e.target.value)}
+          >
+            {choices.map((p) => (
+              <option key={p.id} value={p.id}>
+                {playerLabel(p)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="field">
+          <div className="label">TEAM</div>
+          <input className="input" value={fields.team} onChange={(e) => set("team", e.target.value)} />
+        </div>
+        <div className="field">
+          <div className="label">OPPONENT</div>
+          <input className="input" value={fields.opponent} onChange={(e) => set("opponent", e.target.value)} />
+        </div>
+        <div className="field">
+          <div className="label">SEASON</div>
+          <select
+            className="select"
+            value={fields.seasonId ?? BY_DATE}
+            onChange={(e) => set("seasonId", e.target.value === BY_DATE ? undefined : e.target.value)}
+          >
+            <option value={BY_DATE}>Matched by date</option>
+            <option value="">No season</option>
+            {seasons.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="field">
+          <div className="label">TEAM SCORE</div>
+          <input
+            className="input"
+            type="number"
+            min={0}
+            inputMode="numeric"
+            value={fields.score?.team ?? ""}
+            onChange={(e) => setScore("team", e.target.value)}
+          />
+        </div>
+        <div className="field">
+          <div className="label">OPP SCORE</div>
+          <input
+            className="input"
+            type="number"
+            min={0}
+            inputMode="numeric"
+            value={fields.score?.opponent ?? ""}
+            onChange={(e) => setScore("opponent", e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="editCounts">
+        {COUNT_KEYS.map((k) => (
+          <label key={k} className="editCount">
+            <span className="miniLabel">{statLabels[k]}</span>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              inputMode="numeric"
+              value={fields.counts[k]}
+              onChange={(e) => setCount(k, e.target.value)}
+            />
+          </label>
+        ))}
+        {customKeys.map((k) => (
+          <label key={k} className="editCount">
+            <span className="miniLabel">{statLabel(k, labels)}</span>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              inputMode="numeric"
+              value={fields.custom?.[k] ?? 0}
+              onChange={(e) => setCustom(k, e.target.value)}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="field" style={{ marginTop: 10 }}>
+        <div className="label">NOTES</div>
+        <textarea
+          className="textarea"
+          rows={2}
+          value={fields.notes ?? ""}
+          onChange={(e) => set("notes", e.target.value)}
+        />
+      </div>
+
+      <div className="editActions">
+        <button className="primaryBtn" onClick={save} type="button">
+          Save changes
+        </button>
+        <button className="miniBtn" onClick={onCancel} type="button">
+          Cancel
+        </button>
+        {isEdited(game) ? (
+          <button className="miniBtn" onClick={confirmRevert} type="button">
+            Revert to original
+          </button>
+        ) : null}
+      </div>
+
+      {game.edits?.length ? (
+        <div className="editLog">
+          <div className="miniLabel">EDIT HISTORY</div>
+          {game.edits
+            .slice()
+            .reverse()
+            .map((e) => (
+              <div key={e.at} className="editLogRow">
+                {new Date(e.at).toLocaleString([], { dateStyle: "short", timeStyle: "short" })} •{" "}
+                {e.revert ? "Reverted" : "Changed"} {describeEdit(e)}
+              </div>
+            ))}
+        </div>
+      ) : null}
+
+      <style>{`
+        .editBox{
+          margin-top: 10px;
+          border-top: 1px solid var(--line);
+          padding-top: 10px;
+        }
+
+        .editCounts{
+          margin-top: 12px;
+          display:grid;
+          grid-template-columns: repeat(4, minmax(0, 1fr));
+          gap: 8px;
+        }
+
+        @media (max-width: 520px){
+          .editCounts{ grid-template-columns: repeat(3, minmax(0, 1fr)); }
+        }
+
+        .editCount{ display:flex; flex-direction:column; gap: 4px; }
+        .editCount .input{ padding: 8px 10px; }
+
+        .editActions{
+          margin-top: 12px;
+          display:flex;
+          gap: 8px;
+          flex-wrap: wrap;
+          align-items:center;
+        }
+
+        .editLog{ margin-top: 12px; display:flex; flex-direction:column; gap: 4px; }
+
+        .editLogRow{
+          font-size: 12px;
+          color: rgba(0,0,0,.6);
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -1,59 +1,173 @@
 "use client";
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
+import type {
+  CustomCounts,
+  CustomStat,
+  GameEntry,
+  GameEvent,
+  GameFields,
+  GameResult,
+  GameScore,
+  LiveCounts,
+  PeriodFormat,
+  PeriodLine,
+  Player,
+  Season,
+  ShotLoc,
+  StatKey,
+  StatSection,
+  StatTone,
+} from "../lib/types";
+import { COUNT_KEYS, emptyCounts, isCustomKey, statLabel, usedCustomKeys } from "../lib/counts";
+import {
+  SOLO_KEY,
+  clockElapsed,
+  formatGameClock,
+  msToMinutes,
+  newClock,
+  playedMs,
+  renameKey,
+  resetPeriod,
+  setOnCourt,
+  startClock,
+  stopClock,
+  tickClock,
+} from "../lib/clock";
+import type { GameClock } from "../lib/clock";
+import { applyGameEdit, isEdited, revertGame } from "../lib/gameEdits";
+import type { LocalData } from "../lib/backup";
+import { diffById, loadAppData, persistGames, persistPlayers, persistSeasons } from "../lib/db";
+import type { Backend } from "../lib/db";
+import { defaultSettings, loadSettings, saveSettings } from "../lib/settings";
+import type { AppSettings } from "../lib/settings";
+import type { StorageProblem } from "../lib/storage";
+import { isTrashed, purgeExpired, restoreGame, trashGame } from "../lib/trash";
+import { createPlayer, findPlayerByName, linkGamesToRoster, mergePlayers, playerLabel } from "../lib/roster";
+import { gamesCsv, seasonCsv } from "../lib/csv";
+import { createSeason, currentSeason, inDateRange, inSeason, sortSeasons } from "../lib/seasons";
+import { LIVE_HEARTBEAT_MS, buildSnapshot, loadLiveFinal, newLiveKey, storeLiveFinal } from "../lib/live";
+import type { LiveFinal, LiveShare, LiveSnapshot, LiveStatus } from "../lib/live";
+import { isThree, shotsFromEvents } from "../lib/shots";
+import { SYNC_KINDS } from "../lib/sync";
+import {
+  applyIncoming,
+  apiCall,
+  canPush,
+  loadSyncState,
+  queueAll,
+  queueChanges,
+  saveSyncState,
+  setSyncEnabled,
+  settleSync,
+  switchSpace,
+  syncOnce,
+} from "../lib/syncClient";
+import type { SyncData, SyncState } from "../lib/syncClient";
+import { canWrite } from "../lib/teams";
+import type { TeamSession } from "../lib/teams";
+import { emptyStack, jumpTo, mapStackItems, recordStep, redoStep, timeline, undoStep } from "../lib/undo";
+import type { UndoStack, UndoStep } from "../lib/undo";
+import {
+  ADVANCED_METRICS,
+  advancedStats,
+  boxScore,
+  countsFromEvents,
+  customFromEvents,
+  eventsFromCounts,
+  formatMetric,
+  formatRecord,
+  gameResult,
+  points,
+  recordOf,
+  seasonSummary,
+  sumCounts,
+  teamPointsShare,
+} from "../lib/stats";
+import type { AdvancedStats } from "../lib/stats";
+import { downloadBlob, makeId, slug, todayISO } from "../lib/util";
+import BackupPanel from "./BackupPanel";
+import GameEditor from "./GameEditor";
+import RosterManager from "./RosterManager";
+import SeasonManager from "./SeasonManager";
+import SharePanel from "./SharePanel";
+import ShotChart, { ZoneTable } from "./ShotChart";
+import StatTiles, { PlayByPlay, STAT_TILE_CSS, formatClock, formatPct, periodLabel, regulationPeriods } from "./StatTiles";
+import StatSetup from "./StatSetup";
+import SyncPanel, { syncStatus } from "./SyncPanel";
+import TrashPanel from "./TrashPanel";
+import TrendChart from "./TrendChart";
 
 /**
- * Fly Stat Tracker (Single Player)
- * - Tap big buttons during game (made/miss 2PT, 3PT, FT + ORB/DRB/AST/TO/STL/FOUL)
- * - Save game (stored locally)
- * - Player Log: season-to-date averages + per-game list (filter by player)
+ * Fly Stat Tracker (Single Player or Full Roster)
+ * - Tap big buttons during game (made/miss 2PT, 3PT, FT + ORB/DRB/AST/TO/STL/BLK/FOUL)
+ * - Stats screen: add your own counter stats (deflections, charges…); saved per game and averaged per season
+ * - Every tap is a timestamped event; live counts are projected from the event log
+ * - Quarters or halves (+ overtime); saved games keep a per-period box score
+ * - Optional shot chart: tap the court, 2 vs 3 comes from the arc; zone make % per game and season
+ * - Game clock (configurable period length) + sub in/out; minutes played are saved and give MPG / per-36 rates
+ * - Scoreboard: team / opponent +1/+2/+3 (team score also counts tracked players' points); final score + W/L saved per game
+ * - Roster mode: pick the active player by jersey; saving writes one entry per player under a shared gameId
+ * - Save game (stored locally); the in-progress game is kept as a draft and can be resumed after a reload
+ * - Roster: players have stable ids (games reference them); add / rename / merge / archive on the Roster screen
+ * - Seasons screen: named seasons with dates (+ optional team); new games default to the current season
+ * - Player Log: record, averages + per-game list (filter by player / season or date range / result); saved games can be edited / reverted
+ * - Trend charts per game (PTS / REB / AST / TO / shooting %) with 3- and 5-game rolling averages
+ * - CSV export of the selected player's games and season summary
+ * - Share a single game as a PNG summary card or plain text (Web Share, download / copy fallback)
+ * - Delete moves a game to Trash (undo toast, restore, auto-purge after 30 days)
+ * - Sync screen: games + roster sync with the app's own server (/api/games, /api/players); works offline, reconciles later
+ * - Teams: create or join with an invite code (owner / statistician / viewer); viewers get a read-only Player Log
+ * - Go live: a spectator link (/live/<id>) shows the tiles + play-by-play as you tap, then "final" once saved
  * - Two horizontal tile rows (7 across on desktop; responsive on phone)
+ * - Correction mode (toggle, or long-press a stat button): −/+ on every count, logged as correction events
+ * - Undo / Redo every change (taps, score, reset, removing a player) + a history panel to jump to any point
  * - Tap feedback: quick flash + optional vibration
  */
 
-type LiveCounts = {
-  made2: number;
-  miss2: number;
-  made3: number;
-  miss3: number;
-  madeFT: number;
-  missFT: number;
-
-  orb: number;
-  drb: number;
-  ast: number;
-  to: number;
-  stl: number;
-  pf: number;
-};
-
-type GameEntry = {
-  id: string;
-  createdAt: number;
-  date: string; // YYYY-MM-DD
-  team: string;
-  opponent: string;
-  playerName: string;
-  notes?: string;
-
-  counts: LiveCounts;
-};
+type TrackMode = "single" | "roster";
 
 type Action =
-  | { kind: "inc"; key: keyof LiveCounts }
-  | { kind: "dec"; key: keyof LiveCounts }
+  | { kind: "inc"; key: StatKey }
+  | { kind: "correct"; key: StatKey; delta: 1 | -1 } // stepper in correction mode
+  | { kind: "score"; side: ScoreSide; pts: number }
+  | { kind: "remove"; playerKey: string; name: string } // roster player taken off with their taps
   | { kind: "reset" };
 
-const STORAGE_KEY = "flyStatTracker.games.v2";
+type ScoreSide = "team" | "opponent";
 
-function pad2(n: number) {
-  return String(n).padStart(2, "0");
-}
+// Points tapped onto the scoreboard. Tracked players' points are added from the event log.
+type ScoreTap = { side: ScoreSide; pts: number; at: number; period: number };
 
-function todayISO() {
-  const d = new Date();
-  return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`;
-}
+// Everything Undo / Redo can take back
+type LiveLists = { events: GameEvent[]; scoreTaps: ScoreTap[] };
+type LiveUndo = UndoStack<LiveLists, Action>;
+
+// Spectator link for the game in progress: /live/<id>; the key proves this phone is the publisher
+
+// In-progress game, written continuously so a refresh / tab eviction can resume it
+type LiveDraft = {
+  savedAt: number;
+  events: GameEvent[];
+  undo: LiveUndo;
+  period: number;
+  periodFormat: PeriodFormat;
+  date: string;
+  team: string;
+  opponent: string;
+  playerId: string;
+  notes: string;
+  trackMode: TrackMode;
+  lineup: string[]; // Player ids on the floor
+  activeKey: string | null;
+  clock: GameClock;
+  scoreTaps: ScoreTap[];
+  seasonChoice: string | null;
+  liveShare: LiveShare | null;
+  legacyPlayerName?: string; // drafts from before the roster named the player instead of picking one
+};
+
+const DRAFT_KEY = "flyStatTracker.draft.v1";
 
 function safeParse<T>(json: string | null, fallback: T): T {
   try {
@@ -64,64 +178,167 @@ function safeParse<T>(json: string | null, fallback: T): T {
   }
 }
 
-function pct(made: number, att: number) {
-  if (!att) return 0;
-  return (made / att) * 100;
+function periodBreakdown(events: GameEvent[], format: PeriodFormat): PeriodLine[] {
+  const last = events.reduce((m, e) => Math.max(m, e.period), regulationPeriods[format]);
+  const out: PeriodLine[] = [];
+  for (let period = 1; period <= last; period++) {
+    out.push({ period, counts: countsFromEvents(events.filter((e) => e.period === period)) });
+  }
+  return out;
 }
 
-function formatPct(v: number) {
-  return `${v.toFixed(1)}%`;
+function loadDraft(): LiveDraft | null {
+  const d = safeParse<LiveDraft | null>(
+    typeof window !== "undefined" ? localStorage.getItem(DRAFT_KEY) : null,
+    null
+  );
+  if (!d || typeof d !== "object") return null;
+  // Drafts from before the event log only kept counts; replay them as events so the game isn't lost
+  const legacy = d as unknown as { counts?: Partial<LiveCounts>; playerName?: unknown };
+  const events = Array.isArray(d.events)
+    ? d.events
+    : legacy.counts && typeof legacy.counts === "object"
+      ? eventsFromCounts({ ...emptyCounts, ...legacy.counts }, d.savedAt || Date.now())
+      : null;
+  if (!events) return null;
+  return {
+    ...d,
+    events,
+    date: typeof d.date === "string" ? d.date : "",
+    team: typeof d.team === "string" ? d.team : "",
+    opponent: typeof d.opponent === "string" ? d.opponent : "",
+    notes: typeof d.notes === "string" ? d.notes : "",
+    // Drafts from before the undo stack carry a plain action list; it can't be reversed, so start fresh
+    undo: d.undo && Array.isArray(d.undo.past) && Array.isArray(d.undo.future) ? d.undo : emptyStack(),
+    period: d.period || 1,
+    periodFormat: d.periodFormat || "quarters",
+    trackMode: d.trackMode || "single",
+    playerId: typeof d.playerId === "string" ? d.playerId : "",
+    lineup: Array.isArray(d.lineup) ? d.lineup.filter((id) => typeof id === "string") : [],
+    activeKey: d.activeKey ?? null,
+    clock: d.clock && typeof d.clock === "object" && Array.isArray(d.clock.onCourt) ? d.clock : newClock(),
+    scoreTaps: Array.isArray(d.scoreTaps) ? d.scoreTaps : [],
+    seasonChoice: typeof d.seasonChoice === "string" ? d.seasonChoice : null,
+    liveShare:
+      d.liveShare && typeof d.liveShare.id === "string" && typeof d.liveShare.key === "string" ? d.liveShare : null,
+    legacyPlayerName:
+      !d.playerId && typeof legacy.playerName === "string" ? legacy.playerName.trim() || undefined : undefined,
+  };
 }
 
-function makeId() {
-  return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+function clearDraft() {
+  localStorage.removeItem(DRAFT_KEY);
 }
 
-function clampNonNeg(n: number) {
-  return Math.max(0, n);
+// problem is "" once the server has it; retry when it couldn't be reached (the next change or heartbeat tries again)
+async function sendLive(snapshot: LiveSnapshot, share: LiveShare): Promise<{ problem: string; retry: boolean }> {
+  const body = JSON.stringify(snapshot);
+  try {
+    await apiCall(fetch, `/api/live/${encodeURIComponent(share.id)}`, {
+      method: "POST",
+      headers: { "content-type": "application/json", "x-live-key": share.key },
+      body,
+      // The final update should land even if the page is closed right after Save (keepalive caps the body at 64 KB)
+      keepalive: snapshot.status === "final" && body.length < 60000,
+    });
+    return { problem: "", retry: false };
+  } catch (err) {
+    // fetch itself throws a TypeError when there's no connection; an answer from the server throws an Error
+    if (!navigator.onLine || err instanceof TypeError) {
+      return { problem: "Offline. Spectators catch up when you're back online.", retry: true };
+    }
+    return { problem: (err as Error).message, retry: false };
+  }
 }
 
-const emptyCounts: LiveCounts = {
-  made2: 0,
-  miss2: 0,
-  made3: 0,
-  miss3: 0,
-  madeFT: 0,
-  missFT: 0,
-  orb: 0,
-  drb: 0,
-  ast: 0,
-  to: 0,
-  stl: 0,
-  pf: 0,
-};
+function PeriodTable({ lines, format }: { lines: PeriodLine[]; format: PeriodFormat }) {
+  const total = lines.reduce((acc, l) => sumCounts(acc, l.counts), { ...emptyCounts });
+  const rows: { label: string; value: (c: LiveCounts) => number }[] = [
+    { label: "PTS", value: points },
+    { label: "REB", value: (c) => boxScore(c).reb },
+    { label: "AST", value: (c) => c.ast },
+    { label: "STL", value: (c) => c.stl },
+    { label: "BLK", value: (c) => c.blk ?? 0 },
+    { label: "TO", value: (c) => c.to },
+    { label: "PF", value: (c) => c.pf },
+  ];
 
-function sumCounts(a: LiveCounts, b: LiveCounts): LiveCounts {
-  const out: any = {};
-  (Object.keys(emptyCounts) as (keyof LiveCounts)[]).forEach((k) => {
-    out[k] = a[k] + b[k];
-  });
-  return out as LiveCounts;
+  return (
+    <div className="periodTableWrap">
+      <table className="periodTable">
+        <thead>
+          <tr>
+            <th />
+            {lines.map((l) => (
+              <th key={l.period}>{periodLabel(format, l.period)}</th>
+            ))}
+            <th>TOT</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.label}>
+              <th>{row.label}</th>
+              {lines.map((l) => (
+                <td key={l.period}>{row.value(l.counts)}</td>
+              ))}
+              <td className="periodTotal">{row.value(total)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
 }
 
-function avg(numerator: number, denom: number) {
-  if (!denom) return 0;
-  return numerator / denom;
+// Correction mode tile: − / + on one raw count
+function StepperChip({
+  label,
+  value,
+  focused,
+  onStep,
+}: {
+  label: string;
+  value: number;
+  focused: boolean;
+  onStep: (delta: 1 | -1) => void;
+}) {
+  return (
+    <div className={"chip stepChip " + (focused ? "stepChipFocus" : "")}>
+      <div className="chipLabel">{label}</div>
+      <div className="stepRow">
+        <button className="stepBtn" onClick={() => onStep(-1)} type="button" disabled={!value} aria-label={`${label} minus one`}>
+          −
+        </button>
+        <div className="chipValue">{value}</div>
+        <button className="stepBtn" onClick={() => onStep(1)} type="button" aria-label={`${label} plus one`}>
+          +
+        </button>
+      </div>
+    </div>
+  );
 }
 
-function StatChip({ label, value }: { label: string; value: React.ReactNode }) {
+// Efficiency metrics for one stat line; hover / long-press a metric for its formula
+function AdvancedRow({ stats }: { stats: AdvancedStats }) {
   return (
-    <div className="chip">
-      <div className="chipLabel">{label}</div>
-      <div className="chipValue">{value}</div>
+    <div className="advRow">
+      {ADVANCED_METRICS.map((m) => (
+        <span key={m.key} className="advItem" title={m.formula}>
+          <span className="advLabel">{m.label}</span> {formatMetric(m, stats[m.key])}
+        </span>
+      ))}
     </div>
   );
 }
 
+const LONG_PRESS_MS = 550;
+
 function TapButton({
   id,
   activeId,
   onTap,
+  onLongPress,
   title,
   sub,
   tone,
@@ -129,10 +346,39 @@ function TapButton({
   id: string;
   activeId: string | null;
   onTap: () => void;
+  onLongPress?: (id: string) => void;
   title: string;
   sub: string;
-  tone: "good" | "bad" | "neutral";
+  tone: StatTone;
 }) {
+  // A long press opens correction mode instead of counting a tap
+  const pressTimer = useRef<number | null>(null);
+  const longPressed = useRef(false);
+
+  const cancelPress = () => {
+    if (pressTimer.current !== null) window.clearTimeout(pressTimer.current);
+    pressTimer.current = null;
+  };
+
+  const startPress = () => {
+    longPressed.current = false;
+    if (!onLongPress) return;
+    cancelPress();
+    pressTimer.current = window.setTimeout(() => {
+      longPressed.current = true;
+      onLongPress(id);
+    }, LONG_PRESS_MS);
+  };
+
+  const click = () => {
+    cancelPress();
+    if (longPressed.current) {
+      longPressed.current = false;
+      return;
+    }
+    onTap();
+  };
+
   const cls =
     "tapBtn " +
     (tone === "good" ? "tapBtnGood " : "") +
@@ -140,7 +386,18 @@ function TapButton({
     (activeId === id ? "tapBtnActive" : "");
 
   return (
-    <button className={cls} onClick={onTap} type="button">
+    <button
+      className={cls}
+      onClick={click}
+      onPointerDown={startPress}
+      onPointerUp={cancelPress}
+      onPointerLeave={cancelPress}
+      onPointerCancel={cancelPress}
+      onContextMenu={(e) => {
+        if (onLongPress) e.preventDefault();
+      }}
+      type="button"
+    >
       <div className="tapBtnTitle">{title}</div>
       <div className="tapBtnSub">{sub}</div>
     </button>
@@ -149,134 +406,510 @@ function TapButton({
 
 export default function GameTracker() {
   const [games, setGames] = useState<GameEntry[]>([]);
-  const [counts, setCounts] = useState<LiveCounts>({ ...emptyCounts });
+  const [events, setEvents] = useState<GameEvent[]>([]);
+  const [period, setPeriod] = useState<number>(1);
+  const [periodFormat, setPeriodFormat] = useState<PeriodFormat>("quarters");
 
   const [date, setDate] = useState<string>(todayISO());
   const [team, setTeam] = useState<string>("Fly Academy");
   const [opponent, setOpponent] = useState<string>("");
-  const [playerName, setPlayerName] = useState<string>("");
+  const [playerId, setPlayerId] = useState<string>("");
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [view, setView] = useState<"tracker" | "roster" | "seasons" | "stats" | "backup" | "sync">("tracker");
   const [notes, setNotes] = useState<string>("");
 
+  // Roster mode: every player on the floor shares one event log, tagged by playerKey
+  const [trackMode, setTrackMode] = useState<TrackMode>("single");
+  const [lineup, setLineup] = useState<string[]>([]);
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+  const [newJersey, setNewJersey] = useState<string>("");
+  const [newName, setNewName] = useState<string>("");
+
+  // Game clock; `now` only moves while it runs, to re-render the countdown
+  const [clock, setClock] = useState<GameClock>(() => newClock());
+  const [now, setNow] = useState<number>(() => Date.now());
+  const [scoreTaps, setScoreTaps] = useState<ScoreTap[]>([]);
+  // Season for the live game; null follows the date / team
+  const [seasonChoice, setSeasonChoice] = useState<string | null>(null);
+
   const [selectedPlayer, setSelectedPlayer] = useState<string>("");
+  const [resultFilter, setResultFilter] = useState<GameResult | "">("");
+  // Player Log range: "" = all games, a season id, or "custom" dates
+  const [logRange, setLogRange] = useState<string>("");
+  const [rangeFrom, setRangeFrom] = useState<string>("");
+  const [rangeTo, setRangeTo] = useState<string>("");
   const [lastTapId, setLastTapId] = useState<string | null>(null);
-  const [history, setHistory] = useState<Action[]>([]);
-  const [vibOn, setVibOn] = useState<boolean>(true);
+  const [undoStack, setUndoStack] = useState<LiveUndo>(emptyStack);
+  const [showHistory, setShowHistory] = useState<boolean>(false);
+
+  // Correction mode: −/+ steppers on every raw count; focus is the stat that was long-pressed
+  const [correcting, setCorrecting] = useState<boolean>(false);
+  const [correctFocus, setCorrectFocus] = useState<StatKey | null>(null);
+  const stepGridRef = useRef<HTMLDivElement | null>(null);
+  const [openPbpId, setOpenPbpId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [sharingId, setSharingId] = useState<string | null>(null);
+  const [shotsId, setShotsId] = useState<string | null>(null);
+  const [showSeasonShots, setShowSeasonShots] = useState<boolean>(false);
+  const [showTrends, setShowTrends] = useState<boolean>(false);
+
+  // Shot chart in the tracker: tap a spot, then say made / missed
+  const [showCourt, setShowCourt] = useState<boolean>(false);
+  const [pendingShot, setPendingShot] = useState<{ loc: ShotLoc; three: boolean } | null>(null);
+  const [showTrash, setShowTrash] = useState<boolean>(false);
+  const [deletedToast, setDeletedToast] = useState<{ id: string; label: string } | null>(null);
+  const toastTimeoutRef = useRef<number | null>(null);
+  const [settings, setSettings] = useState<AppSettings>(defaultSettings);
+  // Gates the settings write so the defaults never overwrite what's stored
+  const [settingsLoaded, setSettingsLoaded] = useState<boolean>(false);
+  const vibOn = settings.vibration;
+  const customStats = settings.customStats;
+
+  // Live game draft: active from the first tap or form edit until Save / Discard
+  const [draftActive, setDraftActive] = useState<boolean>(false);
+  const [pendingDraft, setPendingDraft] = useState<LiveDraft | null>(null);
+
+  // Spectator link: while set, every change to the game is published to /api/live/<id>
+  const [liveShare, setLiveShare] = useState<LiveShare | null>(null);
+  // Final update of a saved game, kept apart from the draft (which Save clears); undefined until loaded
+  const [liveFinal, setLiveFinal] = useState<LiveFinal | null | undefined>(undefined);
+  const [liveProblem, setLiveProblem] = useState<string>("");
+  const [liveNote, setLiveNote] = useState<string>("");
 
   const mountedRef = useRef(false);
 
+  // Storage health: unreadable records are quarantined and reported, never overwritten
+  const [storageProblems, setStorageProblems] = useState<StorageProblem[]>([]);
+  const storageWritableRef = useRef(true);
+  const [storeLoaded, setStoreLoaded] = useState<boolean>(false);
+  const backendRef = useRef<Backend>("indexeddb");
+  // Last snapshot storage confirmed; persistence writes only what changed since.
+  // A failed write leaves it where it was, so the next change writes the failed records again.
+  const persistedRef = useRef<LocalData>({ games: [], players: [], seasons: [] });
+
+  // Sync with this app's server: local changes queue up, a loop pushes / pulls when online
+  const [sync, setSync] = useState<SyncState | null>(null);
+  const syncRef = useRef<SyncState | null>(null);
+  const [syncing, setSyncing] = useState<boolean>(false);
+  const syncingRef = useRef(false);
+  const [online, setOnline] = useState<boolean>(true);
+  // Last lists the sync outbox has seen (kept apart from persistedRef: queueing doesn't depend on storage)
+  const syncedRef = useRef<SyncData>({ games: [], players: [] });
+  const syncTimeoutRef = useRef<number | null>(null);
+
   // Step 1 support: stable tap flash timeout
   const tapTimeoutRef = useRef<number | null>(null);
 
   // Optional vibration toggle (default ON)
   const [vibrationOn, setVibrationOn] = useState<boolean>(true);
 
-  // Load games once
+  // Load games + roster once (IndexedDB; first run imports the migrated + validated localStorage store).
+  // Older games are linked to roster players by name.
   useEffect(() => {
-    const loaded = safeParse<GameEntry[]>(
-      typeof window !== "undefined" ? localStorage.getItem(STORAGE_KEY) : null,
-      []
-    );
-    setGames(Array.isArray(loaded) ? loaded : []);
+    let cancelled = false;
+    setPendingDraft(loadDraft());
+    setLiveFinal(loadLiveFinal(localStorage));
+    setSettings(loadSettings());
+    setSettingsLoaded(true);
+    const loadedSync = loadSyncState();
+    syncRef.current = loadedSync;
+    setSync(loadedSync);
+    setOnline(navigator.onLine);
     mountedRef.current = true;
+
+    loadAppData().then((data) => {
+      if (cancelled) return;
+      const linked = linkGamesToRoster(data.games, data.players);
+      backendRef.current = data.backend;
+      storageWritableRef.current = data.writable;
+      persistedRef.current = { games: data.games, players: data.players, seasons: data.seasons };
+      syncedRef.current = { games: data.games, players: data.players };
+      setGames(purgeExpired(linked.games));
+      setPlayers(linked.players);
+      setSeasons(data.seasons);
+      // The Player Log opens on the season we're in, if there is one
+      setLogRange(currentSeason(data.seasons, todayISO())?.id ?? "");
+      setStorageProblems(data.problems);
+      setStoreLoaded(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
-  // Persist games
+  const reportSaveError = () =>
+    setStorageProblems((ps) => [
+      ...ps.filter((p) => p.source !== "save"),
+      { source: "save", count: 1, message: "Couldn't save the latest changes on this device. Storage may be full." },
+    ]);
+
+  // Persist games (gated on state, not the ref, so the pre-load empty list is never written)
+  useEffect(() => {
+    if (!storeLoaded || !storageWritableRef.current) return;
+    persistGames(backendRef.current, persistedRef.current.games, games).then(() => {
+      persistedRef.current.games = games;
+    }, reportSaveError);
+  }, [games, storeLoaded]);
+
+  // Persist roster
   useEffect(() => {
-    if (!mountedRef.current) return;
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(games));
-  }, [games]);
+    if (!storeLoaded || !storageWritableRef.current) return;
+    persistPlayers(backendRef.current, persistedRef.current.players, players).then(() => {
+      persistedRef.current.players = players;
+    }, reportSaveError);
+  }, [players, storeLoaded]);
 
-  // Keep selected player sensible
+  // Persist seasons
   useEffect(() => {
-    const names = Array.from(new Set(games.map((g) => g.playerName).filter(Boolean))).sort();
-    const fallback = playerName.trim() || names[0] || "";
-    if (!selectedPlayer) setSelectedPlayer(fallback);
+    if (!storeLoaded || !storageWritableRef.current) return;
+    persistSeasons(backendRef.current, persistedRef.current.seasons, seasons).then(() => {
+      persistedRef.current.seasons = seasons;
+    }, reportSaveError);
+  }, [seasons, storeLoaded]);
+
+  const commitSync = (next: SyncState) => {
+    syncRef.current = next;
+    saveSyncState(next);
+    setSync(next);
+  };
+
+  // Push the outbox, pull what's new, and fold the server's records into the lists.
+  // Failures keep everything queued; the next tick (or coming back online) retries.
+  const runSync = async () => {
+    const sent = syncRef.current;
+    if (!sent?.enabled || syncingRef.current || !navigator.onLine) return;
+    // Pulled records couldn't be saved, and the cursor would move past them for good
+    if (!storageWritableRef.current) return;
+    syncingRef.current = true;
+    setSyncing(true);
+    try {
+      const done = await syncOnce(sent, syncedRef.current);
+      const { state, incoming } = settleSync(sent, syncRef.current ?? sent, done);
+      commitSync(state);
+      if (incoming.games.length) setGames((gs) => applyIncoming(gs, incoming.games));
+      if (incoming.players.length) setPlayers((ps) => applyIncoming(ps, incoming.players));
+    } catch (err) {
+      const latest = syncRef.current ?? sent;
+      commitSync({ ...latest, lastError: (err as Error).message || "network error" });
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+  };
+
+  // Queue local changes for sync (records that came from the server are skipped), then sync shortly after
+  useEffect(() => {
+    if (!storeLoaded || !syncRef.current) return;
+    const prev = syncedRef.current;
+    const next: SyncData = { games, players };
+    syncedRef.current = next;
+    let s = syncRef.current;
+    SYNC_KINDS.forEach((kind) => {
+      const { put, removed } = diffById<{ id: string }>(prev[kind], next[kind]);
+      if (put.length || removed.length) s = queueChanges(s, kind, put, removed);
+    });
+    if (s === syncRef.current) return;
+    commitSync(s);
+    if (!s.enabled) return;
+    if (syncTimeoutRef.current) window.clearTimeout(syncTimeoutRef.current);
+    syncTimeoutRef.current = window.setTimeout(() => void runSync(), 2000);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [games, players, storeLoaded]);
+
+  // Sync on load, every 15 s, and as soon as the connection comes back
+  useEffect(() => {
+    if (!storeLoaded || !sync?.enabled) return;
+    void runSync();
+    const id = window.setInterval(() => void runSync(), 15000);
+    const onOnline = () => {
+      setOnline(true);
+      void runSync();
+    };
+    const onOffline = () => setOnline(false);
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    return () => {
+      window.clearInterval(id);
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [storeLoaded, sync?.enabled]);
+
+  // Team viewers follow along: the Player Log stays open, tracking and editing are hidden
+  const readOnly = !!sync?.team && !canWrite(sync.team.role);
+
+  const changeTeam = (next: TeamSession | null) => {
+    const s = syncRef.current;
+    if (!s) return;
+    // Same membership, fresh details (name, role)
+    if (next && s.team && next.token === s.team.token) {
+      commitSync({ ...s, team: next });
+      return;
+    }
+    // Statisticians and owners bring this device's own games into the team; viewers only pull.
+    // Leaving keeps the team's games on this phone without sending them anywhere.
+    const moved = switchSpace(s, next, syncedRef.current);
+    commitSync(moved.enabled && canPush(moved) ? queueAll(moved, syncedRef.current) : moved);
+    void runSync();
+  };
+
+  const toggleSync = (on: boolean) => {
+    const s = syncRef.current;
+    if (!s) return;
+    // Turning sync on sends up everything this device has that the server hasn't seen from it
+    commitSync(on ? queueAll(setSyncEnabled(s, true), syncedRef.current) : setSyncEnabled(s, false));
+  };
+
+  // Persist settings (gated on state, not the ref: on mount this runs before the loaded settings land)
+  useEffect(() => {
+    if (!settingsLoaded) return;
+    saveSettings(settings);
+  }, [settings, settingsLoaded]);
+
+  // Persist the final live update until it's sent, so closing the app offline doesn't lose it
+  useEffect(() => {
+    storeLiveFinal(localStorage, liveFinal);
+  }, [liveFinal]);
+
+  // Persist the in-progress game (held back while the resume prompt is showing)
+  useEffect(() => {
+    if (!mountedRef.current || pendingDraft || !draftActive) return;
+    const draft: LiveDraft = {
+      savedAt: Date.now(),
+      events,
+      undo: undoStack,
+      period,
+      periodFormat,
+      date,
+      team,
+      opponent,
+      playerId,
+      notes,
+      trackMode,
+      lineup,
+      activeKey,
+      clock,
+      scoreTaps,
+      seasonChoice,
+      liveShare,
+    };
+    localStorage.setItem(DRAFT_KEY, JSON.stringify(draft));
+  }, [
+    events,
+    undoStack,
+    period,
+    periodFormat,
+    date,
+    team,
+    opponent,
+    playerId,
+    notes,
+    trackMode,
+    lineup,
+    activeKey,
+    clock,
+    scoreTaps,
+    seasonChoice,
+    liveShare,
+    draftActive,
+    pendingDraft,
+  ]);
+
+  // Clock length for the current period (overtime is usually shorter)
+  const periodMs =
+    (period > regulationPeriods[periodFormat] ? settings.overtimeMinutes : settings.periodMinutes) * 60000;
+  const clockRunning = clock.runningSince !== null;
+
+  // Tick while the clock runs; stops itself at the end of the period
+  useEffect(() => {
+    if (!clockRunning) return;
+    const id = window.setInterval(() => {
+      const t = Date.now();
+      setNow(t);
+      setClock((c) => tickClock(c, periodMs, t));
+    }, 250);
+    return () => window.clearInterval(id);
+  }, [clockRunning, periodMs]);
+
+  const liveGames = useMemo(() => games.filter((g) => !isTrashed(g)), [games]);
+  const trashedGames = useMemo(() => games.filter(isTrashed), [games]);
+
+  const playerById = useMemo(() => new Map(players.map((p) => [p.id, p])), [players]);
+  const rosterPlayers = useMemo(
+    () => players.filter((p) => !p.archived).sort((a, b) => a.name.localeCompare(b.name)),
+    [players]
+  );
+  const livePlayer = playerById.get(playerId) ?? null;
+
+  const sortedSeasons = useMemo(() => sortSeasons(seasons), [seasons]);
+  const seasonIds = useMemo(() => new Set(seasons.map((s) => s.id)), [seasons]);
+  const defaultSeason = currentSeason(seasons, date || todayISO(), team.trim() || "Fly Academy");
+  // A picked season that's since been deleted falls back to the default
+  const liveSeasonId =
+    seasonChoice !== null && (!seasonChoice || seasonIds.has(seasonChoice)) ? seasonChoice : defaultSeason?.id ?? "";
+
+  // Keep selected player sensible (merges can remove the selected id)
+  useEffect(() => {
+    if (selectedPlayer && players.some((p) => p.id === selectedPlayer)) return;
+    const withGames = players.find((p) => liveGames.some((g) => g.playerId === p.id));
+    setSelectedPlayer(playerId || withGames?.id || players[0]?.id || "");
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [games]);
+  }, [liveGames, players]);
 
   // Derived stats (live)
-  const scoring = useMemo(() => {
-    const fgm = counts.made2 + counts.made3;
-    const fga = counts.made2 + counts.miss2 + counts.made3 + counts.miss3;
+  const activePlayer = activeKey && lineup.includes(activeKey) ? playerById.get(activeKey) ?? null : null;
 
-    const tpm = counts.made3;
-    const tpa = counts.made3 + counts.miss3;
+  // Tiles show the active player's line in roster mode
+  const liveEvents = useMemo(
+    () => (trackMode === "roster" ? events.filter((e) => e.playerKey === activeKey) : events),
+    [events, trackMode, activeKey]
+  );
+  const counts = useMemo(() => countsFromEvents(liveEvents), [liveEvents]);
+  const liveCustom = useMemo(() => customFromEvents(liveEvents), [liveEvents]);
+  const liveShots = useMemo(() => shotsFromEvents(liveEvents), [liveEvents]);
+
+  // Team score is every tracked player's points plus the taps for everyone else
+  const liveScore = useMemo<GameScore>(() => {
+    const tapped = (side: ScoreSide) => scoreTaps.filter((t) => t.side === side).reduce((s, t) => s + t.pts, 0);
+    return { team: points(countsFromEvents(events)) + tapped("team"), opponent: tapped("opponent") };
+  }, [events, scoreTaps]);
+  const liveAdvanced = useMemo(() => advancedStats(counts), [counts]);
+
+  // Spectators get every tracked player's line, not just the one on the tiles
+  const liveSnapshot = (status: LiveStatus): LiveSnapshot =>
+    buildSnapshot({
+      gameId: liveShare?.id ?? "",
+      status,
+      date: date || todayISO(),
+      team: team.trim() || "Fly Academy",
+      opponent: opponent.trim(),
+      period,
+      periodFormat,
+      score: liveScore,
+      stats: customStats,
+      players:
+        trackMode === "roster"
+          ? lineup.map((id) => ({ key: id, name: playerById.get(id)?.name || "Player", jersey: playerById.get(id)?.jersey }))
+          : [{ key: SOLO_KEY, name: livePlayer?.name || "Player", jersey: livePlayer?.jersey }],
+      events,
+      roster: trackMode === "roster",
+    });
 
-    const ftm = counts.madeFT;
-    const fta = counts.madeFT + counts.missFT;
+  // Latest snapshot for the heartbeat, refreshed after each render rather than during it
+  const liveSnapshotRef = useRef(liveSnapshot);
+  useEffect(() => {
+    liveSnapshotRef.current = liveSnapshot;
+  });
 
-    const pts = counts.made2 * 2 + counts.made3 * 3 + counts.madeFT;
+  // Publish shortly after each change (taps come in bursts), plus a heartbeat so spectators know we're still here
+  useEffect(() => {
+    if (!liveShare) return;
+    const push = () => sendLive(liveSnapshotRef.current("live"), liveShare).then((r) => setLiveProblem(r.problem));
+    const t = window.setTimeout(push, 300);
+    const beat = window.setInterval(push, LIVE_HEARTBEAT_MS);
+    return () => {
+      window.clearTimeout(t);
+      window.clearInterval(beat);
+    };
+  }, [liveShare, events, scoreTaps, period, periodFormat, team, opponent, date, trackMode, lineup, playerId, customStats]);
 
-    return {
-      pts,
-      fgm,
-      fga,
-      fgPct: pct(fgm, fga),
-      tpm,
-      tpa,
-      tpPct: pct(tpm, tpa),
-      ftm,
-      fta,
-      ftPct: pct(ftm, fta),
+  // The final update for a saved game is retried until the server takes it: every heartbeat and on reconnect
+  useEffect(() => {
+    if (!liveFinal) return;
+    let cancelled = false;
+    const attempt = async () => {
+      const sent = await sendLive(liveFinal.snapshot, liveFinal.share);
+      if (cancelled || sent.retry) return;
+      // Taken, or turned down for good (another phone owns the link): nothing left to send
+      setLiveFinal(null);
+      if (sent.problem) setLiveProblem(sent.problem);
+    };
+    void attempt();
+    const id = window.setInterval(() => void attempt(), LIVE_HEARTBEAT_MS);
+    window.addEventListener("online", attempt);
+    return () => {
+      cancelled = true;
+      window.clearInterval(id);
+      window.removeEventListener("online", attempt);
     };
-  }, [counts]);
+  }, [liveFinal]);
 
-  const ttlRebs = counts.orb + counts.drb;
+  // Period chips: regulation periods plus any overtime already reached
+  const periodChoices = useMemo(() => {
+    const last = Math.max(regulationPeriods[periodFormat], period);
+    return Array.from({ length: last }, (_, i) => i + 1);
+  }, [periodFormat, period]);
 
   // Player list + selected games
-  const playerNames = useMemo(() => {
-    const set = new Set<string>();
-    games.forEach((g) => {
-      if (g.playerName?.trim()) set.add(g.playerName.trim());
+  const archivedPlayers = useMemo(
+    () => players.filter((p) => p.archived).sort((a, b) => a.name.localeCompare(b.name)),
+    [players]
+  );
+
+  const seasonGameCounts = useMemo(() => {
+    const out: Record<string, number> = {};
+    seasons.forEach((s) => {
+      out[s.id] = liveGames.filter((g) => inSeason(g, s, seasonIds)).length;
     });
-    if (playerName.trim()) set.add(playerName.trim());
-    return Array.from(set).sort((a, b) => a.localeCompare(b));
-  }, [games, playerName]);
-
-  const gamesForSelected = useMemo(() => {
-    const p = selectedPlayer.trim();
-    if (!p) return [];
-    return games
-      .filter((g) => g.playerName.trim() === p)
+    return out;
+  }, [liveGames, seasons, seasonIds]);
+
+  const gameCounts = useMemo(() => {
+    const out: Record<string, number> = {};
+    liveGames.forEach((g) => {
+      if (g.playerId) out[g.playerId] = (out[g.playerId] ?? 0) + 1;
+    });
+    return out;
+  }, [liveGames]);
+
+  const playerGames = useMemo(() => {
+    if (!selectedPlayer) return [];
+    return liveGames
+      .filter((g) => g.playerId === selectedPlayer)
       .sort((a, b) => b.createdAt - a.createdAt);
-  }, [games, selectedPlayer]);
+  }, [liveGames, selectedPlayer]);
 
-  // Season-to-date aggregates (selected player)
-  const season = useMemo(() => {
-    const total = gamesForSelected.reduce((acc, g) => sumCounts(acc, g.counts), { ...emptyCounts });
-    const n = gamesForSelected.length;
+  const logSeason = seasons.find((s) => s.id === logRange) ?? null;
 
-    const fgm = total.made2 + total.made3;
-    const fga = total.made2 + total.miss2 + total.made3 + total.miss3;
+  // Season / date range: the record and everything below it
+  const gamesInRange = useMemo(() => {
+    if (logRange === "custom") return playerGames.filter((g) => inDateRange(g, rangeFrom, rangeTo));
+    if (logSeason) return playerGames.filter((g) => inSeason(g, logSeason, seasonIds));
+    return playerGames;
+  }, [playerGames, logRange, logSeason, rangeFrom, rangeTo, seasonIds]);
 
-    const tpm = total.made3;
-    const tpa = total.made3 + total.miss3;
+  // The result filter narrows both the season aggregates and the game list
+  const gamesForSelected = useMemo(
+    () => (resultFilter ? gamesInRange.filter((g) => g.result === resultFilter) : gamesInRange),
+    [gamesInRange, resultFilter]
+  );
 
-    const ftm = total.madeFT;
-    const fta = total.madeFT + total.missFT;
+  const record = useMemo(() => recordOf(gamesInRange), [gamesInRange]);
+  const pointsShare = useMemo(() => teamPointsShare(gamesForSelected), [gamesForSelected]);
 
-    const pts = total.made2 * 2 + total.made3 * 3 + total.madeFT;
+  // Custom stat definitions: the current settings, plus ones only saved games still remember
+  const knownStats = useMemo(() => {
+    const out = new Map<string, CustomStat>();
+    liveGames.forEach((g) => g.customStats?.forEach((d) => out.set(d.key, d)));
+    customStats.forEach((d) => out.set(d.key, d));
+    return [...out.values()];
+  }, [liveGames, customStats]);
 
-    const rpg = avg(total.orb + total.drb, n);
-    const orbg = avg(total.orb, n);
-    const drbg = avg(total.drb, n);
+  // Season-to-date aggregates (selected player)
+  const season = useMemo(
+    () =>
+      seasonSummary(gamesForSelected, {
+        perMinutes: settings.perMinutes,
+        customStats: knownStats,
+        pinned: customStats.map((d) => d.key),
+      }),
+    [gamesForSelected, knownStats, customStats, settings.perMinutes]
+  );
 
-    return {
-      games: n,
-      total,
-      ppg: avg(pts, n),
-      rpg,
-      orbg,
-      drbg,
-      apg: avg(total.ast, n),
-      topg: avg(total.to, n),
-      stlg: avg(total.stl, n),
-      pfpg: avg(total.pf, n),
-      fgPct: pct(fgm, fga),
-      tpPct: pct(tpm, tpa),
-      ftPct: pct(ftm, fta),
-    };
-  }, [gamesForSelected]);
+  const seasonShots = useMemo(() => gamesForSelected.flatMap((g) => g.shots ?? []), [gamesForSelected]);
 
   // --- Tap feedback ---
   const tapFeedback = (id: string) => {
@@ -293,101 +926,510 @@ export default function GameTracker() {
   };  
 
   // --- Actions ---
-  const inc = (key: keyof LiveCounts, tapId: string) => {
+  const tagPlayer = () => (trackMode === "roster" && activeKey ? { playerKey: activeKey } : {});
+
+  // Form edits start the draft too, so an opponent typed before the first tap survives a reload.
+  // Nothing changes while the resume prompt is up: Resume would overwrite it.
+  const editForm = (apply: () => void) => {
+    if (pendingDraft) return;
+    apply();
+    setDraftActive(true);
+  };
+
+  // Every change to the event log / scoreboard goes through here so it can be undone exactly
+  const change = (action: Action, next: Partial<LiveLists>) => {
+    if (pendingDraft) return;
+    const before: LiveLists = { events, scoreTaps };
+    const after: LiveLists = { ...before, ...next };
+    setEvents(after.events);
+    setScoreTaps(after.scoreTaps);
+    setUndoStack((u) => recordStep(u, action, before, after));
+    setDraftActive(true);
+  };
+
+  const inc = (key: StatKey, tapId: string, loc?: ShotLoc) => {
+    if (trackMode === "roster" && !activePlayer) {
+      alert("Pick a player from the roster first.");
+      return;
+    }
     tapFeedback(tapId);
-    setCounts((c) => ({ ...c, [key]: c[key] + 1 }));
-    setHistory((h) => [...h, { kind: "inc", key }]);
+    change({ kind: "inc", key }, {
+      events: [
+        ...events,
+        { id: makeId(), at: Date.now(), period, key, delta: 1, ...tagPlayer(), ...(loc ? { loc } : {}) },
+      ],
+    });
   };
 
-  const dec = (key: keyof LiveCounts) => {
-    setCounts((c) => ({ ...c, [key]: clampNonNeg(c[key] - 1) }));
-    setHistory((h) => [...h, { kind: "dec", key }]);
+  // Corrections are ordinary events flagged as such, so they show up in the play-by-play and can be undone
+  const correct = (key: StatKey, delta: 1 | -1) => {
+    if (trackMode === "roster" && !activePlayer) {
+      alert("Pick a player from the roster first.");
+      return;
+    }
+    // Never take a count below 0 (the event would be clamped away and undo would over-restore)
+    if (delta < 0 && !(isCustomKey(key) ? liveCustom[key] : counts[key])) return;
+    change({ kind: "correct", key, delta }, {
+      events: [...events, { id: makeId(), at: Date.now(), period, key, delta, correction: true, ...tagPlayer() }],
+    });
   };
 
-  const undo = () => {
-    setHistory((h) => {
-      if (!h.length) return h;
-      const last = h[h.length - 1];
+  const startCorrecting = (key: string) => {
+    setCorrecting(true);
+    setCorrectFocus(key as StatKey);
+    tapFeedback(key);
+    // The steppers sit above the buttons; bring them into view on a phone
+    window.setTimeout(() => stepGridRef.current?.scrollIntoView({ behavior: "smooth", block: "center" }), 0);
+  };
 
-      setCounts((c) => {
-        if (last.kind === "inc") {
-          return { ...c, [last.key]: clampNonNeg(c[last.key] - 1) };
-        }
-        if (last.kind === "dec") {
-          return { ...c, [last.key]: c[last.key] + 1 };
-        }
-        if (last.kind === "reset") {
-          return c;
-        }
-        return c;
-      });
+  const addScore = (side: ScoreSide, pts: number) => {
+    tapFeedback(`score-${side}-${pts}`);
+    change({ kind: "score", side, pts }, { scoreTaps: [...scoreTaps, { side, pts, at: Date.now(), period }] });
+  };
 
-      return h.slice(0, -1);
+  // Put the result of an undo / redo / jump on screen
+  const restoreLive = (r: { state: LiveLists; stack: LiveUndo; passed?: UndoStep<LiveLists, Action>[] }) => {
+    setEvents(r.state.events);
+    setScoreTaps(r.state.scoreTaps);
+    setUndoStack(r.stack);
+    setDraftActive(true);
+    // A removed player comes back on the floor with their taps (and leaves again on redo)
+    (r.passed ?? []).forEach(({ action: a }) => {
+      if (a.kind !== "remove") return;
+      const back = r.state.events.some((e) => e.playerKey === a.playerKey);
+      setLineup((l) => {
+        if (!back) return l.filter((x) => x !== a.playerKey);
+        return l.includes(a.playerKey) ? l : [...l, a.playerKey];
+      });
+      setClock((c) => setOnCourt(c, a.playerKey, back, periodMs, Date.now()));
+      if (!back) setActiveKey((k) => (k === a.playerKey ? null : k));
     });
   };
 
-  const resetLive = () => {
-    setCounts({ ...emptyCounts });
-    setHistory((h) => [...h, { kind: "reset" }]);
+  const live: LiveLists = { events, scoreTaps };
+
+  const undo = () => {
+    const r = undoStep(undoStack, live);
+    if (r) restoreLive({ ...r, passed: [r.step] });
   };
-  const describeAction = (a: any) => {
-    // best effort label (won’t crash even if shape changes)
-    if (!a) return "last action";
-    if (a.kind === "inc") return `+${String(a.key || "").toUpperCase()}`;
-    if (a.kind === "dec") return `-${String(a.key || "").toUpperCase()}`;
-    return "RESET";
+
+  const redo = () => {
+    const r = redoStep(undoStack, live);
+    if (r) restoreLive({ ...r, passed: [r.step] });
   };
 
-  const confirmUndo = () => {
-    if (!history.length) return;
+  const jumpToStep = (position: number) => restoreLive(jumpTo(undoStack, live, position));
 
-    const last = history[history.length - 1];
-    const ok = window.confirm(
-      `Undo last action: ${describeAction(last)}?\n\nThis will revert your most recent tap.`
-    );
-    if (ok) undo();
+  const resetLive = () => {
+    change({ kind: "reset" }, { events: [], scoreTaps: [] });
   };
 
+  const describeAction = (a: Action) => {
+    switch (a.kind) {
+      case "inc":
+        return `+${statLabel(a.key, customStats).toUpperCase()}`;
+      case "correct":
+        return `FIX ${a.delta > 0 ? "+" : "-"}${statLabel(a.key, customStats).toUpperCase()}`;
+      case "score":
+        return `+${a.pts} ${a.side === "team" ? "TEAM" : "OPPONENT"} SCORE`;
+      case "remove":
+        return `REMOVE ${a.name.toUpperCase()}`;
+      case "reset":
+        return "RESET";
+    }
+  };
+
+  const nextUndo = undoStack.past[undoStack.past.length - 1];
+  const nextRedo = undoStack.future[undoStack.future.length - 1];
+  const steps = timeline(undoStack);
+
   const confirmReset = () => {
     // Only bother confirming if there’s something to lose
-    const hasStats =
-      Object.values(counts).some((v) => Number(v) > 0) || history.length > 0;
+    const hasStats = events.length > 0 || scoreTaps.length > 0;
 
     if (!hasStats) return;
 
-    const who = (playerName || "").trim() || "this player";
+    const who =
+      trackMode === "roster"
+        ? `all ${lineup.length} players`
+        : `${livePlayer?.name || "this player"}'s`;
     const ok = window.confirm(
-      `Are you sure you want to clear ${who}'s live stats?\n\nThis will NOT delete saved games.`
+      `Are you sure you want to clear ${who} live stats?\n\nThis will NOT delete saved games, and Undo brings them back.`
     );
     if (ok) resetLive();
   };
 
-  const saveGame = () => {
-    const p = playerName.trim();
-    if (!p) {
-      alert("Please enter Player Name.");
+  // --- Game clock ---
+  const toggleClock = () => {
+    if (pendingDraft) return;
+    const t = Date.now();
+    setNow(t);
+    setDraftActive(true);
+    setClock((c) => (c.runningSince === null ? startClock(c, periodMs, t) : stopClock(c, periodMs, t)));
+  };
+
+  const goToPeriod = (n: number) => {
+    if (n === period) return;
+    editForm(() => {
+      setClock((c) => resetPeriod(c, periodMs, Date.now()));
+      setPeriod(n);
+    });
+  };
+
+  // The player the sub toggle applies to: the active roster player, or the one tracked player
+  const clockKey = trackMode === "roster" ? activeKey : SOLO_KEY;
+
+  const toggleSub = () => {
+    if (!clockKey || pendingDraft) return;
+    setDraftActive(true);
+    setClock((c) => setOnCourt(c, clockKey, !c.onCourt.includes(clockKey), periodMs, Date.now()));
+  };
+
+  const setClockMinutes = (field: "periodMinutes" | "overtimeMinutes", raw: string) => {
+    const n = Math.floor(Number(raw));
+    if (n >= 1 && n <= 60) setSettings((s) => ({ ...s, [field]: n }));
+  };
+
+  const tapCourt = (loc: ShotLoc) => {
+    if (trackMode === "roster" && !activePlayer) {
+      alert("Pick a player from the roster first.");
       return;
     }
+    setPendingShot({ loc, three: isThree(loc) });
+  };
+
+  const recordShot = (made: boolean) => {
+    if (!pendingShot) return;
+    const key = pendingShot.three ? (made ? "made3" : "miss3") : made ? "made2" : "miss2";
+    inc(key, key, pendingShot.loc);
+    setPendingShot(null);
+  };
 
-    const entry: GameEntry = {
+  const customTapButtons = (section: StatSection) =>
+    customStats
+      .filter((d) => d.section === section)
+      .map((d) => (
+        <TapButton
+          key={d.key}
+          id={d.key}
+          activeId={lastTapId}
+          tone={d.tone}
+          title={d.short || d.label}
+          sub={d.label}
+          onLongPress={startCorrecting}
+          onTap={() => inc(d.key, d.key)}
+        />
+      ));
+
+  const buildEntry = (gameId: string, player: Player, playerEvents: GameEvent[], minutes?: number): GameEntry => {
+    const custom = customFromEvents(playerEvents);
+    const used = usedCustomKeys(custom);
+    const shots = shotsFromEvents(playerEvents);
+    return {
       id: makeId(),
+      gameId,
       createdAt: Date.now(),
       date: date || todayISO(),
       team: team.trim() || "Fly Academy",
       opponent: opponent.trim(),
-      playerName: p,
+      playerId: player.id,
+      playerName: player.name,
+      jersey: player.jersey || undefined,
       notes: notes.trim() || undefined,
-      counts: { ...counts },
+      // Picking "No season" is kept as ""; with no pick and no season covering the date, the date decides later
+      seasonId: seasonChoice === "" ? "" : liveSeasonId || undefined,
+      counts: countsFromEvents(playerEvents),
+      minutes,
+      ...(used.length
+        ? {
+            custom: Object.fromEntries(used.map((k) => [k, custom[k]])) as CustomCounts,
+            customStats: customStats.filter((d) => used.includes(d.key)),
+          }
+        : {}),
+      events: playerEvents,
+      periodFormat,
+      periods: periodBreakdown(playerEvents, periodFormat),
+      shots: shots.length ? shots : undefined,
     };
+  };
+
+  const saveGame = () => {
+    // A game shared live keeps its link id, so /live/<gameId> matches the saved entries
+    const gameId = liveShare?.id ?? makeId();
+    let entries: GameEntry[];
+
+    // Minutes are only recorded when the clock was actually run
+    const finalClock = stopClock(clock, periodMs, Date.now());
+    const minutesFor = (key: string) =>
+      Object.keys(finalClock.played).length ? msToMinutes(finalClock.played[key] ?? 0) : undefined;
+
+    if (trackMode === "roster") {
+      // Players with no taps didn't log a game; skip them rather than saving zero lines
+      entries = lineup
+        .map((id) => ({ p: playerById.get(id), ev: events.filter((e) => e.playerKey === id) }))
+        .filter((x): x is { p: Player; ev: GameEvent[] } => !!x.p && x.ev.length > 0)
+        .map(({ p, ev }) => buildEntry(gameId, p, ev, minutesFor(p.id)));
+      if (!entries.length) {
+        alert("No stats recorded for any player yet.");
+        return;
+      }
+    } else {
+      if (!livePlayer) {
+        alert("Please choose a Player.");
+        return;
+      }
+      entries = [buildEntry(gameId, livePlayer, [...events], minutesFor(SOLO_KEY))];
+    }
+
+    // The final score is only kept when the scoreboard was used
+    if (scoreTaps.length) {
+      const score = { ...liveScore };
+      entries = entries.map((e) => ({ ...e, score, result: gameResult(score) }));
+    }
+
+    setGames((g) => [...entries, ...g]);
+    // The link stops following the tracker now; the final update goes out (and retries) on its own
+    if (liveShare) {
+      setLiveFinal({ share: liveShare, snapshot: liveSnapshot("final") });
+      setLiveShare(null);
+      setLiveProblem("");
+    }
+    setSelectedPlayer(trackMode === "roster" && activePlayer ? activePlayer.id : entries[0].playerId ?? "");
+
+    setEvents([]);
+    setScoreTaps([]);
+    setSeasonChoice(null);
+    setUndoStack(emptyStack());
+    setCorrecting(false);
+    setPeriod(1);
+    setClock(newClock(trackMode === "roster" ? lineup : [SOLO_KEY]));
+    setDraftActive(false);
+    clearDraft();
+  };
+
+  const resumeDraft = () => {
+    if (!pendingDraft) return;
+    setEvents(pendingDraft.events);
+    setUndoStack(pendingDraft.undo);
+    setPeriod(pendingDraft.period);
+    setPeriodFormat(pendingDraft.periodFormat);
+    setDate(pendingDraft.date || todayISO());
+    setTeam(pendingDraft.team);
+    setOpponent(pendingDraft.opponent);
+    setPlayerId(
+      pendingDraft.playerId ||
+        (pendingDraft.legacyPlayerName ? addRosterPlayer({ name: pendingDraft.legacyPlayerName, jersey: "" }).id : "")
+    );
+    setNotes(pendingDraft.notes);
+    setTrackMode(pendingDraft.trackMode);
+    setLineup(pendingDraft.lineup);
+    setActiveKey(pendingDraft.activeKey);
+    setClock(pendingDraft.clock);
+    setScoreTaps(pendingDraft.scoreTaps);
+    setSeasonChoice(pendingDraft.seasonChoice);
+    setLiveShare(pendingDraft.liveShare);
+    setNow(Date.now());
+    setDraftActive(true);
+    setPendingDraft(null);
+  };
+
+  const goLive = () => {
+    setLiveShare({ id: makeId(), key: newLiveKey() });
+    setLiveProblem("");
+    setLiveNote("");
+    setDraftActive(true);
+  };
+
+  const stopLive = () => {
+    if (!window.confirm("Stop sharing this game live?\n\nSpectators keep the last update; a new link is needed to share again.")) {
+      return;
+    }
+    setLiveShare(null);
+    setLiveProblem("");
+  };
+
+  const liveUrl = liveShare && typeof window !== "undefined" ? `${window.location.origin}/live/${liveShare.id}` : "";
+
+  const shareLiveLink = async () => {
+    setLiveNote("");
+    try {
+      if (typeof navigator.share === "function") {
+        await navigator.share({ url: liveUrl, text: `Follow ${team.trim() || "Fly Academy"} live` });
+        return;
+      }
+      await navigator.clipboard.writeText(liveUrl);
+      setLiveNote("Link copied.");
+    } catch (e) {
+      // Closing the share sheet isn't an error worth showing
+      if ((e as DOMException)?.name !== "AbortError") setLiveNote("Couldn't share automatically. Copy the link above.");
+    }
+  };
+
+  const discardDraft = () => {
+    const ok = window.confirm("Discard the game in progress?\n\nIts live stats will be lost.");
+    if (!ok) return;
+    clearDraft();
+    setPendingDraft(null);
+  };
+
+  // Reuses a roster player when the name already exists, so "Jordan " can't fork a season
+  const addRosterPlayer = (fields: { name: string; jersey: string; position?: string; team?: string }) => {
+    const existing = findPlayerByName(players, fields.name);
+    if (existing) {
+      if (existing.archived) updatePlayer(existing.id, { archived: false });
+      return existing;
+    }
+    const player = createPlayer({ ...fields, team: fields.team ?? team.trim() });
+    setPlayers((ps) => [...ps, player]);
+    return player;
+  };
+
+  const addNewPlayer = () => {
+    if (!newName.trim()) return;
+    const player = addRosterPlayer({ name: newName, jersey: newJersey.trim().replace(/^#/, "") });
+    if (trackMode === "roster") putOnFloor(player.id);
+    else editForm(() => setPlayerId(player.id));
+    setNewName("");
+    setNewJersey("");
+  };
+
+  const putOnFloor = (id: string) => {
+    if (!id) return;
+    editForm(() => {
+      if (!lineup.includes(id)) setClock((c) => setOnCourt(c, id, true, periodMs, Date.now()));
+      setLineup((l) => (l.includes(id) ? l : [...l, id]));
+      setActiveKey(id);
+    });
+  };
+
+  const removeFromLineup = (key: string) => {
+    const p = playerById.get(key);
+    if (!p || pendingDraft) return;
+    const tapped = events.filter((e) => e.playerKey === key).length;
+    if (tapped) {
+      const ok = window.confirm(`Remove ${p.name} from the roster?\n\nTheir ${tapped} recorded taps will be lost.`);
+      if (!ok) return;
+      change({ kind: "remove", playerKey: key, name: p.name }, { events: events.filter((e) => e.playerKey !== key) });
+    }
+    setLineup((l) => l.filter((x) => x !== key));
+    setClock((c) => setOnCourt(c, key, false, periodMs, Date.now()));
+    if (activeKey === key) setActiveKey(null);
+    setDraftActive(true);
+  };
+
+  const updatePlayer = (id: string, patch: Partial<Omit<Player, "id" | "createdAt">>) => {
+    setPlayers((ps) => ps.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+  };
+
+  // --- Seasons ---
+  const addSeason = (fields: Omit<Season, "id">) => {
+    setSeasons((ss) => [...ss, createSeason(fields)]);
+  };
+
+  const updateSeason = (id: string, fields: Omit<Season, "id">) => {
+    setSeasons((ss) => ss.map((s) => (s.id === id ? { ...createSeason(fields), id } : s)));
+  };
+
+  // Games filed under it stay put and fall back to matching by date
+  const removeSeason = (id: string) => {
+    setSeasons((ss) => ss.filter((s) => s.id !== id));
+    if (logRange === id) setLogRange("");
+    if (seasonChoice === id) setSeasonChoice(null);
+  };
+
+  const mergePlayer = (fromId: string, intoId: string) => {
+    const from = playerById.get(fromId);
+    const into = playerById.get(intoId);
+    if (!from || !into) return;
+    const ok = window.confirm(
+      `Merge ${from.name} into ${into.name}?\n\n${gameCounts[fromId] ?? 0} games move to ${into.name} and ${from.name} is removed from the roster.`
+    );
+    if (!ok) return;
+    const merged = mergePlayers(games, players, fromId, intoId);
+    setGames(merged.games);
+    setPlayers(merged.players);
+    // Keep the live game pointing at the surviving player
+    if (playerId === fromId) setPlayerId(intoId);
+    setLineup((l) => Array.from(new Set(l.map((id) => (id === fromId ? intoId : id)))));
+    if (activeKey === fromId) setActiveKey(intoId);
+    const retag = (e: GameEvent) => (e.playerKey === fromId ? { ...e, playerKey: intoId } : e);
+    setEvents((ev) => ev.map(retag));
+    setUndoStack((u) => mapStackItems(u, "events", retag));
+    setClock((c) => renameKey(c, fromId, intoId));
+  };
+
+  const editGame = (id: string, next: GameFields) => {
+    setGames((gs) => gs.map((g) => (g.id === id ? applyGameEdit(g, next) : g)));
+    if (next.playerId && next.playerId !== selectedPlayer) setSelectedPlayer(next.playerId);
+    setEditingId(null);
+  };
+
+  const revertGameEdits = (id: string) => {
+    setGames((gs) => gs.map((g) => (g.id === id ? revertGame(g) : g)));
+    setEditingId(null);
+  };
+
+  // --- Export ---
+  const selectedName = playerById.get(selectedPlayer)?.name ?? "";
+
+  const downloadCsv = (kind: string, csv: string) => {
+    // BOM so Excel opens it as UTF-8 (names with accents)
+    const blob = new Blob(["\ufeff", csv], { type: "text/csv;charset=utf-8" });
+    const range = logSeason ? `_${slug(logSeason.name)}` : logRange === "custom" ? `_${rangeFrom}_${rangeTo}` : "";
+    downloadBlob(`fly-stats_${slug(selectedName)}${range}_${kind}_${todayISO()}.csv`, blob);
+  };
+
+  const exportGamesCsv = () => {
+    if (!gamesForSelected.length) return;
+    downloadCsv("games", gamesCsv(gamesForSelected, () => selectedName, knownStats));
+  };
 
-    setGames((g) => [entry, ...g]);
-    setSelectedPlayer(p);
+  const exportSeasonCsv = () => {
+    if (!season.games) return;
+    downloadCsv("season", seasonCsv(selectedName, season));
+  };
+
+  const gamePlayerName = (g: GameEntry) => (g.playerId && playerById.get(g.playerId)?.name) || g.playerName;
 
-    resetLive();
+  const restoreBackup = (next: LocalData, restored: AppSettings | null) => {
+    // Backups from before the roster carry no playerId; link them like a first load does
+    const linked = linkGamesToRoster(next.games, next.players);
+    setGames(linked.games);
+    setPlayers(linked.players);
+    setSeasons(next.seasons);
+    if (restored) setSettings(restored);
   };
 
+  // Deletes are soft: the game moves to Trash and a toast offers Undo for a few seconds
   const deleteGame = (id: string) => {
-    setGames((g) => g.filter((x) => x.id !== id));
+    const g = games.find((x) => x.id === id);
+    if (!g) return;
+    setGames((gs) => gs.map((x) => (x.id === id ? trashGame(x) : x)));
+    if (editingId === id) setEditingId(null);
+    if (sharingId === id) setSharingId(null);
+
+    const who = (g.playerId && playerById.get(g.playerId)?.name) || g.playerName;
+    setDeletedToast({ id, label: `${who} • ${g.date}` });
+    if (toastTimeoutRef.current) window.clearTimeout(toastTimeoutRef.current);
+    toastTimeoutRef.current = window.setTimeout(() => setDeletedToast(null), 6000);
+  };
+
+  const restoreFromTrash = (id: string) => {
+    setGames((gs) => gs.map((x) => (x.id === id ? restoreGame(x) : x)));
+  };
+
+  const undoDelete = () => {
+    if (!deletedToast) return;
+    restoreFromTrash(deletedToast.id);
+    setDeletedToast(null);
+  };
+
+  const purgeGame = (id: string) => {
+    setGames((gs) => gs.filter((x) => x.id !== id));
+  };
+
+  const emptyTrash = () => {
+    setGames((gs) => gs.filter((x) => !isTrashed(x)));
   };
 
   return (
@@ -396,264 +1438,1092 @@ export default function GameTracker() {
         <div>
           <div className="kicker">PREPARE FOR TAKEOFF</div>
           <h1 className="title">Fly Stat Tracker</h1>
-          <div className="subtitle">Tap to track live. Save when the game ends. One player at a time.</div>
+          <div className="subtitle">
+            Tap to track live. Save when the game ends. One player at a time, or the whole roster.
+          </div>
         </div>
 
         <div className="topActions">
         <button
   className="ghostBtn"
-  onClick={() => setVibOn((v) => !v)}
+  onClick={() => setSettings((s) => ({ ...s, vibration: !s.vibration }))}
   type="button"
 >
   Vib: {vibOn ? "On" : "Off"}
 </button>
 
-          <button className="ghostBtn" onClick={confirmUndo} type="button" disabled={!history.length}>
-            Undo
-          </button>
-          <button className="ghostBtn" onClick={confirmReset} type="button">
-            Reset
+          {readOnly ? null : (
+            <>
+            <button
+              className="ghostBtn"
+              onClick={() => setView((v) => (v === "roster" ? "tracker" : "roster"))}
+              type="button"
+            >
+              {view === "roster" ? "Tracker" : "Roster"}
+            </button>
+            <button
+              className="ghostBtn"
+              onClick={() => setView((v) => (v === "seasons" ? "tracker" : "seasons"))}
+              type="button"
+            >
+              {view === "seasons" ? "Tracker" : "Seasons"}
+            </button>
+            <button
+              className="ghostBtn"
+              onClick={() => setView((v) => (v === "stats" ? "tracker" : "stats"))}
+              type="button"
+            >
+              {view === "stats" ? "Tracker" : "Stats"}
+            </button>
+            <button
+              className="ghostBtn"
+              onClick={() => setView((v) => (v === "backup" ? "tracker" : "backup"))}
+              type="button"
+            >
+              {view === "backup" ? "Tracker" : "Backup"}
+            </button>
+            </>
+          )}
+          <button
+            className="ghostBtn"
+            onClick={() => setView((v) => (v === "sync" ? "tracker" : "sync"))}
+            type="button"
+          >
+            {view === "sync" ? "Tracker" : "Sync"}
           </button>
+
+          {readOnly ? null : (
+            <>
+            <button
+              className="ghostBtn"
+              onClick={undo}
+              type="button"
+              disabled={!nextUndo}
+              title={nextUndo ? `Undo ${describeAction(nextUndo.action)}` : "Nothing to undo"}
+            >
+              Undo
+            </button>
+            <button
+              className="ghostBtn"
+              onClick={redo}
+              type="button"
+              disabled={!nextRedo}
+              title={nextRedo ? `Redo ${describeAction(nextRedo.action)}` : "Nothing to redo"}
+            >
+              Redo
+            </button>
+            <button
+              className="ghostBtn"
+              onClick={() => setShowHistory((v) => !v)}
+              type="button"
+              disabled={!steps.steps.length}
+            >
+              History
+            </button>
+            <button className="ghostBtn" onClick={confirmReset} type="button">
+              Reset
+            </button>
+            </>
+          )}
         </div>
       </div>
 
-      <div className="grid">
-        {/* LEFT: Live game tracker */}
-        <div className="card">
+      {storageProblems.length ? (
+        <div className="storageAlert" role="alert">
+          <div>
+            <div className="storageAlertTitle">Storage needs attention</div>
+            {storageProblems.map((p, i) => (
+              <div key={i} className="storageAlertMsg">
+                {p.message}
+              </div>
+            ))}
+          </div>
+          <button className="miniBtn" onClick={() => setStorageProblems([])} type="button">
+            Dismiss
+          </button>
+        </div>
+      ) : null}
+
+      {showHistory && steps.steps.length ? (
+        <div className="card historyCard">
           <div className="cardHeader">
             <div>
-              <div className="cardTitle">Live Game Tracker</div>
-              <div className="cardHint">Big buttons • fast taps • phone-friendly</div>
+              <div className="cardTitle">History</div>
+              <div className="cardHint">Tap a point to go back (or forward) to it</div>
             </div>
-            <button className="primaryBtn" onClick={saveGame} type="button">
-              Save
+            <button className="miniBtn" onClick={() => setShowHistory(false)} type="button">
+              Close
             </button>
           </div>
-
-          <div className="formGrid">
-            <div className="field">
-              <div className="label">DATE</div>
-              <input className="input" value={date} onChange={(e) => setDate(e.target.value)} type="date" />
+          <div className="historyList">
+            {steps.steps
+              .map((step, i) => (
+                <button
+                  key={i}
+                  className={
+                    "historyRow " +
+                    (i + 1 === steps.position ? "historyRowNow " : "") +
+                    (i + 1 > steps.position ? "historyRowUndone" : "")
+                  }
+                  onClick={() => jumpToStep(i + 1)}
+                  type="button"
+                >
+                  <span className="historyTime">{formatClock(step.at)}</span>
+                  <span>{describeAction(step.action)}</span>
+                  {i + 1 === steps.position ? <span className="historyNow">NOW</span> : null}
+                </button>
+              ))
+              .reverse()}
+            <button
+              className={"historyRow " + (steps.position === 0 ? "historyRowNow" : "")}
+              onClick={() => jumpToStep(0)}
+              type="button"
+            >
+              <span className="historyTime" />
+              <span>Start of game</span>
+              {steps.position === 0 ? <span className="historyNow">NOW</span> : null}
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {view === "backup" ? (
+        <BackupPanel
+          data={{ games, players, seasons }}
+          settings={settings}
+          playerName={gamePlayerName}
+          onRestore={restoreBackup}
+          onClose={() => setView("tracker")}
+        />
+      ) : view === "sync" ? (
+        <SyncPanel
+          sync={sync}
+          syncing={syncing}
+          online={online}
+          onToggle={toggleSync}
+          onSyncNow={() => void runSync()}
+          onTeam={changeTeam}
+          onClose={() => setView("tracker")}
+        />
+      ) : view === "stats" ? (
+        <StatSetup
+          stats={customStats}
+          onChange={(next) => setSettings((s) => ({ ...s, customStats: next }))}
+          onClose={() => setView("tracker")}
+        />
+      ) : view === "seasons" ? (
+        <SeasonManager
+          seasons={seasons}
+          gameCounts={seasonGameCounts}
+          currentId={currentSeason(seasons, todayISO())?.id ?? null}
+          defaultTeam={team.trim()}
+          onAdd={addSeason}
+          onUpdate={updateSeason}
+          onRemove={removeSeason}
+          onClose={() => setView("tracker")}
+        />
+      ) : view === "roster" ? (
+        <RosterManager
+          players={players}
+          gameCounts={gameCounts}
+          defaultTeam={team.trim()}
+          onAdd={addRosterPlayer}
+          onUpdate={updatePlayer}
+          onMerge={mergePlayer}
+          onClose={() => setView("tracker")}
+        />
+      ) : (
+        <div className="grid">
+          {/* LEFT: Live game tracker (a team viewer follows along instead) */}
+          {readOnly ? (
+            <div className="card">
+              <div className="cardHeader">
+                <div>
+                  <div className="cardTitle">{sync?.team?.teamName}</div>
+                  <div className="cardHint">Following as a viewer</div>
+                </div>
+              </div>
+              <div className="microHint">
+                Games and the roster update from the team as they sync. You can open any player&apos;s log, plays and
+                shots; to track games, ask a team owner for a statistician code.
+              </div>
             </div>
+          ) : (
+            <div className={`card ${pendingDraft ? "trackerWaiting" : ""}`}>
+              <div className="cardHeader">
+                <div>
+                  <div className="cardTitle">Live Game Tracker</div>
+                  <div className="cardHint">Big buttons • fast taps • phone-friendly</div>
+                </div>
+                <button className="primaryBtn" onClick={saveGame} type="button">
+                  Save
+                </button>
+              </div>
 
-            <div className="field">
-              <div className="label">TEAM</div>
-              <input className="input" value={team} onChange={(e) => setTeam(e.target.value)} placeholder="Fly Academy" />
-            </div>
+              {pendingDraft ? (
+                <div className="resumeBox">
+                  <div>
+                    <div className="resumeTitle">Resume game in progress?</div>
+                    <div className="resumeMeta">
+                      {pendingDraft.trackMode === "roster"
+                        ? `${pendingDraft.lineup.length} players`
+                        : playerById.get(pendingDraft.playerId)?.name || pendingDraft.legacyPlayerName || "No player picked"}
+                      {pendingDraft.opponent.trim() ? ` vs ${pendingDraft.opponent.trim()}` : ""} •{" "}
+                      {pendingDraft.events.length} taps •
+                      saved {new Date(pendingDraft.savedAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}
+                    </div>
+                    <div className="resumeMeta">Resume or discard it before tracking a new game.</div>
+                  </div>
+                  <div className="resumeActions">
+                    <button className="primaryBtn" onClick={resumeDraft} type="button">
+                      Resume
+                    </button>
+                    <button className="ghostBtn" onClick={discardDraft} type="button">
+                      Discard
+                    </button>
+                  </div>
+                </div>
+              ) : null}
+
+              {pendingDraft ? null : liveShare ? (
+                <div className="liveBox">
+                  <div className="liveHead">
+                    <span className="liveBadge">LIVE</span>
+                    <a className="liveLink" href={liveUrl} target="_blank" rel="noreferrer">
+                      {liveUrl}
+                    </a>
+                  </div>
+                  <div className="liveActions">
+                    <button className="miniBtn" onClick={shareLiveLink} type="button">
+                      Share link
+                    </button>
+                    <button className="miniBtn" onClick={stopLive} type="button">
+                      Stop
+                    </button>
+                  </div>
+                  <div className="microHint">
+                    {liveProblem ||
+                      liveNote ||
+                      "Anyone with the link sees the stats and play-by-play as you tap. Saving the game marks it final."}
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <button className="miniBtn liveStart" onClick={goLive} type="button">
+                    Go live (spectator link)
+                  </button>
+                  {liveFinal ? (
+                    <div className="microHint">
+                      The last game&apos;s final score reaches spectators once you&apos;re back online.
+                    </div>
+                  ) : liveProblem ? (
+                    <div className="microHint">{liveProblem}</div>
+                  ) : null}
+                </>
+              )}
 
-            <div className="field">
-              <div className="label">
-                PLAYER NAME <span className="req">*</span>
+              <div className="formGrid">
+                <div className="field">
+                  <div className="label">DATE</div>
+                  <input className="input" value={date} onChange={(e) => editForm(() => setDate(e.target.value))} type="date" />
+                </div>
+
+                <div className="field">
+                  <div className="label">TEAM</div>
+                  <input className="input" value={team} onChange={(e) => editForm(() => setTeam(e.target.value))} placeholder="Fly Academy" />
+                </div>
+
+                <div className="field">
+                  <div className="label">TRACKING</div>
+                  <select
+                    className="select"
+                    value={trackMode}
+                    onChange={(e) => {
+                      const mode = e.target.value as TrackMode;
+                      editForm(() => {
+                        setTrackMode(mode);
+                        setClock(newClock(mode === "roster" ? lineup : [SOLO_KEY]));
+                      });
+                    }}
+                    disabled={events.length > 0}
+                  >
+                    <option value="single">One player</option>
+                    <option value="roster">Full roster</option>
+                  </select>
+                </div>
+
+                {trackMode === "single" ? (
+                  <div className="field">
+                    <div className="label">
+                      PLAYER <span className="req">*</span>
+                    </div>
+                    <select className="select" value={playerId} onChange={(e) => editForm(() => setPlayerId(e.target.value))}>
+                      <option value="">{rosterPlayers.length ? "Choose player…" : "Add a player below"}</option>
+                      {rosterPlayers.map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {playerLabel(p)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ) : null}
+
+                <div className="field">
+                  <div className="label">OPPONENT</div>
+                  <input
+                    className="input"
+                    value={opponent}
+                    onChange={(e) => editForm(() => setOpponent(e.target.value))}
+                    placeholder="e.g., Tigard"
+                  />
+                </div>
+
+                <div className="field">
+                  <div className="label">SEASON</div>
+                  <select className="select" value={liveSeasonId} onChange={(e) => editForm(() => setSeasonChoice(e.target.value))}>
+                    <option value="">{seasons.length ? "No season" : "No seasons yet"}</option>
+                    {sortedSeasons.map((s) => (
+                      <option key={s.id} value={s.id}>
+                        {s.name}
+                        {s.id === defaultSeason?.id ? " (current)" : ""}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="field">
+                  <div className="label">PERIODS</div>
+                  <select
+                    className="select"
+                    value={periodFormat}
+                    onChange={(e) => editForm(() => setPeriodFormat(e.target.value as PeriodFormat))}
+                    disabled={events.length > 0}
+                  >
+                    <option value="quarters">4 Quarters</option>
+                    <option value="halves">2 Halves</option>
+                  </select>
+                </div>
               </div>
-              <input
-                className="input"
-                value={playerName}
-                onChange={(e) => setPlayerName(e.target.value)}
-                placeholder="e.g., Jordan"
-              />
-            </div>
 
-            <div className="field">
-              <div className="label">OPPONENT</div>
-              <input
-                className="input"
-                value={opponent}
-                onChange={(e) => setOpponent(e.target.value)}
-                placeholder="e.g., Tigard"
-              />
-            </div>
-          </div>
+              <div className="rosterBar">
+                {trackMode === "roster" ? (
+                  <>
+                    <div className="label">ON THE FLOOR</div>
+                    {lineup.length === 0 ? (
+                      <div className="microHint">Add players below, then tap a jersey to make them active.</div>
+                    ) : (
+                      <div className="jerseyChips">
+                        {lineup.map((id) => {
+                          const p = playerById.get(id);
+                          if (!p) return null;
+                          const pts = countsFromEvents(events.filter((e) => e.playerKey === id));
+                          return (
+                            <button
+                              key={id}
+                              className={
+                                "jerseyChip " +
+                                (id === activeKey ? "jerseyChipActive " : "") +
+                                (clock.onCourt.includes(id) ? "" : "jerseyChipBench")
+                              }
+                              onClick={() => setActiveKey(id)}
+                              type="button"
+                            >
+                              <span className="jerseyNum">#{p.jersey || "–"}</span>
+                              <span className="jerseyName">{p.name}</span>
+                              <span className="jerseyPts">{points(pts)}</span>
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <div className="label">NEW PLAYER</div>
+                )}
+                <div className="rosterAdd">
+                  {trackMode === "roster" ? (
+                    <select className="select" value="" onChange={(e) => putOnFloor(e.target.value)}>
+                      <option value="">Add from roster…</option>
+                      {rosterPlayers
+                        .filter((p) => !lineup.includes(p.id))
+                        .map((p) => (
+                          <option key={p.id} value={p.id}>
+                            {playerLabel(p)}
+                          </option>
+                        ))}
+                    </select>
+                  ) : null}
+                  <input
+                    className="input jerseyInput"
+                    value={newJersey}
+                    onChange={(e) => setNewJersey(e.target.value)}
+                    placeholder="#"
+                    inputMode="numeric"
+                  />
+                  <input
+                    className="input"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") addNewPlayer();
+                    }}
+                    placeholder="New player name"
+                  />
+                  <button className="miniBtn" onClick={addNewPlayer} type="button">
+                    Add
+                  </button>
+                  {trackMode === "roster" && activePlayer ? (
+                    <button className="miniBtn" onClick={() => removeFromLineup(activePlayer.id)} type="button">
+                      Remove #{activePlayer.jersey || activePlayer.name}
+                    </button>
+                  ) : null}
+                </div>
+              </div>
 
-          {/* STAT TILES — TWO HORIZONTAL ROWS (7 across) */}
-          <div className="statTilesWrap">
-            <div className="statTilesRow">
-              <StatChip label="PTS" value={scoring.pts} />
-              <StatChip label="FG" value={`${scoring.fgm}-${scoring.fga}`} />
-              <StatChip label="FG%" value={formatPct(scoring.fgPct)} />
-              <StatChip label="3P FG" value={`${scoring.tpm}-${scoring.tpa}`} />
-              <StatChip label="3P FG%" value={formatPct(scoring.tpPct)} />
-              <StatChip label="FT" value={`${scoring.ftm}-${scoring.fta}`} />
-              <StatChip label="FT%" value={formatPct(scoring.ftPct)} />
-            </div>
+              <div className="periodBar">
+                <div className="label">PERIOD</div>
+                <div className="periodChips">
+                  {periodChoices.map((n) => (
+                    <button
+                      key={n}
+                      className={"periodChip " + (n === period ? "periodChipActive" : "")}
+                      onClick={() => goToPeriod(n)}
+                      type="button"
+                    >
+                      {periodLabel(periodFormat, n)}
+                    </button>
+                  ))}
+                  <button
+                    className="periodChip"
+                    onClick={() => goToPeriod(periodChoices.length + 1)}
+                    type="button"
+                  >
+                    +OT
+                  </button>
+                </div>
+              </div>
 
-            <div className="statTilesRow statTilesRow2">
-              <StatChip label="O REBS" value={counts.orb} />
-              <StatChip label="D REBS" value={counts.drb} />
-              <StatChip label="TTL REBS" value={ttlRebs} />
-              <StatChip label="AST" value={counts.ast} />
-              <StatChip label="TO" value={counts.to} />
-              <StatChip label="STLS" value={counts.stl} />
-              <StatChip label="FOULS" value={counts.pf} />
-            </div>
-          </div>
+              <div className="clockBar">
+                <div className={"clockTime " + (clockRunning ? "clockTimeRunning" : "")}>
+                  {formatGameClock(periodMs - clockElapsed(clock, periodMs, now))}
+                </div>
+                <button className={clockRunning ? "miniBtn" : "primaryBtn"} onClick={toggleClock} type="button">
+                  {clockRunning ? "Stop" : "Start"}
+                </button>
+                <label className="clockLength">
+                  <input
+                    className="input"
+                    type="number"
+                    min={1}
+                    max={60}
+                    inputMode="numeric"
+                    value={settings.periodMinutes}
+                    onChange={(e) => setClockMinutes("periodMinutes", e.target.value)}
+                    aria-label="Minutes per period"
+                  />
+                  min {periodFormat === "halves" ? "halves" : "quarters"}
+                </label>
+                <label className="clockLength">
+                  <input
+                    className="input"
+                    type="number"
+                    min={1}
+                    max={60}
+                    inputMode="numeric"
+                    value={settings.overtimeMinutes}
+                    onChange={(e) => setClockMinutes("overtimeMinutes", e.target.value)}
+                    aria-label="Minutes per overtime"
+                  />
+                  min OT
+                </label>
+                {clockKey ? (
+                  <div className="subBox">
+                    <span className="subMins">
+                      {clock.onCourt.includes(clockKey) ? "IN" : "OUT"} •{" "}
+                      {formatGameClock(playedMs(clock, clockKey, periodMs, now))} MIN
+                    </span>
+                    <button className="miniBtn" onClick={toggleSub} type="button">
+                      {clock.onCourt.includes(clockKey) ? "Sub out" : "Sub in"}
+                    </button>
+                  </div>
+                ) : null}
+              </div>
 
-          <div className="sectionLabel">SCORING</div>
-          <div className="btnGrid2">
-            <TapButton id="made2" activeId={lastTapId} tone="good" title="+2" sub="Made 2PT" onTap={() => inc("made2", "made2")} />
-            <TapButton id="miss2" activeId={lastTapId} tone="bad" title="2 Miss" sub="Missed 2PT" onTap={() => inc("miss2", "miss2")} />
-            <TapButton id="made3" activeId={lastTapId} tone="good" title="+3" sub="Made 3PT" onTap={() => inc("made3", "made3")} />
-            <TapButton id="miss3" activeId={lastTapId} tone="bad" title="3 Miss" sub="Missed 3PT" onTap={() => inc("miss3", "miss3")} />
-            <TapButton id="madeFT" activeId={lastTapId} tone="good" title="+FT" sub="Made FT" onTap={() => inc("madeFT", "madeFT")} />
-            <TapButton id="missFT" activeId={lastTapId} tone="bad" title="FT Miss" sub="Missed FT" onTap={() => inc("missFT", "missFT")} />
-          </div>
+              <div className="scoreBoard">
+                {(["team", "opponent"] as ScoreSide[]).map((side) => (
+                  <div key={side} className="scoreSide">
+                    <div className="scoreTop">
+                      <div className="scoreName">
+                        {side === "team" ? team.trim() || "Fly Academy" : opponent.trim() || "Opponent"}
+                      </div>
+                      <div className="scoreValue">{liveScore[side]}</div>
+                    </div>
+                    <div className="scoreBtns">
+                      {[1, 2, 3].map((pts) => (
+                        <button
+                          key={pts}
+                          className={"miniBtn " + (lastTapId === `score-${side}-${pts}` ? "scoreBtnTapped" : "")}
+                          onClick={() => addScore(side, pts)}
+                          type="button"
+                        >
+                          +{pts}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="microHint">
+                Team score includes points tapped for tracked players; use +1/+2/+3 for everyone else.
+              </div>
 
-          <div className="sectionLabel" style={{ marginTop: 14 }}>
-            HUSTLE + OTHER
-          </div>
-          <div className="btnGrid3">
-            <TapButton id="orb" activeId={lastTapId} tone="neutral" title="ORB" sub="Off. Rebound" onTap={() => inc("orb", "orb")} />
-            <TapButton id="drb" activeId={lastTapId} tone="neutral" title="DRB" sub="Def. Rebound" onTap={() => inc("drb", "drb")} />
-            <TapButton id="ast" activeId={lastTapId} tone="neutral" title="AST" sub="Assist" onTap={() => inc("ast", "ast")} />
-            <TapButton id="to" activeId={lastTapId} tone="neutral" title="TO" sub="Turnover" onTap={() => inc("to", "to")} />
-            <TapButton id="stl" activeId={lastTapId} tone="neutral" title="STL" sub="Steal" onTap={() => inc("stl", "stl")} />
-            <TapButton id="pf" activeId={lastTapId} tone="neutral" title="FOUL" sub="Personal" onTap={() => inc("pf", "pf")} />
-          </div>
+              <div className="sectionRow">
+                <div className="sectionLabel">{correcting ? "CORRECTING" : "BOX SCORE"}</div>
+                <button
+                  className={correcting ? "primaryBtn" : "miniBtn"}
+                  onClick={() => {
+                    setCorrecting((v) => !v);
+                    setCorrectFocus(null);
+                  }}
+                  type="button"
+                >
+                  {correcting ? "Done" : "Correct stats"}
+                </button>
+              </div>
 
-          <div className="field" style={{ marginTop: 16 }}>
-            <div className="label">NOTES</div>
-            <textarea
-              className="textarea"
-              value={notes}
-              onChange={(e) => setNotes(e.target.value)}
-              placeholder="Optional notes…"
-              rows={3}
-            />
-          </div>
+              {correcting ? (
+                <>
+                  <div className="microHint">
+                    Fix any count with −/+
+                    {trackMode === "roster" && activePlayer ? ` for ${playerLabel(activePlayer)}` : ""}. Fixes are logged
+                    in the play-by-play and can be undone. Tip: long-press a stat button to jump here.
+                  </div>
+                  <div className="stepGrid" ref={stepGridRef}>
+                    {COUNT_KEYS.map((k) => (
+                      <StepperChip
+                        key={k}
+                        label={statLabel(k, customStats)}
+                        value={counts[k]}
+                        focused={correctFocus === k}
+                        onStep={(d) => correct(k, d)}
+                      />
+                    ))}
+                    {customStats.map((d) => (
+                      <StepperChip
+                        key={d.key}
+                        label={d.short || d.label}
+                        value={liveCustom[d.key] ?? 0}
+                        focused={correctFocus === d.key}
+                        onStep={(delta) => correct(d.key, delta)}
+                      />
+                    ))}
+                  </div>
+                </>
+              ) : null}
 
-          <div className="microHint">
-            Tip: Big buttons flash on tap. Vibration can be toggled (top right).
-          </div>
-        </div>
+              {/* STAT TILES — TWO HORIZONTAL ROWS (7 across) */}
+              <div className="statTilesWrap">
+                <StatTiles counts={counts} custom={liveCustom} stats={customStats} />
+                <AdvancedRow stats={liveAdvanced} />
+              </div>
 
-        {/* RIGHT: Player log */}
-        <div className="card">
-          <div className="cardHeader">
-            <div>
-              <div className="cardTitle">Player Log</div>
-              <div className="cardHint">{season.games} games</div>
-            </div>
-          </div>
+              <div className="sectionRow">
+                <div className="sectionLabel">SCORING</div>
+                <button
+                  className="miniBtn"
+                  onClick={() => {
+                    setShowCourt((v) => !v);
+                    setPendingShot(null);
+                  }}
+                  type="button"
+                >
+                  {showCourt ? "Hide shot chart" : "Shot chart"}
+                </button>
+              </div>
+              {showCourt ? (
+                <>
+                  <ShotChart shots={liveShots} pending={pendingShot?.loc} onTap={tapCourt} />
+                  {pendingShot ? (
+                    <div className="shotPrompt">
+                      <button
+                        className="miniBtn"
+                        onClick={() => setPendingShot((p) => (p ? { ...p, three: !p.three } : p))}
+                        type="button"
+                        title="Switch if the arc guess is wrong"
+                      >
+                        {pendingShot.three ? "3PT" : "2PT"} ⇄
+                      </button>
+                      <button className="primaryBtn shotMadeBtn" onClick={() => recordShot(true)} type="button">
+                        Made
+                      </button>
+                      <button className="primaryBtn shotMissBtn" onClick={() => recordShot(false)} type="button">
+                        Missed
+                      </button>
+                      <button className="miniBtn" onClick={() => setPendingShot(null)} type="button">
+                        Cancel
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="microHint">Tap where the shot was taken. The buttons below still work for quick taps.</div>
+                  )}
+                </>
+              ) : null}
+              <div className="btnGrid2">
+                <TapButton id="made2" activeId={lastTapId} tone="good" title="+2" sub="Made 2PT" onLongPress={startCorrecting} onTap={() => inc("made2", "made2")} />
+                <TapButton id="miss2" activeId={lastTapId} tone="bad" title="2 Miss" sub="Missed 2PT" onLongPress={startCorrecting} onTap={() => inc("miss2", "miss2")} />
+                <TapButton id="made3" activeId={lastTapId} tone="good" title="+3" sub="Made 3PT" onLongPress={startCorrecting} onTap={() => inc("made3", "made3")} />
+                <TapButton id="miss3" activeId={lastTapId} tone="bad" title="3 Miss" sub="Missed 3PT" onLongPress={startCorrecting} onTap={() => inc("miss3", "miss3")} />
+                <TapButton id="madeFT" activeId={lastTapId} tone="good" title="+FT" sub="Made FT" onLongPress={startCorrecting} onTap={() => inc("madeFT", "madeFT")} />
+                <TapButton id="missFT" activeId={lastTapId} tone="bad" title="FT Miss" sub="Missed FT" onLongPress={startCorrecting} onTap={() => inc("missFT", "missFT")} />
+                {customTapButtons("scoring")}
+              </div>
 
-          <div className="field" style={{ marginTop: 6 }}>
-            <div className="label">SELECT PLAYER</div>
-            <select className="select" value={selectedPlayer} onChange={(e) => setSelectedPlayer(e.target.value)}>
-              {playerNames.length === 0 ? (
-                <option value="">No players yet</option>
-              ) : (
-                playerNames.map((n) => (
-                  <option key={n} value={n}>
-                    {n}
-                  </option>
-                ))
-              )}
-            </select>
-          </div>
+              <div className="sectionLabel" style={{ marginTop: 14 }}>
+                HUSTLE + OTHER
+              </div>
+              <div className="btnGrid3">
+                <TapButton id="orb" activeId={lastTapId} tone="neutral" title="ORB" sub="Off. Rebound" onLongPress={startCorrecting} onTap={() => inc("orb", "orb")} />
+                <TapButton id="drb" activeId={lastTapId} tone="neutral" title="DRB" sub="Def. Rebound" onLongPress={startCorrecting} onTap={() => inc("drb", "drb")} />
+                <TapButton id="ast" activeId={lastTapId} tone="neutral" title="AST" sub="Assist" onLongPress={startCorrecting} onTap={() => inc("ast", "ast")} />
+                <TapButton id="to" activeId={lastTapId} tone="neutral" title="TO" sub="Turnover" onLongPress={startCorrecting} onTap={() => inc("to", "to")} />
+                <TapButton id="stl" activeId={lastTapId} tone="neutral" title="STL" sub="Steal" onLongPress={startCorrecting} onTap={() => inc("stl", "stl")} />
+                <TapButton id="pf" activeId={lastTapId} tone="neutral" title="FOUL" sub="Personal" onLongPress={startCorrecting} onTap={() => inc("pf", "pf")} />
+                <TapButton id="blk" activeId={lastTapId} tone="neutral" title="BLK" sub="Block" onLongPress={startCorrecting} onTap={() => inc("blk", "blk")} />
+                {customTapButtons("hustle")}
+              </div>
 
-          <div className="sectionHeader">Season-to-date</div>
+              <div className="field" style={{ marginTop: 16 }}>
+                <div className="label">NOTES</div>
+                <textarea
+                  className="textarea"
+                  value={notes}
+                  onChange={(e) => editForm(() => setNotes(e.target.value))}
+                  placeholder="Optional notes…"
+                  rows={3}
+                />
+              </div>
 
-          <div className="seasonGrid">
-            <div className="seasonChip">
-              <div className="seasonLabel">PPG</div>
-              <div className="seasonValue">{season.ppg.toFixed(1)}</div>
-            </div>
-            <div className="seasonChip">
-              <div className="seasonLabel">RPG</div>
-              <div className="seasonValue">{season.rpg.toFixed(1)}</div>
-            </div>
-            <div className="seasonChip">
-              <div className="seasonLabel">APG</div>
-              <div className="seasonValue">{season.apg.toFixed(1)}</div>
-            </div>
-            <div className="seasonChip">
-              <div className="seasonLabel">FG%</div>
-              <div className="seasonValue">{formatPct(season.fgPct)}</div>
+              <div className="microHint">
+                Tip: Big buttons flash on tap. Vibration can be toggled (top right).
+              </div>
             </div>
+          )}
 
-            <div className="seasonChip">
-              <div className="seasonLabel">3P%</div>
-              <div className="seasonValue">{formatPct(season.tpPct)}</div>
-            </div>
-            <div className="seasonChip">
-              <div className="seasonLabel">FT%</div>
-              <div className="seasonValue">{formatPct(season.ftPct)}</div>
-            </div>
-            <div className="seasonChip">
-              <div className="seasonLabel">ORB/G</div>
-              <div className="seasonValue">{season.orbg.toFixed(1)}</div>
-            </div>
-            <div className="seasonChip">
-              <div className="seasonLabel">DRB/G</div>
-              <div className="seasonValue">{season.drbg.toFixed(1)}</div>
+          {/* RIGHT: Player log */}
+          <div className="card">
+            <div className="cardHeader">
+              <div>
+                <div className="cardTitle">Player Log</div>
+                <div className="cardHint">{showTrash ? "Trash" : `${season.games} games`}</div>
+              </div>
+              {readOnly ? null : (
+                <button className="miniBtn" onClick={() => setShowTrash((v) => !v)} type="button">
+                  {showTrash ? "Back to log" : `Trash (${trashedGames.length})`}
+                </button>
+              )}
             </div>
-          </div>
-
-          <div className="microHint" style={{ marginTop: 10 }}>
-            Tip: Save each game. This panel updates averages automatically.
-          </div>
 
-          <div className="sectionHeader" style={{ marginTop: 16 }}>
-            Games
-          </div>
-
-          {gamesForSelected.length === 0 ? (
-            <div className="emptyBox">No games saved for this player yet.</div>
-          ) : (
-            <div className="gamesList">
-              {gamesForSelected.map((g) => {
-                const fgm = g.counts.made2 + g.counts.made3;
-                const fga = g.counts.made2 + g.counts.miss2 + g.counts.made3 + g.counts.miss3;
-                const tpm = g.counts.made3;
-                const tpa = g.counts.made3 + g.counts.miss3;
-                const ftm = g.counts.madeFT;
-                const fta = g.counts.madeFT + g.counts.missFT;
-                const pts = g.counts.made2 * 2 + g.counts.made3 * 3 + g.counts.madeFT;
-
-                return (
-                  <div key={g.id} className="gameCard">
-                    <div className="gameTop">
-                      <div className="gameTitle">
-                        {g.playerName} • {g.date}
+            {showTrash ? (
+              <TrashPanel
+                games={trashedGames}
+                playerName={(g) => (g.playerId && playerById.get(g.playerId)?.name) || g.playerName}
+                onRestore={restoreFromTrash}
+                onPurge={purgeGame}
+                onEmpty={emptyTrash}
+              />
+            ) : (
+              <>
+                <div className="field" style={{ marginTop: 6 }}>
+                  <div className="label">SELECT PLAYER</div>
+                  <select className="select" value={selectedPlayer} onChange={(e) => setSelectedPlayer(e.target.value)}>
+                    {players.length === 0 ? (
+                      <option value="">No players yet</option>
+                    ) : (
+                      <>
+                        {rosterPlayers.map((p) => (
+                          <option key={p.id} value={p.id}>
+                            {playerLabel(p)}
+                          </option>
+                        ))}
+                        {archivedPlayers.length ? (
+                          <optgroup label="Archived">
+                            {archivedPlayers.map((p) => (
+                              <option key={p.id} value={p.id}>
+                                {playerLabel(p)}
+                              </option>
+                            ))}
+                          </optgroup>
+                        ) : null}
+                      </>
+                    )}
+                  </select>
+                </div>
+
+                <div className="logFilters">
+                  <div className="field">
+                    <div className="label">SEASON</div>
+                    <select className="select" value={logRange} onChange={(e) => setLogRange(e.target.value)}>
+                      <option value="">All games</option>
+                      {sortedSeasons.map((s) => (
+                        <option key={s.id} value={s.id}>
+                          {s.name}
+                        </option>
+                      ))}
+                      <option value="custom">Custom dates…</option>
+                    </select>
+                  </div>
+                  {logRange === "custom" ? (
+                    <>
+                      <div className="field">
+                        <div className="label">FROM</div>
+                        <input
+                          className="input"
+                          type="date"
+                          value={rangeFrom}
+                          onChange={(e) => setRangeFrom(e.target.value)}
+                        />
                       </div>
-                      <button className="miniBtn" onClick={() => deleteGame(g.id)} type="button">
-                        Delete
-                      </button>
-                    </div>
-                    <div className="gameMeta">
-                      {g.opponent ? `vs ${g.opponent} • ` : ""}
-                      PTS {pts} • FG {fgm}-{fga} • 3P {tpm}-{tpa} • FT {ftm}-{fta}
+                      <div className="field">
+                        <div className="label">TO</div>
+                        <input className="input" type="date" value={rangeTo} onChange={(e) => setRangeTo(e.target.value)} />
+                      </div>
+                    </>
+                  ) : null}
+                </div>
+
+                <div className="field" style={{ marginTop: 10 }}>
+                  <div className="label">RESULT</div>
+                  <select
+                    className="select"
+                    value={resultFilter}
+                    onChange={(e) => setResultFilter(e.target.value as GameResult | "")}
+                  >
+                    <option value="">All games</option>
+                    <option value="W">Wins</option>
+                    <option value="L">Losses</option>
+                    <option value="T">Ties</option>
+                  </select>
+                </div>
+
+                <div className="sectionHeader">
+                  {logSeason
+                    ? `${logSeason.name} (${logSeason.startDate} – ${logSeason.endDate})`
+                    : logRange === "custom"
+                      ? `${rangeFrom || "Start"} – ${rangeTo || "today"}`
+                      : "All games"}
+                </div>
+
+                <div className="seasonGrid">
+                  <div className="seasonChip">
+                    <div className="seasonLabel">RECORD</div>
+                    <div className="seasonValue">{formatRecord(record)}</div>
+                  </div>
+                  {pointsShare !== null ? (
+                    <div className="seasonChip" title="Share of team points in games with a saved score">
+                      <div className="seasonLabel">% TEAM PTS</div>
+                      <div className="seasonValue">{formatPct(pointsShare)}</div>
                     </div>
-
-                    <div className="miniGrid">
-                      <div className="miniChip">
-                        <div className="miniLabel">REB</div>
-                        <div className="miniValue">{g.counts.orb + g.counts.drb}</div>
+                  ) : null}
+                  <div className="seasonChip">
+                    <div className="seasonLabel">PPG</div>
+                    <div className="seasonValue">{season.ppg.toFixed(1)}</div>
+                  </div>
+                  <div className="seasonChip">
+                    <div className="seasonLabel">RPG</div>
+                    <div className="seasonValue">{season.rpg.toFixed(1)}</div>
+                  </div>
+                  <div className="seasonChip">
+                    <div className="seasonLabel">APG</div>
+                    <div className="seasonValue">{season.apg.toFixed(1)}</div>
+                  </div>
+                  {season.timedGames ? (
+                    <>
+                      <div className="seasonChip">
+                        <div className="seasonLabel">MPG</div>
+                        <div className="seasonValue">{season.mpg.toFixed(1)}</div>
                       </div>
-                      <div className="miniChip">
-                        <div className="miniLabel">AST</div>
-                        <div className="miniValue">{g.counts.ast}</div>
+                      <div className="seasonChip">
+                        <div className="seasonLabel">PTS/{season.perMinutes}</div>
+                        <div className="seasonValue">{season.ptsPer.toFixed(1)}</div>
                       </div>
-                      <div className="miniChip">
-                        <div className="miniLabel">STL</div>
-                        <div className="miniValue">{g.counts.stl}</div>
+                      <div className="seasonChip">
+                        <div className="seasonLabel">REB/{season.perMinutes}</div>
+                        <div className="seasonValue">{season.rebPer.toFixed(1)}</div>
                       </div>
-                      <div className="miniChip">
-                        <div className="miniLabel">FOUL</div>
-                        <div className="miniValue">{g.counts.pf}</div>
+                      <div className="seasonChip">
+                        <div className="seasonLabel">AST/{season.perMinutes}</div>
+                        <div className="seasonValue">{season.astPer.toFixed(1)}</div>
                       </div>
-                    </div>
+                    </>
+                  ) : null}
+                  <div className="seasonChip">
+                    <div className="seasonLabel">FG%</div>
+                    <div className="seasonValue">{formatPct(season.fgPct)}</div>
+                  </div>
 
-                    {g.notes ? <div className="gameNotes">{g.notes}</div> : null}
+                  <div className="seasonChip">
+                    <div className="seasonLabel">3P%</div>
+                    <div className="seasonValue">{formatPct(season.tpPct)}</div>
                   </div>
-                );
-              })}
-            </div>
-          )}
+                  <div className="seasonChip">
+                    <div className="seasonLabel">FT%</div>
+                    <div className="seasonValue">{formatPct(season.ftPct)}</div>
+                  </div>
+                  <div className="seasonChip">
+                    <div className="seasonLabel">ORB/G</div>
+                    <div className="seasonValue">{season.orbg.toFixed(1)}</div>
+                  </div>
+                  <div className="seasonChip">
+                    <div className="seasonLabel">DRB/G</div>
+                    <div className="seasonValue">{season.drbg.toFixed(1)}</div>
+                  </div>
+                  <div className="seasonChip">
+                    <div className="seasonLabel">BLK/G</div>
+                    <div className="seasonValue">{season.blkg.toFixed(1)}</div>
+                  </div>
+                  {season.custom.map((c) => (
+                    <div key={c.key} className="seasonChip">
+                      <div className="seasonLabel">{c.label.toUpperCase()}/G</div>
+                      <div className="seasonValue">{c.perGame.toFixed(1)}</div>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="sectionLabel">EFFICIENCY</div>
+                <div className="seasonGrid">
+                  {ADVANCED_METRICS.map((m) => (
+                    <div key={m.key} className="seasonChip" title={m.formula}>
+                      <div className="seasonLabel">
+                        {m.label}
+                        {m.key === "gameScore" ? "/G" : ""} <span className="advHelp">ⓘ</span>
+                      </div>
+                      <div className="seasonValue">{formatMetric(m, season.advanced[m.key])}</div>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="sectionRow">
+                  <div className="sectionLabel">TRENDS • {gamesForSelected.length} GAMES</div>
+                  <button className="miniBtn" onClick={() => setShowTrends((v) => !v)} type="button">
+                    {showTrends ? "Hide" : "Show"}
+                  </button>
+                </div>
+                {showTrends ? <TrendChart games={gamesForSelected} /> : null}
+
+                {seasonShots.length ? (
+                  <>
+                    <div className="sectionRow">
+                      <div className="sectionLabel">SHOT CHART • {seasonShots.length} SHOTS</div>
+                      <button className="miniBtn" onClick={() => setShowSeasonShots((v) => !v)} type="button">
+                        {showSeasonShots ? "Hide" : "Show"}
+                      </button>
+                    </div>
+                    {showSeasonShots ? (
+                      <>
+                        <ShotChart shots={seasonShots} />
+                        <ZoneTable shots={seasonShots} />
+                      </>
+                    ) : null}
+                  </>
+                ) : null}
+
+                <div className="microHint" style={{ marginTop: 10 }}>
+                  Tip: Save each game. This panel updates averages automatically.
+                  {season.timedGames ? (
+                    <>
+                      {" "}
+                      Rates are per{" "}
+                      <select
+                        className="perSelect"
+                        value={settings.perMinutes}
+                        onChange={(e) => setSettings((s) => ({ ...s, perMinutes: Number(e.target.value) === 32 ? 32 : 36 }))}
+                        aria-label="Rate stats per"
+                      >
+                        <option value={36}>36 min</option>
+                        <option value={32}>32 min (youth)</option>
+                      </select>{" "}
+                      from {season.timedGames} timed {season.timedGames === 1 ? "game" : "games"}.
+                    </>
+                  ) : null}
+                </div>
+
+                <div className="exportRow">
+                  <div className="label">EXPORT CSV</div>
+                  <button className="miniBtn" onClick={exportGamesCsv} type="button" disabled={!gamesForSelected.length}>
+                    Games
+                  </button>
+                  <button className="miniBtn" onClick={exportSeasonCsv} type="button" disabled={!season.games}>
+                    Season
+                  </button>
+                </div>
+
+                <div className="sectionHeader" style={{ marginTop: 16 }}>
+                  Games
+                </div>
+
+                {gamesForSelected.length === 0 ? (
+                  <div className="emptyBox">
+                    {playerGames.length ? "No games match these filters." : "No games saved for this player yet."}
+                  </div>
+                ) : (
+                  <div className="gamesList">
+                    {gamesForSelected.map((g) => {
+                      const { pts, fgm, fga, tpm, tpa, ftm, fta, reb } = boxScore(g.counts);
+                      const adv = advancedStats(g.counts);
+                      const fixes = g.events?.filter((e) => e.correction).length ?? 0;
+
+                      return (
+                        <div key={g.id} className="gameCard">
+                          <div className="gameTop">
+                            <div className="gameTitle">
+                              {g.jersey ? `#${g.jersey} ` : ""}
+                              {(g.playerId && playerById.get(g.playerId)?.name) || g.playerName} • {g.date}
+                            </div>
+                            <div className="gameActions">
+                              {readOnly ? null : (
+                                <button
+                                  className="miniBtn"
+                                  onClick={() => setEditingId((id) => (id === g.id ? null : g.id))}
+                                  type="button"
+                                >
+                                  {editingId === g.id ? "Close" : "Edit"}
+                                </button>
+                              )}
+                              <button
+                                className="miniBtn"
+                                onClick={() => setOpenPbpId((id) => (id === g.id ? null : g.id))}
+                                type="button"
+                              >
+                                {openPbpId === g.id ? "Hide plays" : "Plays"}
+                              </button>
+                              {g.shots?.length ? (
+                                <button
+                                  className="miniBtn"
+                                  onClick={() => setShotsId((id) => (id === g.id ? null : g.id))}
+                                  type="button"
+                                >
+                                  {shotsId === g.id ? "Hide shots" : "Shots"}
+                                </button>
+                              ) : null}
+                              <button
+                                className="miniBtn"
+                                onClick={() => setSharingId((id) => (id === g.id ? null : g.id))}
+                                type="button"
+                              >
+                                Share
+                              </button>
+                              {readOnly ? null : (
+                                <button className="miniBtn" onClick={() => deleteGame(g.id)} type="button">
+                                  Delete
+                                </button>
+                              )}
+                            </div>
+                          </div>
+                          <div className="gameMeta">
+                            {g.result && g.score ? (
+                              <span className={"resultTag result" + g.result}>
+                                {g.result} {g.score.team}-{g.score.opponent}
+                              </span>
+                            ) : null}
+                            {g.opponent ? `vs ${g.opponent} • ` : ""}
+                            {g.minutes !== undefined ? `MIN ${g.minutes.toFixed(1)} • ` : ""}
+                            PTS {pts} • FG {fgm}-{fga} • 3P {tpm}-{tpa} • FT {ftm}-{fta}
+                            {isEdited(g) ? <span className="editedTag">Edited</span> : null}
+                            {fixes ? (
+                              <span className="editedTag" title="Corrections made during the game; see Plays">
+                                {fixes} {fixes === 1 ? "fix" : "fixes"}
+                              </span>
+                            ) : null}
+                          </div>
+
+                          {editingId === g.id && !readOnly ? (
+                            <GameEditor
+                              game={g}
+                              players={players}
+                              stats={knownStats}
+                              seasons={sortedSeasons}
+                              onSave={(next) => editGame(g.id, next)}
+                              onRevert={() => revertGameEdits(g.id)}
+                              onCancel={() => setEditingId(null)}
+                            />
+                          ) : null}
+
+                          {sharingId === g.id ? (
+                            <SharePanel game={g} playerName={gamePlayerName(g)} onClose={() => setSharingId(null)} />
+                          ) : null}
+
+                          <div className="miniGrid">
+                            <div className="miniChip">
+                              <div className="miniLabel">REB</div>
+                              <div className="miniValue">{reb}</div>
+                            </div>
+                            <div className="miniChip">
+                              <div className="miniLabel">AST</div>
+                              <div className="miniValue">{g.counts.ast}</div>
+                            </div>
+                            <div className="miniChip">
+                              <div className="miniLabel">STL</div>
+                              <div className="miniValue">{g.counts.stl}</div>
+                            </div>
+                            <div className="miniChip">
+                              <div className="miniLabel">BLK</div>
+                              <div className="miniValue">{g.counts.blk ?? 0}</div>
+                            </div>
+                            <div className="miniChip">
+                              <div className="miniLabel">FOUL</div>
+                              <div className="miniValue">{g.counts.pf}</div>
+                            </div>
+                            {usedCustomKeys(g.custom).map((k) => (
+                              <div key={k} className="miniChip">
+                                <div className="miniLabel">{statLabel(k, g.customStats ?? knownStats).toUpperCase()}</div>
+                                <div className="miniValue">{g.custom?.[k]}</div>
+                              </div>
+                            ))}
+                          </div>
+                          <AdvancedRow stats={adv} />
+
+                          {g.periods?.length ? (
+                            <PeriodTable lines={g.periods} format={g.periodFormat ?? "quarters"} />
+                          ) : null}
+                          {g.periods?.length && g.original && isEdited(g) && g.edits?.some((e) => e.after.counts) ? (
+                            <div className="microHint">Box score edited after the game; period splits show the original taps.</div>
+                          ) : null}
+
+                          {shotsId === g.id && g.shots ? (
+                            <>
+                              <ShotChart shots={g.shots} />
+                              <ZoneTable shots={g.shots} />
+                            </>
+                          ) : null}
+
+                          {openPbpId === g.id ? (
+                            <PlayByPlay events={g.events ?? []} format={g.periodFormat ?? "quarters"} stats={g.customStats ?? knownStats} />
+                          ) : null}
+
+                          {g.notes ? <div className="gameNotes">{g.notes}</div> : null}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </>
+            )}
 
-          <div className="microHint" style={{ marginTop: 12 }}>
-            Saved games are stored locally on this device for now. Next upgrade: export/share + cloud sync across devices.
+            <div className="microHint" style={{ marginTop: 12 }}>
+              Saved games are stored on this device (IndexedDB). {syncStatus(sync, syncing, online)}
+            </div>
           </div>
         </div>
-      </div>
+      )}
+
+      {deletedToast ? (
+        <div className="toast" role="status">
+          <span>Deleted {deletedToast.label}</span>
+          <button className="toastBtn" onClick={undoDelete} type="button">
+            Undo
+          </button>
+        </div>
+      ) : null}
 
       <style>{`
         :root{
@@ -728,6 +2598,27 @@ export default function GameTracker() {
           cursor:not-allowed;
         }
 
+        .storageAlert{
+          max-width: 1120px;
+          margin: 0 auto 18px;
+          border: 1px solid var(--bad);
+          border-radius: 14px;
+          padding: 12px 14px;
+          background: rgba(208,72,46,.06);
+          display:flex;
+          align-items:flex-start;
+          justify-content:space-between;
+          gap: 12px;
+        }
+
+        .storageAlertTitle{ font-weight: 900; }
+
+        .storageAlertMsg{
+          margin-top: 4px;
+          font-size: 12px;
+          color: rgba(0,0,0,.65);
+        }
+
         .grid{
           max-width: 1120px;
           margin: 0 auto;
@@ -762,20 +2653,137 @@ export default function GameTracker() {
           font-size: 16px;
         }
 
-        .cardHint{
-          color: var(--muted);
-          font-size: 12px;
-          margin-top: 2px;
-        }
+        .cardHint{
+          color: var(--muted);
+          font-size: 12px;
+          margin-top: 2px;
+        }
+
+        .primaryBtn{
+          background: var(--ink);
+          color: #fff;
+          border: 0;
+          border-radius: 999px;
+          padding: 10px 14px;
+          font-weight: 700;
+          cursor: pointer;
+        }
+
+        .resumeBox{
+          margin-top: 6px;
+          border: 1px solid var(--good);
+          border-radius: 14px;
+          padding: 12px;
+          background: rgba(11,107,102,.06);
+          display:flex;
+          align-items:center;
+          justify-content:space-between;
+          gap: 12px;
+          flex-wrap: wrap;
+        }
+
+        .resumeTitle{ font-weight: 900; }
+
+        .resumeMeta{
+          margin-top: 4px;
+          color: rgba(0,0,0,.6);
+          font-size: 12px;
+        }
+
+        .resumeActions{ display:flex; gap: 8px; }
+
+        /* The tracker stays locked until the resume prompt is answered */
+        .trackerWaiting > :not(.cardHeader):not(.resumeBox){
+          opacity: .45;
+          pointer-events: none;
+        }
+
+        .liveStart{ margin-top: 6px; }
+
+        .liveBox{
+          margin-top: 6px;
+          border: 1px solid var(--bad);
+          border-radius: 14px;
+          padding: 10px 12px;
+          background: rgba(208,72,46,.05);
+        }
+
+        .liveHead{
+          display:flex;
+          align-items:center;
+          gap: 8px;
+          min-width: 0;
+        }
+
+        .liveBadge{
+          padding: 2px 8px;
+          border-radius: 999px;
+          background: var(--bad);
+          color: #fff;
+          font-size: 11px;
+          font-weight: 900;
+          letter-spacing: .08em;
+        }
+
+        .liveLink{
+          font-size: 13px;
+          font-weight: 700;
+          color: inherit;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .liveActions{ margin-top: 8px; display:flex; gap: 8px; }
+
+        .logFilters{
+          margin-top: 10px;
+          display:grid;
+          grid-template-columns: repeat(3, minmax(0, 1fr));
+          gap: 10px;
+        }
+
+        @media (max-width: 520px){
+          .logFilters{ grid-template-columns: 1fr 1fr; }
+          .logFilters > :first-child{ grid-column: 1 / -1; }
+        }
+
+        .historyCard{ max-width: 1120px; margin: 0 auto 14px; }
+
+        .historyList{
+          display:flex;
+          flex-direction:column;
+          max-height: 280px;
+          overflow-y: auto;
+          border: 1px solid var(--line);
+          border-radius: 12px;
+        }
+
+        .historyRow{
+          display:grid;
+          grid-template-columns: 96px 1fr auto;
+          gap: 10px;
+          align-items:center;
+          padding: 8px 12px;
+          border: 0;
+          border-bottom: 1px solid var(--line);
+          background: #fff;
+          font-size: 13px;
+          text-align: left;
+          cursor: pointer;
+        }
+        .historyRow:last-child{ border-bottom: 0; }
+
+        .historyRowNow{ background: rgba(11,107,102,.07); font-weight: 800; }
+        .historyRowUndone{ color: rgba(0,0,0,.4); text-decoration: line-through; }
 
-        .primaryBtn{
-          background: var(--ink);
-          color: #fff;
-          border: 0;
-          border-radius: 999px;
-          padding: 10px 14px;
-          font-weight: 700;
-          cursor: pointer;
+        .historyTime{ font-size: 11px; color: rgba(0,0,0,.5); font-variant-numeric: tabular-nums; }
+
+        .historyNow{
+          font-size: 10px;
+          font-weight: 800;
+          letter-spacing: .1em;
+          color: var(--good);
         }
 
         .formGrid{
@@ -811,57 +2819,66 @@ export default function GameTracker() {
 
         .textarea{ resize: vertical; }
 
-        /* --- STAT TILES (two horizontal rows, 7 across) --- */
-        .statTilesWrap { margin-top: 14px; }
-
-        .statTilesRow {
-          display: grid !important;
-          grid-template-columns: repeat(7, minmax(0, 1fr)) !important;
-          gap: 10px;
-          align-items: stretch;
+        /* --- CORRECTION MODE --- */
+        .stepGrid{
+          margin-top: 8px;
+          display:grid;
+          grid-template-columns: repeat(7, minmax(0, 1fr));
+          gap: 8px;
         }
 
-        .statTilesRow2 { margin-top: 10px; }
-
-        .statTilesRow > * {
-          width: auto !important;
-          min-width: 0 !important;
+        @media (max-width: 720px){
+          .stepGrid{ grid-template-columns: repeat(3, minmax(0, 1fr)); }
         }
 
-        @media (max-width: 900px) {
-          .statTilesRow { grid-template-columns: repeat(4, minmax(0, 1fr)) !important; }
-        }
+        .stepChipFocus{ border-color: var(--good); box-shadow: 0 0 0 2px rgba(11,107,102,.18); }
 
-        @media (max-width: 520px) {
-          .statTilesRow { grid-template-columns: repeat(3, minmax(0, 1fr)) !important; }
+        .stepRow{
+          margin-top: 4px;
+          display:flex;
+          align-items:center;
+          justify-content:space-between;
+          gap: 6px;
         }
 
-        .chip{
+        .stepRow .chipValue{ margin-top: 0; }
+
+        .stepBtn{
+          width: 34px;
+          height: 34px;
+          border-radius: 10px;
           border: 1px solid var(--line);
-          border-radius: 14px;
-          padding: 10px 10px;
           background: #fff;
-          min-height: 54px;
-          display:flex;
-          flex-direction:column;
-          justify-content:center;
+          font-size: 18px;
+          font-weight: 900;
+          cursor: pointer;
+          touch-action: manipulation;
         }
 
-        .chipLabel{
-          font-size: 10px;
-          letter-spacing: .12em;
-          text-transform: uppercase;
-          color: rgba(0,0,0,.55);
-          white-space: nowrap;
+        .stepBtn:disabled{ opacity: .35; cursor: not-allowed; }
+
+${STAT_TILE_CSS}
+        .sectionRow{
+          margin-top: 14px;
+          display:flex;
+          align-items:center;
+          justify-content:space-between;
+          gap: 10px;
         }
 
-        .chipValue{
-          margin-top: 2px;
-          font-size: 18px;
-          font-weight: 800;
-          white-space: nowrap;
+        .sectionRow .sectionLabel{ margin-top: 0; }
+
+        .shotPrompt{
+          margin-top: 8px;
+          display:flex;
+          gap: 8px;
+          flex-wrap: wrap;
+          align-items:center;
         }
 
+        .shotMadeBtn{ background: var(--good); }
+        .shotMissBtn{ background: var(--bad); }
+
         .sectionLabel{
           margin-top: 14px;
           font-size: 11px;
@@ -945,6 +2962,31 @@ export default function GameTracker() {
           font-size: 14px;
         }
 
+        .perSelect{
+          border: 1px solid var(--line);
+          border-radius: 8px;
+          background: #fff;
+          font-size: 12px;
+          padding: 2px 4px;
+        }
+
+        .advRow{
+          margin-top: 8px;
+          display:flex;
+          flex-wrap: wrap;
+          gap: 4px 12px;
+          font-size: 12px;
+          font-variant-numeric: tabular-nums;
+        }
+
+        .advItem{ cursor: help; white-space: nowrap; }
+
+        .advLabel, .advHelp{
+          font-size: 10px;
+          letter-spacing: .08em;
+          color: rgba(0,0,0,.55);
+        }
+
         .seasonGrid{
           margin-top: 10px;
           display:grid;
@@ -999,6 +3041,8 @@ export default function GameTracker() {
 
         .gameTitle{ font-weight: 900; }
 
+        .gameActions{ display:flex; gap: 6px; flex-wrap: wrap; justify-content: flex-end; }
+
         .miniBtn{
           border: 1px solid var(--line);
           background: #fff;
@@ -1014,10 +3058,33 @@ export default function GameTracker() {
           font-size: 12px;
         }
 
+        .editedTag{
+          margin-left: 8px;
+          padding: 2px 8px;
+          border-radius: 999px;
+          background: rgba(0,0,0,.06);
+          font-size: 10px;
+          font-weight: 800;
+          letter-spacing: .08em;
+          text-transform: uppercase;
+        }
+
+        .resultTag{
+          margin-right: 8px;
+          padding: 2px 8px;
+          border-radius: 999px;
+          font-size: 11px;
+          font-weight: 800;
+          color: #fff;
+          background: rgba(0,0,0,.45);
+        }
+        .resultW{ background: var(--good); }
+        .resultL{ background: var(--bad); }
+
         .miniGrid{
           margin-top: 10px;
           display:grid;
-          grid-template-columns: repeat(4, 1fr);
+          grid-template-columns: repeat(5, 1fr);
           gap: 8px;
         }
 
@@ -1039,6 +3106,255 @@ export default function GameTracker() {
           font-size: 16px;
         }
 
+        .periodBar{
+          margin-top: 14px;
+          display:flex;
+          align-items:center;
+          justify-content:space-between;
+          gap: 10px;
+        }
+
+        .periodBar .label{
+          font-size: 11px;
+          letter-spacing: .14em;
+          text-transform: uppercase;
+          color: rgba(0,0,0,.55);
+        }
+
+        .rosterBar{ margin-top: 14px; }
+
+        .scoreBoard{
+          margin-top: 10px;
+          display:grid;
+          grid-template-columns: 1fr 1fr;
+          gap: 8px;
+        }
+
+        .scoreSide{
+          border: 1px solid var(--line);
+          border-radius: 14px;
+          padding: 8px 10px;
+          background: #fff;
+          display:flex;
+          flex-direction:column;
+          gap: 6px;
+        }
+
+        .scoreTop{
+          display:flex;
+          align-items:baseline;
+          justify-content:space-between;
+          gap: 8px;
+        }
+
+        .scoreName{
+          font-size: 11px;
+          font-weight: 800;
+          letter-spacing: .08em;
+          text-transform: uppercase;
+          overflow:hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .scoreValue{ font-size: 28px; font-weight: 900; font-variant-numeric: tabular-nums; }
+
+        .scoreBtns{ display:flex; gap: 6px; }
+        .scoreBtns .miniBtn{ flex: 1; }
+        .scoreBtnTapped{ background: rgba(0,0,0,.08); }
+
+        .clockBar{
+          margin-top: 10px;
+          display:flex;
+          align-items:center;
+          gap: 10px;
+          flex-wrap: wrap;
+        }
+
+        .clockTime{
+          font-size: 28px;
+          font-weight: 900;
+          font-variant-numeric: tabular-nums;
+          min-width: 84px;
+          color: rgba(0,0,0,.55);
+        }
+
+        .clockTimeRunning{ color: var(--ink); }
+
+        .clockLength{
+          display:flex;
+          align-items:center;
+          gap: 6px;
+          font-size: 12px;
+          color: rgba(0,0,0,.55);
+        }
+
+        .clockLength .input{ width: 64px; padding: 8px 10px; }
+
+        .subBox{
+          margin-left: auto;
+          display:flex;
+          align-items:center;
+          gap: 8px;
+        }
+
+        .subMins{
+          font-size: 12px;
+          font-weight: 800;
+          letter-spacing: .06em;
+          font-variant-numeric: tabular-nums;
+        }
+
+        .rosterBar .label{
+          font-size: 11px;
+          letter-spacing: .14em;
+          text-transform: uppercase;
+          color: rgba(0,0,0,.55);
+        }
+
+        .jerseyChips{
+          margin-top: 8px;
+          display:flex;
+          gap: 8px;
+          overflow-x: auto;
+          padding-bottom: 4px;
+        }
+
+        .jerseyChip{
+          flex: 0 0 auto;
+          display:flex;
+          align-items:center;
+          gap: 8px;
+          border: 1px solid var(--line);
+          background: #fff;
+          border-radius: 999px;
+          padding: 10px 14px;
+          font-weight: 700;
+          cursor: pointer;
+          touch-action: manipulation;
+        }
+
+        .jerseyChipActive{
+          background: var(--good);
+          border-color: var(--good);
+          color: #fff;
+        }
+
+        .jerseyChipBench{ opacity: .55; border-style: dashed; }
+
+        .jerseyNum{ font-weight: 900; font-size: 16px; }
+        .jerseyName{ font-size: 13px; }
+        .jerseyPts{ font-size: 12px; opacity: .7; font-variant-numeric: tabular-nums; }
+
+        .rosterAdd{
+          margin-top: 8px;
+          display:flex;
+          gap: 8px;
+          align-items:center;
+          flex-wrap: wrap;
+        }
+
+        .rosterAdd .input{ flex: 1 1 140px; width: auto; }
+        .rosterAdd .select{ flex: 1 1 160px; width: auto; }
+        .rosterAdd .jerseyInput{ flex: 0 0 64px; }
+
+        .periodChips{ display:flex; flex-wrap: wrap; gap: 6px; justify-content:flex-end; }
+
+        .periodChip{
+          border: 1px solid var(--line);
+          background: #fff;
+          border-radius: 999px;
+          padding: 8px 12px;
+          font-weight: 800;
+          cursor: pointer;
+          touch-action: manipulation;
+        }
+
+        .periodChipActive{
+          background: var(--ink);
+          border-color: var(--ink);
+          color: #fff;
+        }
+
+        .periodTableWrap{ margin-top: 10px; overflow-x: auto; }
+
+        .periodTable{
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 12px;
+          font-variant-numeric: tabular-nums;
+        }
+
+        .periodTable th, .periodTable td{
+          padding: 6px 8px;
+          text-align: center;
+          border-bottom: 1px solid var(--line);
+        }
+
+        .periodTable thead th{
+          font-size: 10px;
+          letter-spacing: .12em;
+          color: rgba(0,0,0,.55);
+        }
+
+        .periodTable tbody th{
+          text-align: left;
+          font-size: 10px;
+          letter-spacing: .12em;
+          color: rgba(0,0,0,.55);
+        }
+
+        .periodTotal{ font-weight: 900; }
+
+        .miniBtn:disabled{
+          opacity:.45;
+          cursor:not-allowed;
+        }
+
+        .exportRow{
+          margin-top: 12px;
+          display:flex;
+          align-items:center;
+          gap: 8px;
+        }
+
+        .exportRow .label{
+          font-size: 11px;
+          letter-spacing: .14em;
+          text-transform: uppercase;
+          color: rgba(0,0,0,.55);
+          margin-right: auto;
+        }
+
+        .toast{
+          position: fixed;
+          left: 50%;
+          bottom: 20px;
+          transform: translateX(-50%);
+          display:flex;
+          align-items:center;
+          gap: 14px;
+          background: var(--ink);
+          color: #fff;
+          border-radius: 999px;
+          padding: 10px 12px 10px 18px;
+          font-size: 13px;
+          box-shadow: var(--shadow);
+          z-index: 20;
+          max-width: calc(100vw - 24px);
+        }
+
+        .toastBtn{
+          border: 0;
+          background: #fff;
+          color: var(--ink);
+          border-radius: 999px;
+          padding: 8px 14px;
+          font-weight: 800;
+          cursor: pointer;
+          touch-action: manipulation;
+        }
+
         .gameNotes{
           margin-top: 10px;
           font-size: 12px;
@@ -0,0 +1,294 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { LIVE_POLL_MS, isQuiet, totalLine } from "../lib/live";
+import type { LiveSnapshot } from "../lib/live";
+import StatTiles, { PlayByPlay, STAT_TILE_CSS, formatClock, periodLabel } from "./StatTiles";
+
+/**
+ * Spectator page for a game being tracked live (/live/[gameId]); read only
+ * - Polls the feed every second; an unchanged game costs a 204 and no re-render of the stats
+ * - Roster games: everyone's total, or pick a player for their line + plays
+ * - Stops polling once the game is final (the tracker saved it)
+ */
+
+export default function LiveView({ gameId }: { gameId: string }) {
+  const [snapshot, setSnapshot] = useState<LiveSnapshot | null>(null);
+  const [missing, setMissing] = useState<boolean>(false);
+  const [problem, setProblem] = useState<string>("");
+  // Server clock minus ours, so "quiet" doesn't depend on the spectator's clock being right
+  const [skew, setSkew] = useState<number>(0);
+  const [now, setNow] = useState<number>(0);
+  const [lineKey, setLineKey] = useState<string>("");
+
+  useEffect(() => {
+    let cancelled = false;
+    let version = 0;
+    let timer = 0;
+
+    const poll = async () => {
+      try {
+        const res = await fetch(`/api/live/${encodeURIComponent(gameId)}?since=${version}`, { cache: "no-store" });
+        if (cancelled) return;
+        if (res.status === 404) {
+          setMissing(true);
+        } else if (res.status === 200) {
+          const body = (await res.json()) as { snapshot: LiveSnapshot; now: number };
+          if (cancelled) return;
+          version = body.snapshot.version;
+          setSnapshot(body.snapshot);
+          setSkew(body.now - Date.now());
+          setMissing(false);
+          if (body.snapshot.status === "final") {
+            setProblem("");
+            return;
+          }
+        } else if (res.status !== 204) {
+          throw new Error(`Live feed answered ${res.status}`);
+        }
+        setProblem("");
+      } catch {
+        if (!cancelled) setProblem("Lost the connection. Trying again…");
+      }
+      if (cancelled) return;
+      setNow(Date.now());
+      timer = window.setTimeout(poll, LIVE_POLL_MS);
+    };
+
+    void poll();
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [gameId]);
+
+  const lines = useMemo(() => snapshot?.lines ?? [], [snapshot]);
+  const roster = lines.length > 1;
+  const line = roster ? lines.find((l) => l.key === lineKey) ?? null : null;
+  const shown = useMemo(() => line ?? totalLine(lines), [line, lines]);
+  const plays = useMemo(
+    () => (snapshot && line ? snapshot.events.filter((e) => e.playerKey === line.key) : snapshot?.events ?? []),
+    [snapshot, line]
+  );
+
+  const quiet = !!snapshot && now > 0 && isQuiet(snapshot, now + skew);
+  const final = snapshot?.status === "final";
+
+  return (
+    <div className="livePage">
+      <div className="liveWrap">
+        <div className="kicker">Fly Stat Tracker • Live</div>
+
+        {!snapshot ? (
+          <div className="card">
+            <div className="cardTitle">{missing ? "This game isn't live yet" : "Connecting…"}</div>
+            <div className="cardHint">
+              {missing
+                ? "The page updates by itself as soon as the tracker starts sharing. Check the link if it never does."
+                : "Getting the latest stats."}
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="card">
+              <div className="liveTop">
+                <div>
+                  <div className="liveTitle">
+                    {snapshot.team}
+                    {snapshot.opponent ? ` vs ${snapshot.opponent}` : ""}
+                  </div>
+                  <div className="cardHint">
+                    {snapshot.date}
+                    {!roster && lines[0] ? ` • ${lines[0].jersey ? `#${lines[0].jersey} ` : ""}${lines[0].name}` : ""}
+                  </div>
+                </div>
+                <span className={`liveState ${final ? "isFinal" : quiet ? "isQuiet" : ""}`}>
+                  {final ? "FINAL" : quiet ? "PAUSED" : "LIVE"}
+                </span>
+              </div>
+
+              <div className="liveScore">
+                <div className="liveScoreSide">
+                  <div className="liveScoreName">{snapshot.team}</div>
+                  <div className="liveScoreValue">{snapshot.score.team}</div>
+                </div>
+                <div className="livePeriod">{final ? "Final" : periodLabel(snapshot.periodFormat, snapshot.period)}</div>
+                <div className="liveScoreSide">
+                  <div className="liveScoreName">{snapshot.opponent || "Opponent"}</div>
+                  <div className="liveScoreValue">{snapshot.score.opponent}</div>
+                </div>
+              </div>
+
+              <div className="microHint">
+                {quiet
+                  ? "The tracker hasn't sent anything for a bit (phone locked or no signal). Stats pick up where they left off."
+                  : `Updated ${formatClock(snapshot.updatedAt - skew)}`}
+              </div>
+              {problem ? <div className="liveProblem">{problem}</div> : null}
+            </div>
+
+            <div className="card">
+              {roster ? (
+                <div className="linePicker">
+                  <button
+                    className={`lineChip ${!line ? "isOn" : ""}`}
+                    onClick={() => setLineKey("")}
+                    type="button"
+                  >
+                    All
+                  </button>
+                  {lines.map((l) => (
+                    <button
+                      key={l.key}
+                      className={`lineChip ${line?.key === l.key ? "isOn" : ""}`}
+                      onClick={() => setLineKey(l.key)}
+                      type="button"
+                    >
+                      {l.jersey ? `#${l.jersey} ` : ""}
+                      {l.name}
+                    </button>
+                  ))}
+                </div>
+              ) : null}
+
+              <div className="statTilesWrap">
+                <StatTiles counts={shown.counts} custom={shown.custom} stats={snapshot.stats} />
+              </div>
+
+              <div className="sectionHeader">Play-by-play</div>
+              <PlayByPlay events={plays} format={snapshot.periodFormat} stats={snapshot.stats} newestFirst />
+            </div>
+          </>
+        )}
+      </div>
+
+      <style>{`
+        :root{
+          --bg:#f6f6f4;
+          --card:#ffffff;
+          --ink:#0b0b0b;
+          --muted:rgba(0,0,0,.55);
+          --line:rgba(0,0,0,.12);
+          --shadow:0 10px 25px rgba(0,0,0,.06);
+          --radius:18px;
+          --good:#0b6b66;
+          --bad:#d0482e;
+        }
+
+        .livePage{
+          padding: 28px 18px 40px;
+          background: var(--bg);
+          min-height: 100vh;
+          color: var(--ink);
+          font-family: system-ui,-apple-system,Segoe UI,Roboto,Helvetica,Arial,sans-serif;
+        }
+
+        .liveWrap{
+          max-width: 760px;
+          margin: 0 auto;
+          display:grid;
+          gap: 14px;
+        }
+
+        .kicker{
+          letter-spacing: .18em;
+          font-size: 11px;
+          color: var(--muted);
+          text-transform: uppercase;
+        }
+
+        .card{
+          background: var(--card);
+          border: 1px solid var(--line);
+          border-radius: var(--radius);
+          box-shadow: var(--shadow);
+          padding: 18px;
+        }
+
+        .cardTitle{ font-weight: 800; font-size: 16px; }
+        .cardHint{ color: var(--muted); font-size: 12px; margin-top: 2px; }
+        .microHint{ margin-top: 10px; color: var(--muted); font-size: 12px; }
+
+        .sectionHeader{
+          margin-top: 16px;
+          font-size: 11px;
+          font-weight: 800;
+          letter-spacing: .12em;
+          text-transform: uppercase;
+          color: var(--muted);
+        }
+
+        .liveTop{
+          display:flex;
+          align-items:flex-start;
+          justify-content:space-between;
+          gap: 12px;
+        }
+
+        .liveTitle{ font-size: 22px; font-weight: 900; line-height: 1.15; }
+
+        .liveState{
+          padding: 3px 10px;
+          border-radius: 999px;
+          background: var(--bad);
+          color: #fff;
+          font-size: 11px;
+          font-weight: 900;
+          letter-spacing: .08em;
+          white-space: nowrap;
+        }
+        .liveState.isQuiet{ background: rgba(0,0,0,.45); }
+        .liveState.isFinal{ background: var(--ink); }
+
+        .liveScore{
+          margin-top: 14px;
+          display:grid;
+          grid-template-columns: 1fr auto 1fr;
+          align-items:center;
+          gap: 10px;
+          text-align:center;
+        }
+
+        .liveScoreName{
+          font-size: 11px;
+          letter-spacing: .12em;
+          text-transform: uppercase;
+          color: var(--muted);
+          overflow:hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .liveScoreValue{ font-size: 40px; font-weight: 900; font-variant-numeric: tabular-nums; }
+        .livePeriod{ font-weight: 800; color: var(--muted); }
+
+        .liveProblem{
+          margin-top: 10px;
+          border: 1px solid var(--bad);
+          background: rgba(208,72,46,.06);
+          border-radius: 12px;
+          padding: 8px 12px;
+          font-size: 13px;
+        }
+
+        .linePicker{ display:flex; gap: 8px; flex-wrap: wrap; }
+
+        .lineChip{
+          border: 1px solid var(--line);
+          background: #fff;
+          border-radius: 999px;
+          padding: 8px 12px;
+          font-weight: 700;
+          font-size: 13px;
+          cursor: pointer;
+        }
+        .lineChip.isOn{ background: var(--good); border-color: var(--good); color: #fff; }
+
+        ${STAT_TILE_CSS}
+
+        .livePage .statTilesWrap:first-child{ margin-top: 0; }
+        .livePage .pbpList{ max-height: none; }
+      `}</style>
+    </div>
+  );
+}
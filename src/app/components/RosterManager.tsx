@@ -0,0 +1,271 @@
+"use client";
+
+import React, { useState } from "react";
+import type { Player } from "../lib/types";
+import { POSITIONS, normalizeName, playerLabel } from "../lib/roster";
+
+/**
+ * Roster screen
+ * - Add players (name, jersey, position, team)
+ * - Rename / edit in place; games follow the player id so history stays together
+ * - Merge a duplicate into another player, archive players who have moved on
+ */
+
+type PlayerPatch = Partial<Omit<Player, "id" | "createdAt">>;
+
+function PlayerRow({
+  player,
+  games,
+  others,
+  onUpdate,
+  onMerge,
+}: {
+  player: Player;
+  games: number;
+  others: Player[];
+  onUpdate: (id: string, patch: PlayerPatch) => void;
+  onMerge: (fromId: string, intoId: string) => void;
+}) {
+  // Name is committed on blur so a half-typed rename never leaves an empty name behind
+  const [name, setName] = useState(player.name);
+
+  const commitName = () => {
+    const next = normalizeName(name);
+    if (!next) {
+      setName(player.name);
+      return;
+    }
+    setName(next);
+    if (next !== player.name) onUpdate(player.id, { name: next });
+  };
+
+  return (
+    <div className={"rosterRow " + (player.archived ? "rosterRowArchived" : "")}>
+      <div className="rosterFields">
+        <input
+          className="input rosterJersey"
+          value={player.jersey}
+          onChange={(e) => onUpdate(player.id, { jersey: e.target.value.replace(/^#/, "") })}
+          placeholder="#"
+          inputMode="numeric"
+          aria-label="Jersey number"
+        />
+        <input
+          className="input"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitName();
+          }}
+          aria-label="Player name"
+        />
+        <select
+          className="select rosterPos"
+          value={player.position}
+          onChange={(e) => onUpdate(player.id, { position: e.target.value })}
+          aria-label="Position"
+        >
+          {POSITIONS.map((pos) => (
+            <option key={pos} value={pos}>
+              {pos || "Pos"}
+            </option>
+          ))}
+        </select>
+        <input
+          className="input"
+          value={player.team}
+          onChange={(e) => onUpdate(player.id, { team: e.target.value })}
+          placeholder="Team"
+          aria-label="Team"
+        />
+      </div>
+
+      <div className="rosterRowActions">
+        <div className="rosterGames">
+          {games} {games === 1 ? "game" : "games"}
+        </div>
+        <select
+          className="select rosterMerge"
+          value=""
+          onChange={(e) => {
+            if (e.target.value) onMerge(player.id, e.target.value);
+          }}
+          aria-label="Merge into another player"
+        >
+          <option value="">Merge into…</option>
+          {others.map((o) => (
+            <option key={o.id} value={o.id}>
+              {playerLabel(o)}
+            </option>
+          ))}
+        </select>
+        <button
+          className="miniBtn"
+          onClick={() => onUpdate(player.id, { archived: !player.archived })}
+          type="button"
+        >
+          {player.archived ? "Restore" : "Archive"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function RosterManager({
+  players,
+  gameCounts,
+  defaultTeam,
+  onAdd,
+  onUpdate,
+  onMerge,
+  onClose,
+}: {
+  players: Player[];
+  gameCounts: Record<string, number>;
+  defaultTeam: string;
+  onAdd: (fields: { name: string; jersey: string; position: string; team: string }) => void;
+  onUpdate: (id: string, patch: PlayerPatch) => void;
+  onMerge: (fromId: string, intoId: string) => void;
+  onClose: () => void;
+}) {
+  const [name, setName] = useState<string>("");
+  const [jersey, setJersey] = useState<string>("");
+  const [position, setPosition] = useState<string>("");
+  const [showArchived, setShowArchived] = useState<boolean>(false);
+
+  const sorted = [...players].sort((a, b) => a.name.localeCompare(b.name));
+  const active = sorted.filter((p) => !p.archived);
+  const archived = sorted.filter((p) => p.archived);
+
+  const add = () => {
+    if (!normalizeName(name)) return;
+    onAdd({ name, jersey: jersey.trim().replace(/^#/, ""), position, team: defaultTeam });
+    setName("");
+    setJersey("");
+    setPosition("");
+  };
+
+  const renderRow = (p: Player) => (
+    <PlayerRow
+      key={p.id}
+      player={p}
+      games={gameCounts[p.id] ?? 0}
+      others={active.filter((o) => o.id !== p.id)}
+      onUpdate={onUpdate}
+      onMerge={onMerge}
+    />
+  );
+
+  return (
+    <div className="card rosterCard">
+      <div className="cardHeader">
+        <div>
+          <div className="cardTitle">Roster</div>
+          <div className="cardHint">
+            {active.length} active • {archived.length} archived
+          </div>
+        </div>
+        <button className="primaryBtn" onClick={onClose} type="button">
+          Done
+        </button>
+      </div>
+
+      <div className="rosterFields rosterAddRow">
+        <input
+          className="input rosterJersey"
+          value={jersey}
+          onChange={(e) => setJersey(e.target.value)}
+          placeholder="#"
+          inputMode="numeric"
+        />
+        <input
+          className="input"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") add();
+          }}
+          placeholder="New player name"
+        />
+        <select className="select rosterPos" value={position} onChange={(e) => setPosition(e.target.value)}>
+          {POSITIONS.map((pos) => (
+            <option key={pos} value={pos}>
+              {pos || "Pos"}
+            </option>
+          ))}
+        </select>
+        <button className="miniBtn" onClick={add} type="button">
+          Add player
+        </button>
+      </div>
+
+      {active.length === 0 ? (
+        <div className="emptyBox">No players yet. Add one above or save a game.</div>
+      ) : (
+        <div className="rosterList">{active.map(renderRow)}</div>
+      )}
+
+      {archived.length ? (
+        <>
+          <button className="miniBtn" style={{ marginTop: 14 }} onClick={() => setShowArchived((v) => !v)} type="button">
+            {showArchived ? "Hide archived" : `Show archived (${archived.length})`}
+          </button>
+          {showArchived ? <div className="rosterList">{archived.map(renderRow)}</div> : null}
+        </>
+      ) : null}
+
+      <div className="microHint">
+        Renaming keeps a player&apos;s games together. Merge folds a duplicate (e.g. a typo) into the right player.
+      </div>
+
+      <style>{`
+        .rosterCard{ max-width: 1120px; margin: 0 auto; }
+
+        .rosterFields{
+          display:grid;
+          grid-template-columns: 64px 1.4fr 84px 1fr;
+          gap: 8px;
+          align-items:center;
+        }
+
+        .rosterAddRow{
+          grid-template-columns: 64px 1.4fr 84px auto;
+          margin-top: 6px;
+        }
+
+        @media (max-width: 520px){
+          .rosterFields{ grid-template-columns: 56px 1fr 76px; }
+          .rosterFields > :nth-child(4){ grid-column: 1 / -1; }
+        }
+
+        .rosterList{ margin-top: 12px; display:flex; flex-direction:column; gap: 10px; }
+
+        .rosterRow{
+          border: 1px solid var(--line);
+          border-radius: 14px;
+          padding: 10px;
+          background: #fff;
+        }
+
+        .rosterRowArchived{ opacity: .65; }
+
+        .rosterRowActions{
+          margin-top: 8px;
+          display:flex;
+          align-items:center;
+          gap: 8px;
+          flex-wrap: wrap;
+        }
+
+        .rosterGames{
+          font-size: 12px;
+          color: rgba(0,0,0,.55);
+          margin-right: auto;
+        }
+
+        .rosterMerge{ width: auto; padding: 8px 10px; font-size: 12px; }
+      `}</style>
+    </div>
+  );
+}
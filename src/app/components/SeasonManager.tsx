@@ -0,0 +1,233 @@
+"use client";
+
+import React, { useState } from "react";
+import { seasonProblem, sortSeasons } from "../lib/seasons";
+import type { Season } from "../lib/types";
+
+/**
+ * Seasons screen
+ * - Name a season or competition with start / end dates and, optionally, the team it's for
+ * - New games are filed under the season covering their date; the Player Log filters by season
+ * - Deleting a season keeps its games (they just aren't filed under it any more)
+ */
+
+type SeasonFields = Omit<Season, "id">;
+
+function SeasonForm({
+  initial,
+  submitLabel,
+  onSubmit,
+  children,
+}: {
+  initial: SeasonFields;
+  submitLabel: string;
+  onSubmit: (fields: SeasonFields) => void;
+  children?: React.ReactNode;
+}) {
+  const [fields, setFields] = useState<SeasonFields>(initial);
+  const [problem, setProblem] = useState<string>("");
+
+  const set = <K extends keyof SeasonFields>(key: K, value: SeasonFields[K]) => {
+    setFields((f) => ({ ...f, [key]: value }));
+    setProblem("");
+  };
+
+  const dirty =
+    fields.name !== initial.name ||
+    fields.startDate !== initial.startDate ||
+    fields.endDate !== initial.endDate ||
+    (fields.team ?? "") !== (initial.team ?? "");
+
+  const submit = () => {
+    const p = seasonProblem(fields);
+    if (p) {
+      setProblem(p);
+      return;
+    }
+    onSubmit(fields);
+  };
+
+  return (
+    <>
+      <div className="seasonFields">
+        <input
+          className="input"
+          value={fields.name}
+          onChange={(e) => set("name", e.target.value)}
+          placeholder="e.g., Spring AAU 2026"
+          aria-label="Season name"
+        />
+        <input
+          className="input"
+          type="date"
+          value={fields.startDate}
+          onChange={(e) => set("startDate", e.target.value)}
+          aria-label="Start date"
+        />
+        <input
+          className="input"
+          type="date"
+          value={fields.endDate}
+          onChange={(e) => set("endDate", e.target.value)}
+          aria-label="End date"
+        />
+        <input
+          className="input"
+          value={fields.team ?? ""}
+          onChange={(e) => set("team", e.target.value)}
+          placeholder="Any team"
+          aria-label="Team"
+        />
+      </div>
+      {problem ? <div className="seasonProblem">{problem}</div> : null}
+      <div className="seasonRowActions">
+        {children}
+        <button className="miniBtn" onClick={submit} type="button" disabled={!dirty}>
+          {submitLabel}
+        </button>
+      </div>
+    </>
+  );
+}
+
+export default function SeasonManager({
+  seasons,
+  gameCounts,
+  currentId,
+  defaultTeam,
+  onAdd,
+  onUpdate,
+  onRemove,
+  onClose,
+}: {
+  seasons: Season[];
+  gameCounts: Record<string, number>;
+  currentId: string | null;
+  defaultTeam: string;
+  onAdd: (fields: SeasonFields) => void;
+  onUpdate: (id: string, fields: SeasonFields) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}) {
+  // Remounts the add form (clearing it) after each add
+  const [addKey, setAddKey] = useState<number>(0);
+
+  const confirmRemove = (s: Season) => {
+    const ok = window.confirm(`Delete the season "${s.name}"?\n\nIts games are kept.`);
+    if (ok) onRemove(s.id);
+  };
+
+  return (
+    <div className="card seasonCard">
+      <div className="cardHeader">
+        <div>
+          <div className="cardTitle">Seasons</div>
+          <div className="cardHint">
+            {seasons.length} {seasons.length === 1 ? "season" : "seasons"}
+          </div>
+        </div>
+        <button className="primaryBtn" onClick={onClose} type="button">
+          Done
+        </button>
+      </div>
+
+      <div className="sectionHeader">New season</div>
+      <div className="seasonRow">
+        <SeasonForm
+          key={addKey}
+          initial={{ name: "", startDate: "", endDate: "", team: defaultTeam }}
+          submitLabel="Add season"
+          onSubmit={(fields) => {
+            onAdd(fields);
+            setAddKey((k) => k + 1);
+          }}
+        />
+      </div>
+
+      {seasons.length === 0 ? (
+        <div className="emptyBox">No seasons yet. Add one above to split the Player Log by season.</div>
+      ) : (
+        <div className="seasonList">
+          {sortSeasons(seasons).map((s) => (
+            <div key={s.id} className="seasonRow">
+              <SeasonForm
+                initial={{ name: s.name, startDate: s.startDate, endDate: s.endDate, team: s.team }}
+                submitLabel="Save"
+                onSubmit={(fields) => onUpdate(s.id, fields)}
+              >
+                <div className="seasonGames">
+                  {s.id === currentId ? <span className="seasonNow">Current</span> : null}
+                  {gameCounts[s.id] ?? 0} {gameCounts[s.id] === 1 ? "game" : "games"}
+                </div>
+                <button className="miniBtn" onClick={() => confirmRemove(s)} type="button">
+                  Delete
+                </button>
+              </SeasonForm>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="microHint">
+        Leave the team blank for a season that covers every team. Games saved before seasons existed are matched by date.
+      </div>
+
+      <style>{`
+        .seasonCard{ max-width: 1120px; margin: 0 auto; }
+
+        .seasonFields{
+          display:grid;
+          grid-template-columns: 1.4fr 1fr 1fr 1fr;
+          gap: 8px;
+          align-items:center;
+        }
+
+        @media (max-width: 520px){
+          .seasonFields{ grid-template-columns: 1fr 1fr; }
+          .seasonFields > :first-child{ grid-column: 1 / -1; }
+        }
+
+        .seasonList{ margin-top: 12px; display:flex; flex-direction:column; gap: 10px; }
+
+        .seasonRow{
+          margin-top: 6px;
+          border: 1px solid var(--line);
+          border-radius: 14px;
+          padding: 10px;
+          background: #fff;
+        }
+
+        .seasonRowActions{
+          margin-top: 8px;
+          display:flex;
+          align-items:center;
+          justify-content:flex-end;
+          gap: 8px;
+          flex-wrap: wrap;
+        }
+
+        .seasonGames{
+          font-size: 12px;
+          color: rgba(0,0,0,.55);
+          margin-right: auto;
+        }
+
+        .seasonNow{
+          margin-right: 8px;
+          padding: 2px 8px;
+          border-radius: 999px;
+          background: rgba(11,107,102,.1);
+          color: var(--good);
+          font-size: 10px;
+          font-weight: 800;
+          letter-spacing: .08em;
+          text-transform: uppercase;
+        }
+
+        .seasonProblem{ margin-top: 6px; font-size: 12px; color: var(--bad); }
+
+        .miniBtn:disabled{ opacity: .45; cursor: not-allowed; }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { gameShareText, renderShareCard } from "../lib/shareCard";
+import type { GameEntry } from "../lib/types";
+import { downloadBlob, slug } from "../lib/util";
+
+/**
+ * Share sheet for one saved game (Player Log card)
+ * - Preview of the PNG summary card + the plain-text version
+ * - Share goes through the Web Share API (image + text where the phone supports files)
+ * - Otherwise: download the image / copy the text
+ */
+
+export default function SharePanel({
+  game,
+  playerName,
+  onClose,
+}: {
+  game: GameEntry;
+  playerName: string;
+  onClose: () => void;
+}) {
+  const [image, setImage] = useState<Blob | null>(null);
+  const [preview, setPreview] = useState<string>("");
+  const [status, setStatus] = useState<string>("");
+
+  const text = gameShareText(game, { playerName, jersey: game.jersey });
+  const fileName = `${slug(playerName) || "player"}_${game.date}.png`;
+  const canShare = typeof navigator !== "undefined" && typeof navigator.share === "function";
+
+  useEffect(() => {
+    let url = "";
+    let cancelled = false;
+    renderShareCard(game, { playerName, jersey: game.jersey })
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setImage(blob);
+        setPreview(url);
+      })
+      .catch(() => setStatus("Couldn't draw the image. You can still copy the text."));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [game, playerName]);
+
+  const share = async () => {
+    setStatus("");
+    const file = image ? new File([image], fileName, { type: "image/png" }) : null;
+    const withFile = !!file && !!navigator.canShare?.({ files: [file] });
+    try {
+      await navigator.share(withFile && file ? { files: [file], text } : { text });
+    } catch (e) {
+      // Closing the share sheet isn't an error worth showing
+      if ((e as DOMException)?.name !== "AbortError") setStatus("Sharing didn't work here. Try download or copy.");
+    }
+  };
+
+  const download = () => {
+    if (image) downloadBlob(fileName, image);
+  };
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setStatus("Copied. Paste it into a text or email.");
+    } catch {
+      setStatus("Couldn't copy automatically. Select the text below and copy it.");
+    }
+  };
+
+  return (
+    <div className="shareBox">
+      {preview ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img className="sharePreview" src={preview} alt={`Game summary for ${playerName}`} />
+      ) : (
+        <div className="microHint">Drawing card…</div>
+      )}
+
+      <pre className="shareText">{text}</pre>
+
+      <div className="shareActions">
+        {canShare ? (
+          <button className="primaryBtn" onClick={share} type="button">
+            Share…
+          </button>
+        ) : null}
+        <button className="miniBtn" onClick={download} type="button" disabled={!image}>
+          Download image
+        </button>
+        <button className="miniBtn" onClick={copy} type="button">
+          Copy text
+        </button>
+        <button className="miniBtn" onClick={onClose} type="button">
+          Close
+        </button>
+      </div>
+
+      {status ? <div className="microHint">{status}</div> : null}
+
+      <style>{`
+        .shareBox{
+          margin-top: 10px;
+          border-top: 1px solid var(--line);
+          padding-top: 10px;
+        }
+
+        .sharePreview{
+          display:block;
+          width: 100%;
+          max-width: 320px;
+          border-radius: 12px;
+          border: 1px solid var(--line);
+        }
+
+        .shareText{
+          margin: 10px 0 0;
+          padding: 10px 12px;
+          border-radius: 12px;
+          background: rgba(0,0,0,.04);
+          font-family: inherit;
+          font-size: 12px;
+          line-height: 1.5;
+          white-space: pre-wrap;
+          user-select: text;
+        }
+
+        .shareActions{
+          margin-top: 10px;
+          display:flex;
+          gap: 8px;
+          flex-wrap: wrap;
+          align-items:center;
+        }
+
+        .shareActions .miniBtn:disabled{ opacity: .45; cursor: not-allowed; }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import React from "react";
+import { COURT, courtLoc, zoneSplits } from "../lib/shots";
+import type { Shot, ShotLoc } from "../lib/types";
+
+/**
+ * Half-court shot chart (SVG, baseline at the top)
+ * - Read-only for the Player Log; pass onTap to record shots in the tracker
+ * - Made = filled dot, missed = ×; ZoneTable gives make % by zone
+ */
+
+const S = 10; // SVG units per foot
+const W = COURT.width * S;
+const H = COURT.length * S;
+const HOOP_X = COURT.hoop.x * S;
+const HOOP_Y = COURT.hoop.y * S;
+const R3 = COURT.threeRadius * S;
+const LANE = (COURT.laneWidth / 2) * S;
+const FT = COURT.ftLine * S;
+
+function Marker({ shot }: { shot: Shot }) {
+  const x = shot.x * S;
+  const y = shot.y * S;
+  if (shot.made) return <circle cx={x} cy={y} r={8} className="shotMade" />;
+  return <path d={`M ${x - 7} ${y - 7} L ${x + 7} ${y + 7} M ${x + 7} ${y - 7} L ${x - 7} ${y + 7}`} className="shotMiss" />;
+}
+
+export default function ShotChart({
+  shots,
+  pending,
+  onTap,
+}: {
+  shots: Shot[];
+  pending?: ShotLoc | null;
+  onTap?: (loc: ShotLoc) => void;
+}) {
+  const tap = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!onTap) return;
+    const r = e.currentTarget.getBoundingClientRect();
+    onTap(courtLoc(((e.clientX - r.left) / r.width) * COURT.width, ((e.clientY - r.top) / r.height) * COURT.length));
+  };
+
+  return (
+    <div className="shotChart">
+      <svg
+        viewBox={`0 0 ${W} ${H}`}
+        className={"court " + (onTap ? "courtTappable" : "")}
+        onClick={tap}
+        role={onTap ? "button" : "img"}
+        aria-label={onTap ? "Tap where the shot was taken" : `Shot chart, ${shots.length} shots`}
+      >
+        <rect x={0} y={0} width={W} height={H} className="courtFloor" />
+        <rect x={HOOP_X - LANE} y={0} width={LANE * 2} height={FT} className="courtLine courtPaint" />
+        <circle cx={HOOP_X} cy={FT} r={6 * S} className="courtLine" />
+        <path
+          d={`M ${HOOP_X - R3} 0 L ${HOOP_X - R3} ${HOOP_Y} A ${R3} ${R3} 0 0 0 ${HOOP_X + R3} ${HOOP_Y} L ${HOOP_X + R3} 0`}
+          className="courtLine"
+        />
+        <line x1={HOOP_X - 3 * S} y1={4 * S} x2={HOOP_X + 3 * S} y2={4 * S} className="courtLine" />
+        <circle cx={HOOP_X} cy={HOOP_Y} r={0.75 * S} className="courtLine" />
+        <path d={`M ${HOOP_X - 6 * S} ${H} A ${6 * S} ${6 * S} 0 0 1 ${HOOP_X + 6 * S} ${H}`} className="courtLine" />
+
+        {shots.map((s, i) => (
+          <Marker key={`${s.at}-${i}`} shot={s} />
+        ))}
+        {pending ? <circle cx={pending.x * S} cy={pending.y * S} r={10} className="shotPending" /> : null}
+      </svg>
+
+      <style>{`
+        .shotChart{ margin-top: 10px; }
+
+        .court{
+          display:block;
+          width: 100%;
+          max-width: 420px;
+          border-radius: 12px;
+          border: 1px solid var(--line);
+          user-select: none;
+        }
+
+        .courtTappable{ cursor: crosshair; touch-action: manipulation; }
+
+        .courtFloor{ fill: #fbf7ef; }
+        .courtLine{ fill: none; stroke: rgba(0,0,0,.35); stroke-width: 3; }
+        .courtPaint{ fill: rgba(126,166,191,.12); }
+
+        .shotMade{ fill: var(--good); opacity: .85; }
+        .shotMiss{ stroke: var(--bad); stroke-width: 4; stroke-linecap: round; opacity: .85; }
+        .shotPending{ fill: none; stroke: var(--ink); stroke-width: 4; stroke-dasharray: 6 4; }
+
+        .zoneTable{
+          margin-top: 8px;
+          width: 100%;
+          max-width: 420px;
+          border-collapse: collapse;
+          font-size: 12px;
+          font-variant-numeric: tabular-nums;
+        }
+
+        .zoneTable th, .zoneTable td{
+          padding: 6px 8px;
+          border-bottom: 1px solid var(--line);
+          text-align: right;
+        }
+
+        .zoneTable th:first-child, .zoneTable td:first-child{ text-align: left; }
+        .zoneTable thead th{ font-size: 10px; letter-spacing: .1em; color: rgba(0,0,0,.55); }
+      `}</style>
+    </div>
+  );
+}
+
+export function ZoneTable({ shots }: { shots: Shot[] }) {
+  return (
+    <table className="zoneTable">
+      <thead>
+        <tr>
+          <th>ZONE</th>
+          <th>FG</th>
+          <th>FG%</th>
+        </tr>
+      </thead>
+      <tbody>
+        {zoneSplits(shots).map((z) => (
+          <tr key={z.zone}>
+            <td>{z.label}</td>
+            <td>
+              {z.made}-{z.att}
+            </td>
+            <td>{z.att ? `${z.pct.toFixed(1)}%` : "—"}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,224 @@
+"use client";
+
+import React, { useState } from "react";
+import { customStatKey, shortLabel } from "../lib/counts";
+import type { CustomStat, StatSection, StatTone } from "../lib/types";
+
+/**
+ * Stats screen
+ * - BLK is built in; add counter stats of your own (deflections, charges taken, loose balls…)
+ * - Each one gets a label, a short button title, a colour and the button grid it sits in
+ * - Removing a stat only hides its button; saved games keep their counts and labels
+ */
+
+type StatPatch = Partial<Omit<CustomStat, "key">>;
+
+const TONES: { value: StatTone; label: string }[] = [
+  { value: "neutral", label: "Blue" },
+  { value: "good", label: "Green" },
+  { value: "bad", label: "Red" },
+];
+
+const SECTIONS: { value: StatSection; label: string }[] = [
+  { value: "hustle", label: "Hustle + other" },
+  { value: "scoring", label: "Scoring" },
+];
+
+function StatRow({
+  stat,
+  onUpdate,
+  onRemove,
+}: {
+  stat: CustomStat;
+  onUpdate: (key: string, patch: StatPatch) => void;
+  onRemove: (key: string) => void;
+}) {
+  // Label is committed on blur so a half-typed rename never leaves an empty label behind
+  const [label, setLabel] = useState(stat.label);
+
+  const commitLabel = () => {
+    const next = label.trim();
+    if (!next) {
+      setLabel(stat.label);
+      return;
+    }
+    if (next !== stat.label) onUpdate(stat.key, { label: next });
+  };
+
+  return (
+    <div className="statRow">
+      <input
+        className="input"
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        onBlur={commitLabel}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commitLabel();
+        }}
+        aria-label="Stat name"
+      />
+      <input
+        className="input statShort"
+        value={stat.short}
+        onChange={(e) => onUpdate(stat.key, { short: e.target.value.toUpperCase().slice(0, 6) })}
+        aria-label="Button title"
+      />
+      <select
+        className="select"
+        value={stat.tone}
+        onChange={(e) => onUpdate(stat.key, { tone: e.target.value as StatTone })}
+        aria-label="Colour"
+      >
+        {TONES.map((t) => (
+          <option key={t.value} value={t.value}>
+            {t.label}
+          </option>
+        ))}
+      </select>
+      <select
+        className="select"
+        value={stat.section}
+        onChange={(e) => onUpdate(stat.key, { section: e.target.value as StatSection })}
+        aria-label="Section"
+      >
+        {SECTIONS.map((s) => (
+          <option key={s.value} value={s.value}>
+            {s.label}
+          </option>
+        ))}
+      </select>
+      <button className="miniBtn" onClick={() => onRemove(stat.key)} type="button">
+        Remove
+      </button>
+    </div>
+  );
+}
+
+export default function StatSetup({
+  stats,
+  onChange,
+  onClose,
+}: {
+  stats: CustomStat[];
+  onChange: (next: CustomStat[]) => void;
+  onClose: () => void;
+}) {
+  const [label, setLabel] = useState<string>("");
+  const [tone, setTone] = useState<StatTone>("neutral");
+  const [section, setSection] = useState<StatSection>("hustle");
+
+  const add = () => {
+    const name = label.trim();
+    if (!name) return;
+    if (stats.some((s) => s.label.toLowerCase() === name.toLowerCase())) {
+      alert(`There's already a stat called ${name}.`);
+      return;
+    }
+    onChange([...stats, { key: customStatKey(name), label: name, short: shortLabel(name), tone, section }]);
+    setLabel("");
+  };
+
+  const update = (key: string, patch: StatPatch) => {
+    onChange(stats.map((s) => (s.key === key ? { ...s, ...patch } : s)));
+  };
+
+  const remove = (key: string) => {
+    const s = stats.find((x) => x.key === key);
+    if (!s) return;
+    const ok = window.confirm(`Remove the ${s.label} button?\n\nGames already saved keep their ${s.label} counts.`);
+    if (ok) onChange(stats.filter((x) => x.key !== key));
+  };
+
+  return (
+    <div className="card statSetupCard">
+      <div className="cardHeader">
+        <div>
+          <div className="cardTitle">Stats</div>
+          <div className="cardHint">Box score + BLK are built in • add your own counters</div>
+        </div>
+        <button className="primaryBtn" onClick={onClose} type="button">
+          Done
+        </button>
+      </div>
+
+      <div className="statRow statAddRow">
+        <input
+          className="input"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") add();
+          }}
+          placeholder="New stat (e.g. Deflection)"
+        />
+        <select className="select" value={tone} onChange={(e) => setTone(e.target.value as StatTone)} aria-label="Colour">
+          {TONES.map((t) => (
+            <option key={t.value} value={t.value}>
+              {t.label}
+            </option>
+          ))}
+        </select>
+        <select
+          className="select"
+          value={section}
+          onChange={(e) => setSection(e.target.value as StatSection)}
+          aria-label="Section"
+        >
+          {SECTIONS.map((s) => (
+            <option key={s.value} value={s.value}>
+              {s.label}
+            </option>
+          ))}
+        </select>
+        <button className="miniBtn" onClick={add} type="button">
+          Add stat
+        </button>
+      </div>
+
+      {stats.length === 0 ? (
+        <div className="emptyBox">No custom stats yet. Try Deflection, Charge taken or Loose ball.</div>
+      ) : (
+        <div className="statList">
+          {stats.map((s) => (
+            <StatRow key={s.key} stat={s} onUpdate={update} onRemove={remove} />
+          ))}
+        </div>
+      )}
+
+      <div className="microHint">
+        Custom stats are counted per game and averaged in the Player Log. They don&apos;t change points or
+        shooting percentages.
+      </div>
+
+      <style>{`
+        .statSetupCard{ max-width: 1120px; margin: 0 auto; }
+
+        .statRow{
+          display:grid;
+          grid-template-columns: 1.4fr 84px 100px 140px auto;
+          gap: 8px;
+          align-items:center;
+        }
+
+        .statAddRow{
+          grid-template-columns: 1.4fr 100px 140px auto;
+          margin-top: 6px;
+        }
+
+        @media (max-width: 520px){
+          .statRow, .statAddRow{ grid-template-columns: 1fr 1fr; }
+          .statRow > :first-child, .statAddRow > :first-child{ grid-column: 1 / -1; }
+        }
+
+        .statList{ margin-top: 12px; display:flex; flex-direction:column; gap: 10px; }
+
+        .statList .statRow{
+          border: 1px solid var(--line);
+          border-radius: 14px;
+          padding: 10px;
+          background: #fff;
+        }
+      `}</style>
+    </div>
+  );
+}
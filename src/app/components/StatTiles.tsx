@@ -0,0 +1,207 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { statLabel } from "../lib/counts";
+import { boxScore, runningTotals } from "../lib/stats";
+import type { CustomCounts, CustomStat, GameEvent, LiveCounts, PeriodFormat } from "../lib/types";
+
+/**
+ * Live stat tiles and play-by-play, shared by the tracker and the spectator page (/live/[gameId])
+ * Styles are in STAT_TILE_CSS; each screen drops it into its own <style> block.
+ */
+
+export const regulationPeriods: Record<PeriodFormat, number> = { quarters: 4, halves: 2 };
+
+export function periodLabel(format: PeriodFormat, period: number) {
+  const reg = regulationPeriods[format];
+  if (period > reg) return `OT${period - reg}`;
+  return `${format === "halves" ? "H" : "Q"}${period}`;
+}
+
+export function formatPct(v: number) {
+  return `${v.toFixed(1)}%`;
+}
+
+export function formatClock(at: number) {
+  return new Date(at).toLocaleTimeString([], { hour: "numeric", minute: "2-digit", second: "2-digit" });
+}
+
+export function StatChip({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div className="chip">
+      <div className="chipLabel">{label}</div>
+      <div className="chipValue">{value}</div>
+    </div>
+  );
+}
+
+// Two horizontal rows, 7 across (+ blocks and custom stats)
+export default function StatTiles({
+  counts,
+  custom,
+  stats,
+}: {
+  counts: LiveCounts;
+  custom: CustomCounts;
+  stats: CustomStat[];
+}) {
+  const scoring = boxScore(counts);
+  return (
+    <>
+      <div className="statTilesRow">
+        <StatChip label="PTS" value={scoring.pts} />
+        <StatChip label="FG" value={`${scoring.fgm}-${scoring.fga}`} />
+        <StatChip label="FG%" value={formatPct(scoring.fgPct)} />
+        <StatChip label="3P FG" value={`${scoring.tpm}-${scoring.tpa}`} />
+        <StatChip label="3P FG%" value={formatPct(scoring.tpPct)} />
+        <StatChip label="FT" value={`${scoring.ftm}-${scoring.fta}`} />
+        <StatChip label="FT%" value={formatPct(scoring.ftPct)} />
+      </div>
+
+      <div className="statTilesRow statTilesRow2">
+        <StatChip label="O REBS" value={counts.orb} />
+        <StatChip label="D REBS" value={counts.drb} />
+        <StatChip label="TTL REBS" value={scoring.reb} />
+        <StatChip label="AST" value={counts.ast} />
+        <StatChip label="TO" value={counts.to} />
+        <StatChip label="STLS" value={counts.stl} />
+        <StatChip label="FOULS" value={counts.pf} />
+      </div>
+
+      <div className="statTilesRow statTilesRow2">
+        <StatChip label="BLKS" value={counts.blk} />
+        {stats.map((d) => (
+          <StatChip key={d.key} label={d.short || d.label} value={custom[d.key] ?? 0} />
+        ))}
+      </div>
+    </>
+  );
+}
+
+export function PlayByPlay({
+  events,
+  format,
+  stats,
+  newestFirst = false,
+}: {
+  events: GameEvent[];
+  format: PeriodFormat;
+  stats: CustomStat[];
+  newestFirst?: boolean;
+}) {
+  // Running totals so each row answers "how many did she have at that point?"
+  const rows = useMemo(() => {
+    const all = runningTotals(events);
+    return newestFirst ? all.reverse() : all;
+  }, [events, newestFirst]);
+
+  if (!rows.length) return <div className="pbpEmpty">No play-by-play recorded for this game.</div>;
+
+  return (
+    <div className="pbpList">
+      {rows.map(({ e, tally, pts }) => (
+        <div key={e.id} className="pbpRow">
+          <div className="pbpTime">{formatClock(e.at)}</div>
+          <div className="pbpPeriod">{periodLabel(format, e.period)}</div>
+          <div className="pbpWhat">
+            {e.correction ? <span className="pbpFix">FIX {e.delta > 0 ? "+1" : "−1"}</span> : e.delta < 0 ? "Removed " : ""}
+            {statLabel(e.key, stats)} <span className="pbpTally">({tally})</span>
+          </div>
+          <div className="pbpPts">{pts} PTS</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export const STAT_TILE_CSS = `
+        /* --- STAT TILES (two horizontal rows, 7 across) --- */
+        .statTilesWrap { margin-top: 14px; }
+
+        .statTilesRow {
+          display: grid !important;
+          grid-template-columns: repeat(7, minmax(0, 1fr)) !important;
+          gap: 10px;
+          align-items: stretch;
+        }
+
+        .statTilesRow2 { margin-top: 10px; }
+
+        .statTilesRow > * {
+          width: auto !important;
+          min-width: 0 !important;
+        }
+
+        @media (max-width: 900px) {
+          .statTilesRow { grid-template-columns: repeat(4, minmax(0, 1fr)) !important; }
+        }
+
+        @media (max-width: 520px) {
+          .statTilesRow { grid-template-columns: repeat(3, minmax(0, 1fr)) !important; }
+        }
+
+        .chip{
+          border: 1px solid var(--line);
+          border-radius: 14px;
+          padding: 10px 10px;
+          background: #fff;
+          min-height: 54px;
+          display:flex;
+          flex-direction:column;
+          justify-content:center;
+        }
+
+        .chipLabel{
+          font-size: 10px;
+          letter-spacing: .12em;
+          text-transform: uppercase;
+          color: rgba(0,0,0,.55);
+          white-space: nowrap;
+        }
+
+        .chipValue{
+          margin-top: 2px;
+          font-size: 18px;
+          font-weight: 800;
+          white-space: nowrap;
+        }
+
+        .pbpList{
+          margin-top: 10px;
+          max-height: 240px;
+          overflow-y: auto;
+          border: 1px solid var(--line);
+          border-radius: 12px;
+        }
+
+        .pbpRow{
+          display:grid;
+          grid-template-columns: auto auto 1fr auto;
+          gap: 10px;
+          padding: 8px 10px;
+          font-size: 12px;
+          border-bottom: 1px solid var(--line);
+        }
+        .pbpRow:last-child{ border-bottom: 0; }
+
+        .pbpTime{ color: rgba(0,0,0,.55); font-variant-numeric: tabular-nums; }
+        .pbpPeriod{ font-weight: 800; }
+        .pbpTally{ color: rgba(0,0,0,.55); }
+        .pbpPts{ font-weight: 800; font-variant-numeric: tabular-nums; }
+
+        .pbpFix{
+          margin-right: 6px;
+          padding: 1px 6px;
+          border-radius: 999px;
+          background: rgba(208,72,46,.12);
+          color: var(--bad);
+          font-size: 10px;
+          font-weight: 800;
+        }
+
+        .pbpEmpty{
+          margin-top: 10px;
+          font-size: 12px;
+          color: rgba(0,0,0,.55);
+        }
+`;
@@ -0,0 +1,112 @@
+"use client";
+
+import React from "react";
+import { pendingCount } from "../lib/syncClient";
+import type { SyncState } from "../lib/syncClient";
+import type { TeamSession } from "../lib/teams";
+import TeamPanel from "./TeamPanel";
+
+/**
+ * Sync screen
+ * - Turn syncing with this app's server (/api/games, /api/players) on or off
+ * - Shows what's waiting to go up and when the last sync finished; everything still works offline
+ * - Team: sync a shared team space instead of this device's own (see TeamPanel)
+ */
+
+export function syncStatus(sync: SyncState | null, syncing: boolean, online: boolean) {
+  if (!sync?.enabled) return "Sync is off — games are stored on this device only.";
+  const waiting = sync.team?.role === "viewer" ? 0 : pendingCount(sync);
+  if (syncing) return "Syncing…";
+  if (!online) return `Offline — ${waiting} change${waiting === 1 ? "" : "s"} will sync when you're back online.`;
+  if (sync.lastError) return `Couldn't reach the sync server (${sync.lastError}). ${waiting} waiting; retrying.`;
+  if (waiting) return `${waiting} change${waiting === 1 ? "" : "s"} waiting to sync.`;
+  return sync.lastSyncAt
+    ? `Synced ${new Date(sync.lastSyncAt).toLocaleTimeString([], { timeStyle: "short" })}.`
+    : "Waiting for the first sync.";
+}
+
+export default function SyncPanel({
+  sync,
+  syncing,
+  online,
+  onToggle,
+  onSyncNow,
+  onTeam,
+  onClose,
+}: {
+  sync: SyncState | null;
+  syncing: boolean;
+  online: boolean;
+  onToggle: (on: boolean) => void;
+  onSyncNow: () => void;
+  onTeam: (next: TeamSession | null) => void;
+  onClose: () => void;
+}) {
+  const enabled = !!sync?.enabled;
+
+  return (
+    <div className="card syncCard">
+      <div className="cardHeader">
+        <div>
+          <div className="cardTitle">Sync</div>
+          <div className="cardHint">Keep games and the roster in step across devices using this app&apos;s server</div>
+        </div>
+        <button className="primaryBtn" onClick={onClose} type="button">
+          Done
+        </button>
+      </div>
+
+      <label className="syncToggle">
+        <input type="checkbox" checked={enabled} disabled={!sync} onChange={(e) => onToggle(e.target.checked)} />
+        {sync?.team ? `Sync with ${sync.team.teamName}` : "Sync this device"}
+      </label>
+
+      <div className={"syncStatus " + (enabled && sync?.lastError ? "syncStatusBad" : "")} role="status">
+        {syncStatus(sync, syncing, online)}
+      </div>
+
+      {enabled ? (
+        <button
+          className="miniBtn"
+          style={{ marginTop: 10 }}
+          onClick={onSyncNow}
+          type="button"
+          disabled={syncing || !online}
+        >
+          Sync now
+        </button>
+      ) : null}
+
+      <div className="microHint" style={{ marginTop: 14 }}>
+        Changes are saved on this device first and sent when the server can be reached. If the same game is changed
+        on two devices, the later change wins; deleting a game removes it everywhere.
+      </div>
+
+      {sync ? <TeamPanel session={sync.team} online={online} onSession={onTeam} /> : null}
+
+      <style>{`
+        .syncCard{ max-width: 1120px; margin: 0 auto; }
+
+        .syncToggle{
+          margin-top: 4px;
+          display:flex;
+          gap: 8px;
+          align-items:center;
+          font-size: 14px;
+          font-weight: 700;
+        }
+
+        .syncStatus{
+          margin-top: 10px;
+          border: 1px solid var(--line);
+          border-radius: 12px;
+          padding: 10px 12px;
+          font-size: 13px;
+        }
+        .syncStatusBad{ border-color: var(--bad); background: rgba(208,72,46,.06); }
+
+        .miniBtn:disabled{ opacity: .45; cursor: not-allowed; }
+      `}</style>
+    </div>
+  );
+}
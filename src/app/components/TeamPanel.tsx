@@ -0,0 +1,361 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { teamApi } from "../lib/teamClient";
+import { NOT_A_MEMBER, ROLES, ROLE_LABELS, canManage } from "../lib/teams";
+import type { FeedItem, Invite, Role, TeamSession, TeamView } from "../lib/teams";
+
+/**
+ * Team section of the Sync screen
+ * - Create a team (you're the owner) or join one with an invite code
+ * - Owners hand out statistician / viewer codes, change roles and remove members
+ * - Everyone sees the members and the team's latest games; anyone can leave
+ */
+
+function JoinForms({ online, onJoined }: { online: boolean; onJoined: (s: TeamSession) => void }) {
+  const [memberName, setMemberName] = useState<string>("");
+  const [teamName, setTeamName] = useState<string>("");
+  const [code, setCode] = useState<string>("");
+  const [busy, setBusy] = useState<boolean>(false);
+  const [problem, setProblem] = useState<string>("");
+
+  const run = async (fn: () => Promise<{ session: TeamSession }>) => {
+    setBusy(true);
+    setProblem("");
+    try {
+      onJoined((await fn()).session);
+    } catch (err) {
+      setProblem((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const api = teamApi(null);
+  const disabled = busy || !online;
+
+  return (
+    <>
+      <div className="microHint" style={{ marginTop: 4 }}>
+        A team shares one set of games and one roster between everyone who tracks or follows it.
+      </div>
+      <div className="field" style={{ marginTop: 10 }}>
+        <div className="label">YOUR NAME</div>
+        <input
+          className="input"
+          value={memberName}
+          onChange={(e) => setMemberName(e.target.value)}
+          placeholder="e.g., Sam (Jordan's mom)"
+        />
+      </div>
+
+      <div className="teamForms">
+        <div>
+          <div className="label">JOIN WITH A CODE</div>
+          <div className="teamRow">
+            <input
+              className="input teamCodeInput"
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              placeholder="ABC234"
+              aria-label="Invite code"
+            />
+            <button className="primaryBtn" onClick={() => run(() => api.join(code, memberName))} type="button" disabled={disabled}>
+              Join
+            </button>
+          </div>
+        </div>
+        <div>
+          <div className="label">OR START A TEAM</div>
+          <div className="teamRow">
+            <input
+              className="input"
+              value={teamName}
+              onChange={(e) => setTeamName(e.target.value)}
+              placeholder="e.g., Fly Academy 14U"
+              aria-label="Team name"
+            />
+            <button className="miniBtn" onClick={() => run(() => api.create(teamName, memberName))} type="button" disabled={disabled}>
+              Create
+            </button>
+          </div>
+        </div>
+      </div>
+      {!online ? <div className="microHint">Joining a team needs a connection.</div> : null}
+      {problem ? <div className="teamProblem">{problem}</div> : null}
+    </>
+  );
+}
+
+function TeamBody({
+  session,
+  online,
+  onSession,
+}: {
+  session: TeamSession | null;
+  online: boolean;
+  onSession: (next: TeamSession | null) => void;
+}) {
+  const [team, setTeam] = useState<TeamView | null>(null);
+  const [feed, setFeed] = useState<FeedItem[]>([]);
+  const [problem, setProblem] = useState<string>("");
+  const [gone, setGone] = useState<boolean>(false);
+  const api = useMemo(() => teamApi(session), [session]);
+
+  // Refresh on open (and after joining): members may have changed, and so may our role
+  useEffect(() => {
+    if (!session || !online) return;
+    let cancelled = false;
+    Promise.all([api.team(), api.feed()])
+      .then(([t, f]) => {
+        if (cancelled) return;
+        setTeam(t.team);
+        setFeed(f.items);
+        setGone(false);
+        if (t.team.role !== session.role || t.team.name !== session.teamName) {
+          onSession({ ...session, role: t.team.role, teamName: t.team.name });
+        }
+      })
+      .catch((err: Error) => {
+        if (cancelled) return;
+        setProblem(err.message);
+        setGone(err.message === NOT_A_MEMBER);
+      });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [api, online]);
+
+  if (!session) return <JoinForms online={online} onJoined={onSession} />;
+
+  const act = async (fn: () => Promise<{ team: TeamView | null }>) => {
+    setProblem("");
+    try {
+      const out = await fn();
+      if (!out.team) return;
+      setTeam(out.team);
+      // An owner can hand the role on, and with it their own
+      if (out.team.role !== session.role) onSession({ ...session, role: out.team.role });
+    } catch (err) {
+      setProblem((err as Error).message);
+    }
+  };
+
+  const leave = async () => {
+    const ok = window.confirm(
+      `Leave ${session.teamName}?\n\nThe team's games stay on this phone only; they aren't uploaded anywhere else.`
+    );
+    if (!ok) return;
+    if (!gone) {
+      try {
+        await api.remove(session.memberId);
+      } catch (err) {
+        setProblem((err as Error).message);
+        return;
+      }
+    }
+    onSession(null);
+  };
+
+  const owner = canManage(session.role);
+
+  return (
+    <>
+      <div className="teamHead">
+        <div>
+          <div className="teamName">{session.teamName}</div>
+          <div className="microHint">
+            You&apos;re {session.memberName} • {ROLE_LABELS[session.role]}
+            {session.role === "viewer" ? " (read only)" : ""}
+          </div>
+        </div>
+        <button className="miniBtn" onClick={leave} type="button">
+          Leave team
+        </button>
+      </div>
+
+      {problem ? <div className="teamProblem">{problem}</div> : null}
+
+      {team ? (
+        <>
+          <div className="sectionHeader" style={{ marginTop: 14 }}>
+            Members
+          </div>
+          <div className="teamList">
+            {team.members.map((m) => (
+              <div key={m.id} className="teamItem">
+                <span className="teamItemName">
+                  {m.name}
+                  {m.id === session.memberId ? " (you)" : ""}
+                </span>
+                {owner ? (
+                  <>
+                    <select
+                      className="select teamRole"
+                      value={m.role}
+                      onChange={(e) => act(() => api.setRole(m.id, e.target.value as Role))}
+                      aria-label={`Role for ${m.name}`}
+                    >
+                      {ROLES.map((r) => (
+                        <option key={r} value={r}>
+                          {ROLE_LABELS[r]}
+                        </option>
+                      ))}
+                    </select>
+                    {m.id !== session.memberId ? (
+                      <button className="miniBtn" onClick={() => act(() => api.remove(m.id))} type="button">
+                        Remove
+                      </button>
+                    ) : null}
+                  </>
+                ) : (
+                  <span className="teamRoleTag">{ROLE_LABELS[m.role]}</span>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {owner ? (
+            <>
+              <div className="sectionHeader" style={{ marginTop: 14 }}>
+                Invite codes
+              </div>
+              <div className="microHint" style={{ marginTop: 4 }}>
+                Codes keep working until you revoke them, so one code can go to every parent.
+              </div>
+              <div className="teamRow" style={{ marginTop: 8 }}>
+                {(["statistician", "viewer"] as Invite["role"][]).map((r) => (
+                  <button key={r} className="miniBtn" onClick={() => act(() => api.invite(r))} type="button">
+                    New {ROLE_LABELS[r].toLowerCase()} code
+                  </button>
+                ))}
+              </div>
+              {team.invites.length ? (
+                <div className="teamList">
+                  {team.invites.map((i) => (
+                    <div key={i.code} className="teamItem">
+                      <span className="teamCode">{i.code}</span>
+                      <span className="teamRoleTag">{ROLE_LABELS[i.role]}</span>
+                      <button className="miniBtn" onClick={() => act(() => api.revoke(i.code))} type="button">
+                        Revoke
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+            </>
+          ) : null}
+
+          <div className="sectionHeader" style={{ marginTop: 14 }}>
+            Latest team games
+          </div>
+          {feed.length ? (
+            <div className="teamList">
+              {feed.map((f) => (
+                <div key={f.id} className="teamItem">
+                  <span className="teamItemName">
+                    {f.playerName} • {f.date}
+                    {f.opponent ? ` vs ${f.opponent}` : ""}
+                  </span>
+                  <span className="microHint">
+                    {f.result && f.score ? `${f.result} ${f.score.team}-${f.score.opponent} • ` : ""}
+                    PTS {f.pts} • REB {f.reb} • AST {f.ast}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="emptyBox">No team games yet.</div>
+          )}
+        </>
+      ) : !problem ? (
+        <div className="microHint" style={{ marginTop: 10 }}>
+          {online ? "Loading team…" : "Team details show up when you're back online."}
+        </div>
+      ) : null}
+    </>
+  );
+}
+
+export default function TeamPanel(props: {
+  session: TeamSession | null;
+  online: boolean;
+  onSession: (next: TeamSession | null) => void;
+}) {
+  return (
+    <div className="teamPanel">
+      <div className="sectionHeader">Team</div>
+      <TeamBody {...props} />
+
+      <style>{`
+        .teamPanel{
+          margin-top: 18px;
+          border-top: 1px solid var(--line);
+          padding-top: 12px;
+        }
+
+        .teamForms{
+          margin-top: 10px;
+          display:grid;
+          grid-template-columns: 1fr 1fr;
+          gap: 12px;
+        }
+        @media (max-width: 620px){
+          .teamForms{ grid-template-columns: 1fr; }
+        }
+
+        .teamRow{
+          display:flex;
+          gap: 8px;
+          align-items:center;
+          flex-wrap: wrap;
+        }
+        .teamRow .input{ flex: 1; min-width: 0; }
+        .teamCodeInput{ letter-spacing: .12em; font-weight: 800; }
+
+        .teamProblem{
+          margin-top: 10px;
+          border: 1px solid var(--bad);
+          background: rgba(208,72,46,.06);
+          border-radius: 12px;
+          padding: 10px 12px;
+          font-size: 13px;
+        }
+
+        .teamHead{
+          display:flex;
+          align-items:center;
+          justify-content:space-between;
+          gap: 10px;
+          flex-wrap: wrap;
+        }
+        .teamName{ font-size: 16px; font-weight: 900; }
+
+        .teamList{ margin-top: 8px; display:grid; gap: 6px; }
+        .teamItem{
+          display:flex;
+          align-items:center;
+          gap: 8px;
+          flex-wrap: wrap;
+          border: 1px solid var(--line);
+          border-radius: 12px;
+          padding: 8px 10px;
+          font-size: 13px;
+        }
+        .teamItemName{ flex: 1; min-width: 140px; font-weight: 700; }
+        .teamRole{ width: auto; padding: 6px 8px; }
+        .teamRoleTag{
+          font-size: 11px;
+          font-weight: 800;
+          letter-spacing: .06em;
+          text-transform: uppercase;
+          color: rgba(0,0,0,.6);
+        }
+        .teamCode{ flex: 1; font-weight: 900; letter-spacing: .16em; font-size: 15px; }
+
+        .primaryBtn:disabled{ opacity: .45; cursor: not-allowed; }
+      `}</style>
+    </div>
+  );
+}
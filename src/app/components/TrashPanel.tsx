@@ -0,0 +1,94 @@
+"use client";
+
+import React from "react";
+import { TRASH_RETENTION_DAYS, daysLeftInTrash } from "../lib/trash";
+import type { GameEntry } from "../lib/types";
+
+/**
+ * Trash (Player Log)
+ * - Deleted games wait here for TRASH_RETENTION_DAYS, then purge on load
+ * - Restore puts a game back; "Delete forever" / "Empty trash" purge immediately
+ */
+
+export default function TrashPanel({
+  games,
+  playerName,
+  onRestore,
+  onPurge,
+  onEmpty,
+}: {
+  games: GameEntry[];
+  playerName: (g: GameEntry) => string;
+  onRestore: (id: string) => void;
+  onPurge: (id: string) => void;
+  onEmpty: () => void;
+}) {
+  const sorted = [...games].sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0));
+
+  const confirmPurge = (g: GameEntry) => {
+    const ok = window.confirm(`Permanently delete ${playerName(g)} • ${g.date}?\n\nThis can't be undone.`);
+    if (ok) onPurge(g.id);
+  };
+
+  const confirmEmpty = () => {
+    const ok = window.confirm(`Permanently delete all ${games.length} games in Trash?\n\nThis can't be undone.`);
+    if (ok) onEmpty();
+  };
+
+  return (
+    <div className="trashBox">
+      <div className="trashTop">
+        <div className="microHint" style={{ marginTop: 0 }}>
+          Deleted games are kept for {TRASH_RETENTION_DAYS} days.
+        </div>
+        {games.length ? (
+          <button className="miniBtn" onClick={confirmEmpty} type="button">
+            Empty trash
+          </button>
+        ) : null}
+      </div>
+
+      {sorted.length === 0 ? (
+        <div className="emptyBox">Trash is empty.</div>
+      ) : (
+        <div className="gamesList">
+          {sorted.map((g) => {
+            const left = daysLeftInTrash(g);
+            return (
+              <div key={g.id} className="gameCard">
+                <div className="gameTop">
+                  <div className="gameTitle">
+                    {playerName(g)} • {g.date}
+                  </div>
+                  <div className="gameActions">
+                    <button className="miniBtn" onClick={() => onRestore(g.id)} type="button">
+                      Restore
+                    </button>
+                    <button className="miniBtn" onClick={() => confirmPurge(g)} type="button">
+                      Delete forever
+                    </button>
+                  </div>
+                </div>
+                <div className="gameMeta">
+                  {g.opponent ? `vs ${g.opponent} • ` : ""}
+                  {left === 1 ? "1 day left" : `${left} days left`}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <style>{`
+        .trashBox{ margin-top: 10px; }
+
+        .trashTop{
+          display:flex;
+          align-items:center;
+          justify-content:space-between;
+          gap: 10px;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { TREND_METRICS, trendSeries } from "../lib/stats";
+import type { TrendKey, TrendPoint } from "../lib/stats";
+import type { GameEntry } from "../lib/types";
+
+/**
+ * Trend chart for the Player Log (SVG, drawn on the device)
+ * - One bar per game, oldest on the left; pick PTS / REB / AST / TO / FG% / 3P% / FT%
+ * - Lines for the last-3 and last-5 game rolling averages, dashed marker for the average over all shown games
+ */
+
+const W = 640;
+const H = 240;
+const PAD = { left: 34, right: 12, top: 14, bottom: 30 };
+const PLOT_W = W - PAD.left - PAD.right;
+const PLOT_H = H - PAD.top - PAD.bottom;
+
+// Round the axis up to 1 / 2 / 5 × 10^n so the gridlines land on readable numbers
+function niceMax(v: number) {
+  if (v <= 0) return 1;
+  const mag = 10 ** Math.floor(Math.log10(v));
+  const step = [1, 2, 5, 10].find((s) => s * mag >= v) ?? 10;
+  return step * mag;
+}
+
+function shortDate(iso: string) {
+  const [, m, d] = iso.split("-");
+  return m && d ? `${Number(m)}/${Number(d)}` : iso;
+}
+
+// Breaks the line where a game has no value (e.g. no 3s attempted)
+function linePath(
+  points: TrendPoint[],
+  pick: (p: TrendPoint) => number | null,
+  x: (i: number) => number,
+  y: (v: number) => number
+) {
+  let d = "";
+  let pen = false;
+  points.forEach((p, i) => {
+    const v = pick(p);
+    if (v === null) {
+      pen = false;
+      return;
+    }
+    d += `${pen ? "L" : "M"} ${x(i).toFixed(1)} ${y(v).toFixed(1)} `;
+    pen = true;
+  });
+  return d.trim();
+}
+
+export default function TrendChart({ games }: { games: GameEntry[] }) {
+  const [metric, setMetric] = useState<TrendKey>("pts");
+  const m = TREND_METRICS.find((t) => t.key === metric) ?? TREND_METRICS[0];
+  const { points, seasonAvg } = useMemo(() => trendSeries(games, metric), [games, metric]);
+
+  if (points.length < 2) {
+    return <div className="emptyBox">Save at least two games to see trends.</div>;
+  }
+
+  const max = m.pct ? 100 : niceMax(Math.max(...points.map((p) => p.value ?? 0)));
+  const slot = PLOT_W / points.length;
+  const x = (i: number) => PAD.left + slot * (i + 0.5);
+  const y = (v: number) => PAD.top + PLOT_H - (v / max) * PLOT_H;
+  const fmt = (v: number | null) => (v === null ? "—" : m.pct ? `${v.toFixed(1)}%` : v.toFixed(1));
+  const labelEvery = Math.ceil(points.length / 8);
+
+  return (
+    <div className="trendChart">
+      <div className="trendPicker">
+        {TREND_METRICS.map((t) => (
+          <button
+            key={t.key}
+            className={"periodChip " + (t.key === metric ? "periodChipActive" : "")}
+            onClick={() => setMetric(t.key)}
+            type="button"
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      <svg viewBox={`0 0 ${W} ${H}`} className="trendSvg" role="img" aria-label={`${m.label} by game`}>
+        {[0, 0.5, 1].map((f) => (
+          <g key={f}>
+            <line x1={PAD.left} x2={W - PAD.right} y1={y(max * f)} y2={y(max * f)} className="trendGrid" />
+            <text x={PAD.left - 6} y={y(max * f) + 4} className="trendAxis" textAnchor="end">
+              {m.pct ? `${max * f}%` : max * f}
+            </text>
+          </g>
+        ))}
+
+        {points.map((p, i) => (
+          <g key={p.id}>
+            {p.value !== null ? (
+              <rect
+                x={x(i) - Math.min(slot * 0.3, 14)}
+                y={y(p.value)}
+                width={Math.min(slot * 0.6, 28)}
+                height={Math.max(0, PAD.top + PLOT_H - y(p.value))}
+                className="trendBar"
+              >
+                <title>
+                  {p.date}
+                  {p.opponent ? ` vs ${p.opponent}` : ""}: {fmt(p.value)}
+                </title>
+              </rect>
+            ) : null}
+            {i % labelEvery === 0 || i === points.length - 1 ? (
+              <text x={x(i)} y={H - 10} className="trendAxis" textAnchor="middle">
+                {shortDate(p.date)}
+              </text>
+            ) : null}
+          </g>
+        ))}
+
+        <path d={linePath(points, (p) => p.avg3, x, y)} className="trendLine trendLine3" />
+        <path d={linePath(points, (p) => p.avg5, x, y)} className="trendLine trendLine5" />
+        {seasonAvg !== null ? (
+          <line x1={PAD.left} x2={W - PAD.right} y1={y(seasonAvg)} y2={y(seasonAvg)} className="trendAvg" />
+        ) : null}
+      </svg>
+
+      <div className="trendLegend">
+        <span>
+          <i className="trendKey trendKeyBar" /> Game
+        </span>
+        <span>
+          <i className="trendKey trendKey3" /> Last 3: {fmt(points[points.length - 1].avg3)}
+        </span>
+        <span>
+          <i className="trendKey trendKey5" /> Last 5: {fmt(points[points.length - 1].avg5)}
+        </span>
+        <span>
+          <i className="trendKey trendKeyAvg" /> Average: {fmt(seasonAvg)}
+        </span>
+      </div>
+
+      <style>{`
+        .trendChart{ margin-top: 10px; }
+
+        .trendPicker{ display:flex; gap: 6px; flex-wrap: wrap; }
+
+        .trendSvg{
+          display:block;
+          width: 100%;
+          margin-top: 8px;
+          border: 1px solid var(--line);
+          border-radius: 12px;
+          background: #fff;
+        }
+
+        .trendGrid{ stroke: rgba(0,0,0,.08); stroke-width: 1; }
+        .trendAxis{ font-size: 11px; fill: rgba(0,0,0,.5); font-variant-numeric: tabular-nums; }
+        .trendBar{ fill: rgba(126,166,191,.55); }
+        .trendLine{ fill: none; stroke-width: 2.5; stroke-linejoin: round; stroke-linecap: round; }
+        .trendLine3{ stroke: var(--good); }
+        .trendLine5{ stroke: var(--bad); }
+        .trendAvg{ stroke: var(--ink); stroke-width: 1.5; stroke-dasharray: 6 5; opacity: .7; }
+
+        .trendLegend{
+          margin-top: 6px;
+          display:flex;
+          gap: 14px;
+          flex-wrap: wrap;
+          font-size: 12px;
+          color: rgba(0,0,0,.65);
+        }
+
+        .trendKey{
+          display:inline-block;
+          width: 14px;
+          height: 3px;
+          margin-right: 4px;
+          vertical-align: middle;
+        }
+        .trendKeyBar{ height: 10px; background: rgba(126,166,191,.55); }
+        .trendKey3{ background: var(--good); }
+        .trendKey5{ background: var(--bad); }
+        .trendKeyAvg{ background: repeating-linear-gradient(90deg, var(--ink) 0 4px, transparent 4px 7px); }
+      `}</style>
+    </div>
+  );
+}
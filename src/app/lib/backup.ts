@@ -0,0 +1,190 @@
+import { findPlayerByName } from "./roster";
+import { normalizeSettings } from "./settings";
+import type { AppSettings } from "./settings";
+import { SCHEMA_VERSION, migrateRecords, validateGame, validatePlayer, validateSeason } from "./storage";
+import type { GameEntry, Player, Season } from "./types";
+
+/**
+ * Full JSON backup / restore
+ * - Backup = games (incl. Trash), roster, seasons, settings, stamped with versions
+ * - Restore merges by id: new records are added, identical ones skipped, and games that
+ *   differ are returned as conflicts for the user to settle (never silently overwritten)
+ */
+
+export const BACKUP_VERSION = 1;
+const BACKUP_APP = "fly-stat-tracker";
+
+export type Backup = {
+  app: typeof BACKUP_APP;
+  backupVersion: number;
+  schemaVersion: number;
+  exportedAt: number;
+  games: GameEntry[];
+  players: Player[];
+  seasons: Season[];
+  settings: AppSettings;
+};
+
+export type LocalData = {
+  games: GameEntry[];
+  players: Player[];
+  seasons: Season[];
+};
+
+export type GameConflict = {
+  id: string;
+  mine: GameEntry;
+  theirs: GameEntry;
+};
+
+export type RestorePlan = {
+  addGames: GameEntry[];
+  sameGames: number;
+  conflicts: GameConflict[];
+  addPlayers: Player[];
+  // backup player id -> local player id (same name under a different id)
+  playerIdMap: Record<string, string>;
+  addSeasons: Season[];
+  skipped: number; // records in the file that failed validation
+  settings: AppSettings;
+};
+
+export type ConflictChoice = "mine" | "theirs";
+
+export function buildBackup(data: LocalData, settings: AppSettings): Backup {
+  return {
+    app: BACKUP_APP,
+    backupVersion: BACKUP_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    games: data.games,
+    players: data.players,
+    seasons: data.seasons,
+    settings,
+  };
+}
+
+/** Parse + validate a backup file. Returns an error message instead of throwing. */
+export function parseBackup(text: string): { backup: Backup; skipped: number } | { error: string } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { error: "That file isn't valid JSON." };
+  }
+  if (!raw || typeof raw !== "object") return { error: "That file isn't a Fly Stat Tracker backup." };
+
+  const b = raw as Record<string, unknown>;
+  if (b.app !== BACKUP_APP) return { error: "That file isn't a Fly Stat Tracker backup." };
+  if (typeof b.backupVersion !== "number" || b.backupVersion > BACKUP_VERSION) {
+    return { error: "This backup was made by a newer version of the app. Update, then try again." };
+  }
+  const schemaVersion = typeof b.schemaVersion === "number" ? b.schemaVersion : SCHEMA_VERSION;
+  if (schemaVersion > SCHEMA_VERSION) {
+    return { error: "This backup was made by a newer version of the app. Update, then try again." };
+  }
+
+  let skipped = 0;
+  const games: GameEntry[] = [];
+  migrateRecords(Array.isArray(b.games) ? b.games : [], schemaVersion).forEach((g) => {
+    const res = validateGame(g);
+    if (typeof res === "string") skipped++;
+    else games.push(res);
+  });
+
+  const players: Player[] = [];
+  (Array.isArray(b.players) ? b.players : []).forEach((p) => {
+    const res = validatePlayer(p);
+    if (typeof res === "string") skipped++;
+    else players.push(res);
+  });
+
+  const seasons: Season[] = [];
+  (Array.isArray(b.seasons) ? b.seasons : []).forEach((s) => {
+    const res = validateSeason(s);
+    if (typeof res === "string") skipped++;
+    else seasons.push(res);
+  });
+
+  return {
+    backup: {
+      app: BACKUP_APP,
+      backupVersion: b.backupVersion,
+      schemaVersion,
+      exportedAt: typeof b.exportedAt === "number" ? b.exportedAt : 0,
+      games,
+      players,
+      seasons,
+      settings: normalizeSettings(b.settings),
+    },
+    skipped,
+  };
+}
+
+// Key-order-independent JSON, so two copies of the same game compare equal
+function stable(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(stable).join(",")}]`;
+  if (v && typeof v === "object") {
+    const o = v as Record<string, unknown>;
+    return `{${Object.keys(o)
+      .filter((k) => o[k] !== undefined)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stable(o[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(v);
+}
+
+export function planRestore(local: LocalData, backup: Backup, skipped = 0): RestorePlan {
+  // Roster first: same id -> same player; same name under another id -> the local player
+  const localPlayerIds = new Set(local.players.map((p) => p.id));
+  const playerIdMap: Record<string, string> = {};
+  const addPlayers: Player[] = [];
+  backup.players.forEach((p) => {
+    if (localPlayerIds.has(p.id)) return;
+    const match = findPlayerByName([...local.players, ...addPlayers], p.name);
+    if (match) playerIdMap[p.id] = match.id;
+    else addPlayers.push(p);
+  });
+
+  const remap = (g: GameEntry): GameEntry =>
+    g.playerId && playerIdMap[g.playerId] ? { ...g, playerId: playerIdMap[g.playerId] } : g;
+
+  const localGames = new Map(local.games.map((g) => [g.id, g]));
+  const addGames: GameEntry[] = [];
+  const conflicts: GameConflict[] = [];
+  let sameGames = 0;
+  backup.games.map(remap).forEach((theirs) => {
+    const mine = localGames.get(theirs.id);
+    if (!mine) addGames.push(theirs);
+    else if (stable(mine) === stable(theirs)) sameGames++;
+    else conflicts.push({ id: theirs.id, mine, theirs });
+  });
+
+  const localSeasonIds = new Set(local.seasons.map((s) => s.id));
+  const addSeasons = backup.seasons.filter((s) => !localSeasonIds.has(s.id));
+
+  return { addGames, sameGames, conflicts, addPlayers, playerIdMap, addSeasons, skipped, settings: backup.settings };
+}
+
+export function applyRestore(
+  local: LocalData,
+  plan: RestorePlan,
+  choices: Record<string, ConflictChoice>
+): LocalData {
+  const takeTheirs = new Map(
+    plan.conflicts.filter((c) => choices[c.id] === "theirs").map((c) => [c.id, c.theirs])
+  );
+
+  return {
+    games: [...local.games.map((g) => takeTheirs.get(g.id) ?? g), ...plan.addGames],
+    players: [...local.players, ...plan.addPlayers],
+    seasons: [...local.seasons, ...plan.addSeasons],
+  };
+}
+
+/** The more recently touched copy (latest edit, else save time) — the default pick. */
+export function newerCopy(c: GameConflict): ConflictChoice {
+  const touched = (g: GameEntry) => Math.max(g.createdAt, g.deletedAt ?? 0, ...(g.edits ?? []).map((e) => e.at));
+  return touched(c.theirs) > touched(c.mine) ? "theirs" : "mine";
+}
@@ -0,0 +1,91 @@
+/**
+ * Game clock + minutes played
+ * - The clock counts game time in the current period; it only moves while running
+ * - Players on the floor accrue that game time; subbing out stops their minutes
+ * - All functions are pure: they take the wall-clock "now" and return a new clock
+ */
+
+export type GameClock = {
+  elapsed: number; // game ms run in the current period, as of the last settle
+  runningSince: number | null; // wall-clock ms the clock was last started / settled while running
+  onCourt: string[]; // player keys on the floor
+  played: Record<string, number>; // game ms on the floor, by player key
+};
+
+// Player key for single-player mode (roster mode uses Player.id)
+export const SOLO_KEY = "solo";
+
+export const newClock = (onCourt: string[] = [SOLO_KEY]): GameClock => ({
+  elapsed: 0,
+  runningSince: null,
+  onCourt,
+  played: {},
+});
+
+/** Game ms elapsed in the period right now, capped at the period length. */
+export function clockElapsed(c: GameClock, lengthMs: number, now: number) {
+  const running = c.runningSince === null ? 0 : Math.max(0, now - c.runningSince);
+  return Math.min(lengthMs, c.elapsed + running);
+}
+
+// Fold the running time into elapsed + minutes; stops the clock once the period is over
+function settle(c: GameClock, lengthMs: number, now: number): GameClock {
+  if (c.runningSince === null) return c;
+  const elapsed = clockElapsed(c, lengthMs, now);
+  const delta = elapsed - c.elapsed;
+  const played = { ...c.played };
+  c.onCourt.forEach((k) => {
+    played[k] = (played[k] ?? 0) + delta;
+  });
+  return { ...c, elapsed, played, runningSince: elapsed >= lengthMs ? null : now };
+}
+
+export function startClock(c: GameClock, lengthMs: number, now: number): GameClock {
+  if (c.runningSince !== null || c.elapsed >= lengthMs) return c;
+  return { ...c, runningSince: now };
+}
+
+export function stopClock(c: GameClock, lengthMs: number, now: number): GameClock {
+  return { ...settle(c, lengthMs, now), runningSince: null };
+}
+
+/** Settles and stops when the period has run out; otherwise returns the same clock. */
+export function tickClock(c: GameClock, lengthMs: number, now: number): GameClock {
+  if (c.runningSince === null || clockElapsed(c, lengthMs, now) < lengthMs) return c;
+  return stopClock(c, lengthMs, now);
+}
+
+export function setOnCourt(c: GameClock, key: string, on: boolean, lengthMs: number, now: number): GameClock {
+  const settled = settle(c, lengthMs, now);
+  const onCourt = settled.onCourt.filter((k) => k !== key);
+  return { ...settled, onCourt: on ? [...onCourt, key] : onCourt };
+}
+
+/** New period: clock stopped and back to full; minutes so far are kept. */
+export function resetPeriod(c: GameClock, lengthMs: number, now: number): GameClock {
+  return { ...stopClock(c, lengthMs, now), elapsed: 0 };
+}
+
+export function playedMs(c: GameClock, key: string, lengthMs: number, now: number) {
+  const base = c.played[key] ?? 0;
+  if (c.runningSince === null || !c.onCourt.includes(key)) return base;
+  return base + clockElapsed(c, lengthMs, now) - c.elapsed;
+}
+
+/** Rename a player key (e.g. after a roster merge). */
+export function renameKey(c: GameClock, from: string, to: string): GameClock {
+  const played = { ...c.played };
+  if (played[from] !== undefined) {
+    played[to] = (played[to] ?? 0) + played[from];
+    delete played[from];
+  }
+  return { ...c, played, onCourt: Array.from(new Set(c.onCourt.map((k) => (k === from ? to : k)))) };
+}
+
+// 452000 -> "7:32"
+export function formatGameClock(ms: number) {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
+export const msToMinutes = (ms: number) => Math.round((ms / 60000) * 10) / 10;
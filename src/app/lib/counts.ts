@@ -0,0 +1,82 @@
+import type { CustomCounts, CustomKey, CustomStat, LiveCounts, StatKey } from "./types";
+import { makeId, slug } from "./util";
+
+export const statLabels: Record<keyof LiveCounts, string> = {
+  made2: "Made 2PT",
+  miss2: "Missed 2PT",
+  made3: "Made 3PT",
+  miss3: "Missed 3PT",
+  madeFT: "Made FT",
+  missFT: "Missed FT",
+  orb: "Off. Rebound",
+  drb: "Def. Rebound",
+  ast: "Assist",
+  to: "Turnover",
+  stl: "Steal",
+  blk: "Block",
+  pf: "Foul",
+};
+
+export const emptyCounts: LiveCounts = {
+  made2: 0,
+  miss2: 0,
+  made3: 0,
+  miss3: 0,
+  madeFT: 0,
+  missFT: 0,
+  orb: 0,
+  drb: 0,
+  ast: 0,
+  to: 0,
+  stl: 0,
+  blk: 0,
+  pf: 0,
+};
+
+export const COUNT_KEYS = Object.keys(emptyCounts) as (keyof LiveCounts)[];
+
+export const CUSTOM_PREFIX = "custom:";
+
+export function isCustomKey(key: string): key is CustomKey {
+  return key.startsWith(CUSTOM_PREFIX) && key.length > CUSTOM_PREFIX.length;
+}
+
+export function customStatKey(label: string): CustomKey {
+  return `${CUSTOM_PREFIX}${slug(label)}-${makeId().slice(-4)}`;
+}
+
+// Initials of up to three words ("Charge taken" -> "CT"), or the first four letters of one
+export function shortLabel(label: string) {
+  const words = label.trim().split(/\s+/).filter(Boolean);
+  if (words.length > 1) return words.slice(0, 3).map((w) => w[0]).join("").toUpperCase();
+  return (words[0] ?? "").slice(0, 4).toUpperCase();
+}
+
+/** Label for any stat key; custom stats are looked up in the given definitions. */
+export function statLabel(key: StatKey, defs: CustomStat[] = []) {
+  if (isCustomKey(key)) return defs.find((d) => d.key === key)?.label ?? key.slice(CUSTOM_PREFIX.length);
+  return statLabels[key];
+}
+
+// Keys with a non-zero count, for saving only what was used
+export function usedCustomKeys(c: CustomCounts | undefined) {
+  return (Object.keys(c ?? {}) as CustomKey[]).filter((k) => c?.[k]);
+}
+
+// Definitions come from settings and backups, so check them before they reach the UI
+const TONES = ["good", "bad", "neutral"];
+const SECTIONS = ["scoring", "hustle"];
+
+export function validCustomStat(v: unknown): v is CustomStat {
+  if (!v || typeof v !== "object") return false;
+  const d = v as Record<string, unknown>;
+  return (
+    typeof d.key === "string" &&
+    isCustomKey(d.key) &&
+    typeof d.label === "string" &&
+    !!d.label.trim() &&
+    typeof d.short === "string" &&
+    TONES.includes(d.tone as string) &&
+    SECTIONS.includes(d.section as string)
+  );
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { gamesCsv, toCsv } from "./csv";
+import { gameFixture } from "./fixtures";
+
+describe("toCsv", () => {
+  it("quotes commas, quotes and line breaks", () => {
+    expect(toCsv([["a,b", 'say "hi"', "two\nlines", 3, undefined]])).toBe('"a,b","say ""hi""","two\nlines",3,\r\n');
+  });
+
+  it("keeps text that looks like a formula from running in a spreadsheet", () => {
+    expect(toCsv([["=HYPERLINK(\"x\")", "+1", "-Hawks", "@sum", "ok"]])).toBe(
+      `"'=HYPERLINK(""x"")",'+1,'-Hawks,'@sum,ok\r\n`
+    );
+    // Numbers are numbers, even negative ones
+    expect(toCsv([[-2, 4.5]])).toBe("-2,4.5\r\n");
+  });
+
+  it("escapes names and notes in the games export", () => {
+    const game = gameFixture({ opponent: "=1+1", notes: "@coach" });
+    const row = gamesCsv([game], (g) => g.playerName).split("\r\n")[1];
+    expect(row).toContain(",'=1+1,");
+    expect(row.endsWith(",'@coach")).toBe(true);
+  });
+});
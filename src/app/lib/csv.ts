@@ -0,0 +1,171 @@
+import { COUNT_KEYS, statLabel, statLabels, usedCustomKeys } from "./counts";
+import { ADVANCED_METRICS, boxScore } from "./stats";
+import type { SeasonSummary } from "./stats";
+import type { CustomStat, GameEntry } from "./types";
+
+/**
+ * CSV export for the Player Log
+ * - One row per game (raw counts + derived PTS / FG% / 3P% / FT%, then any custom stats used)
+ * - Season summary (averages + totals) for the selected player
+ * Percentages are plain numbers (45.5, not "45.5%") so spreadsheets can do math on them.
+ * Covered by csv.test.ts.
+ */
+
+type Cell = string | number | undefined;
+
+function escapeCell(v: Cell) {
+  if (v === undefined) return "";
+  // Text that starts like a formula ("=HYPERLINK(…)" as an opponent name) gets a ' so spreadsheets show it as text
+  const s = typeof v === "string" && /^[=+\-@\t\r]/.test(v) ? `'${v}` : String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv(rows: Cell[][]) {
+  // CRLF per RFC 4180; Excel is happiest with it
+  return rows.map((r) => r.map(escapeCell).join(",")).join("\r\n") + "\r\n";
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+export function gamesCsv(games: GameEntry[], playerName: (g: GameEntry) => string, stats: CustomStat[] = []) {
+  const customKeys = Array.from(new Set(games.flatMap((g) => usedCustomKeys(g.custom))));
+  const header: Cell[] = [
+    "Date",
+    "Player",
+    "Jersey",
+    "Team",
+    "Opponent",
+    "Result",
+    "Team Score",
+    "Opp Score",
+    "MIN",
+    ...COUNT_KEYS.map((k) => statLabels[k]),
+    "PTS",
+    "FGM",
+    "FGA",
+    "FG%",
+    "3PM",
+    "3PA",
+    "3P%",
+    "FTM",
+    "FTA",
+    "FT%",
+    "REB",
+    ...customKeys.map((k) => statLabel(k, stats)),
+    "Notes",
+  ];
+
+  const rows = [...games]
+    .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt - b.createdAt)
+    .map((g): Cell[] => {
+      const b = boxScore(g.counts);
+      return [
+        g.date,
+        playerName(g),
+        g.jersey,
+        g.team,
+        g.opponent,
+        g.result,
+        g.score?.team,
+        g.score?.opponent,
+        g.minutes,
+        ...COUNT_KEYS.map((k) => g.counts[k] ?? 0),
+        b.pts,
+        b.fgm,
+        b.fga,
+        round1(b.fgPct),
+        b.tpm,
+        b.tpa,
+        round1(b.tpPct),
+        b.ftm,
+        b.fta,
+        round1(b.ftPct),
+        b.reb,
+        ...customKeys.map((k) => g.custom?.[k] ?? 0),
+        g.notes,
+      ];
+    });
+
+  return toCsv([header, ...rows]);
+}
+
+export function seasonCsv(player: string, s: SeasonSummary) {
+  const b = boxScore(s.total);
+  const rows: Cell[][] = [
+    [
+      "Player",
+      "GP",
+      "PPG",
+      "RPG",
+      "ORB/G",
+      "DRB/G",
+      "APG",
+      "TO/G",
+      "STL/G",
+      "BLK/G",
+      "PF/G",
+      "FG%",
+      "3P%",
+      "FT%",
+      ...ADVANCED_METRICS.map((m) => (m.key === "gameScore" ? `${m.label}/G` : m.label)),
+      "MPG",
+      `PTS/${s.perMinutes}`,
+      `REB/${s.perMinutes}`,
+      `AST/${s.perMinutes}`,
+      "PTS",
+      "FGM",
+      "FGA",
+      "3PM",
+      "3PA",
+      "FTM",
+      "FTA",
+      "REB",
+      "AST",
+      "TO",
+      "STL",
+      "BLK",
+      "PF",
+      ...s.custom.flatMap((c) => [`${c.label}/G`, c.label]),
+    ],
+    [
+      player,
+      s.games,
+      round1(s.ppg),
+      round1(s.rpg),
+      round1(s.orbg),
+      round1(s.drbg),
+      round1(s.apg),
+      round1(s.topg),
+      round1(s.stlg),
+      round1(s.blkg),
+      round1(s.pfpg),
+      round1(s.fgPct),
+      round1(s.tpPct),
+      round1(s.ftPct),
+      ...ADVANCED_METRICS.map((m) => {
+        const v = s.advanced[m.key];
+        if (v === null) return undefined;
+        return m.pct || m.key === "gameScore" ? round1(v) : Math.round(v * 100) / 100;
+      }),
+      s.timedGames ? round1(s.mpg) : undefined,
+      s.timedGames ? round1(s.ptsPer) : undefined,
+      s.timedGames ? round1(s.rebPer) : undefined,
+      s.timedGames ? round1(s.astPer) : undefined,
+      b.pts,
+      b.fgm,
+      b.fga,
+      b.tpm,
+      b.tpa,
+      b.ftm,
+      b.fta,
+      b.reb,
+      s.total.ast,
+      s.total.to,
+      s.total.stl,
+      s.total.blk,
+      s.total.pf,
+      ...s.custom.flatMap((c) => [round1(c.perGame), c.total]),
+    ],
+  ];
+  return toCsv(rows);
+}
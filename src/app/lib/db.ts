@@ -0,0 +1,283 @@
+import {
+  checkRecords,
+  loadStore,
+  saveGames,
+  savePlayers,
+  saveSeasons,
+  validateGame,
+  validatePlayer,
+  validateSeason,
+} from "./storage";
+import type { StorageProblem } from "./storage";
+import type { GameEntry, Player, Season } from "./types";
+
+/**
+ * IndexedDB storage + typed repositories
+ * - games (indexed by player, date, shared gameId), players, seasons
+ * - Writes are per record, so saving one game no longer rewrites the whole season
+ * - First run imports the localStorage store (migrated + validated by storage.ts)
+ * - Rows are validated on every load like the localStorage store; rejects go to the quarantine
+ * - Falls back to localStorage where IndexedDB has never worked (e.g. some private modes); once the data
+ *   lives here, a failure to open it is shown and nothing is saved, so the two stores never split
+ */
+
+const DB_NAME = "flyStatTracker";
+const DB_VERSION = 1;
+
+const IMPORT_FLAG = "importedLocalStorage";
+
+// Set in localStorage once IndexedDB holds the data; from then on the localStorage copy is stale
+const BACKEND_KEY = "flyStatTracker.backend";
+
+type MetaRow = { key: string; value: unknown };
+
+type StoreName = "games" | "players" | "seasons" | "meta";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function request<T>(r: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    r.onsuccess = () => resolve(r.result);
+    r.onerror = () => reject(r.error);
+  });
+}
+
+export function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+
+    open.onupgradeneeded = () => {
+      const db = open.result;
+      if (!db.objectStoreNames.contains("games")) {
+        const games = db.createObjectStore("games", { keyPath: "id" });
+        games.createIndex("byPlayer", "playerId");
+        games.createIndex("byDate", "date");
+        games.createIndex("byPlayerDate", ["playerId", "date"]);
+        games.createIndex("byGame", "gameId");
+      }
+      if (!db.objectStoreNames.contains("players")) {
+        db.createObjectStore("players", { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains("seasons")) {
+        const seasons = db.createObjectStore("seasons", { keyPath: "id" });
+        seasons.createIndex("byStart", "startDate");
+      }
+      if (!db.objectStoreNames.contains("meta")) {
+        db.createObjectStore("meta", { keyPath: "key" });
+      }
+    };
+
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+    open.onblocked = () => reject(new Error("IndexedDB upgrade blocked by another tab"));
+  });
+
+  // Let a later call retry if this one failed
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+async function readAll<T>(store: StoreName): Promise<T[]> {
+  const db = await openDb();
+  return request(db.transaction(store, "readonly").objectStore(store).getAll() as IDBRequest<T[]>);
+}
+
+async function readIndex<T>(store: StoreName, index: string, query: IDBValidKey | IDBKeyRange): Promise<T[]> {
+  const db = await openDb();
+  const idx = db.transaction(store, "readonly").objectStore(store).index(index);
+  return request(idx.getAll(query) as IDBRequest<T[]>);
+}
+
+// One readwrite transaction; resolves once it has committed
+async function write(store: StoreName, fn: (os: IDBObjectStore) => void): Promise<void> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, "readwrite");
+    fn(tx.objectStore(store));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function repo<T extends { id: string }>(store: StoreName) {
+  return {
+    all: () => readAll<T>(store),
+    get: async (id: string) => {
+      const db = await openDb();
+      return request(db.transaction(store, "readonly").objectStore(store).get(id) as IDBRequest<T | undefined>);
+    },
+    put: (item: T) => write(store, (os) => os.put(item)),
+    putMany: (items: T[]) => write(store, (os) => items.forEach((i) => os.put(i))),
+    remove: (id: string) => write(store, (os) => os.delete(id)),
+    removeMany: (ids: string[]) => write(store, (os) => ids.forEach((id) => os.delete(id))),
+  };
+}
+
+export const gamesRepo = {
+  ...repo<GameEntry>("games"),
+  byPlayer: (playerId: string) => readIndex<GameEntry>("games", "byPlayer", playerId),
+  // Inclusive YYYY-MM-DD bounds
+  byDateRange: (from: string, to: string) => readIndex<GameEntry>("games", "byDate", IDBKeyRange.bound(from, to)),
+  byPlayerDateRange: (playerId: string, from: string, to: string) =>
+    readIndex<GameEntry>("games", "byPlayerDate", IDBKeyRange.bound([playerId, from], [playerId, to])),
+  byGame: (gameId: string) => readIndex<GameEntry>("games", "byGame", gameId),
+};
+
+export const playersRepo = repo<Player>("players");
+
+export const seasonsRepo = {
+  ...repo<Season>("seasons"),
+  byStart: () => readIndex<Season>("seasons", "byStart", IDBKeyRange.lowerBound("")),
+};
+
+async function getMeta(key: string) {
+  const db = await openDb();
+  const row = await request(db.transaction("meta", "readonly").objectStore("meta").get(key) as IDBRequest<MetaRow | undefined>);
+  return row?.value;
+}
+
+function setMeta(key: string, value: unknown) {
+  return write("meta", (os) => os.put({ key, value } satisfies MetaRow));
+}
+
+export type Backend = "indexeddb" | "localStorage";
+
+export type AppData = {
+  backend: Backend;
+  games: GameEntry[];
+  players: Player[];
+  seasons: Season[];
+  problems: StorageProblem[];
+  writable: boolean;
+};
+
+// Rows that fail validation are set aside and deleted, so they're reported once; kept if the quarantine is full
+async function readChecked<T extends { id: string }>(
+  store: ReturnType<typeof repo<T>>,
+  source: string,
+  validate: (v: unknown) => T | string,
+  one: string,
+  many: string,
+  problems: StorageProblem[]
+): Promise<T[]> {
+  const res = checkRecords(await store.all(), source, validate, one, many);
+  if (res.problem) problems.push(res.problem);
+  if (res.setAside && res.rejected.length) {
+    await store.removeMany(res.rejected.map((r) => String((r as { id: unknown }).id)));
+  }
+  return res.items;
+}
+
+function hasUsedIndexedDb() {
+  try {
+    return localStorage.getItem(BACKEND_KEY) === "indexeddb";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Open the app's data. The first IndexedDB run copies in whatever localStorage holds;
+ * the localStorage copy is left as-is, but isn't written to again.
+ */
+export async function loadAppData(): Promise<AppData> {
+  let opened = false;
+  try {
+    await openDb();
+    opened = true;
+    let problems: StorageProblem[] = [];
+
+    if (!(await getMeta(IMPORT_FLAG))) {
+      const legacy = loadStore();
+      problems = legacy.problems;
+      // An unreadable / newer localStorage store stays un-imported so the next run can retry
+      if (legacy.writable) {
+        await gamesRepo.putMany(legacy.games);
+        await playersRepo.putMany(legacy.players);
+        await seasonsRepo.putMany(legacy.seasons);
+        await setMeta(IMPORT_FLAG, { at: Date.now(), games: legacy.games.length, players: legacy.players.length });
+      }
+    }
+
+    const games = await readChecked(gamesRepo, "indexeddb:games", validateGame, "saved game", "saved games", problems);
+    const players = await readChecked(
+      playersRepo,
+      "indexeddb:players",
+      validatePlayer,
+      "roster entry",
+      "roster entries",
+      problems
+    );
+    const seasons = await readChecked(seasonsRepo, "indexeddb:seasons", validateSeason, "season", "seasons", problems);
+    localStorage.setItem(BACKEND_KEY, "indexeddb");
+    return { backend: "indexeddb", games, players, seasons, problems, writable: true };
+  } catch (err) {
+    if (!opened && !hasUsedIndexedDb()) return { backend: "localStorage", ...loadStore() };
+    // The data is in IndexedDB: switching to the stale localStorage copy would split it across two stores
+    return {
+      backend: "indexeddb",
+      games: [],
+      players: [],
+      seasons: [],
+      problems: [
+        {
+          source: DB_NAME,
+          count: 0,
+          message: `Saved games couldn't be opened (${(err as Error)?.message || "unknown error"}). ` +
+            "Reload to try again; nothing will be saved until then.",
+        },
+      ],
+      writable: false,
+    };
+  }
+}
+
+/** Records added/changed (by reference) and ids removed between two snapshots of a collection. */
+export function diffById<T extends { id: string }>(prev: T[], next: T[]) {
+  const before = new Map(prev.map((x) => [x.id, x]));
+  const nextIds = new Set(next.map((x) => x.id));
+  return {
+    put: next.filter((x) => before.get(x.id) !== x),
+    removed: prev.filter((x) => !nextIds.has(x.id)).map((x) => x.id),
+  };
+}
+
+export async function persistGames(backend: Backend, prev: GameEntry[], next: GameEntry[]) {
+  if (backend === "localStorage") {
+    saveGames(next);
+    return;
+  }
+  const { put, removed } = diffById(prev, next);
+  if (put.length) await gamesRepo.putMany(put);
+  if (removed.length) await gamesRepo.removeMany(removed);
+}
+
+export async function persistPlayers(backend: Backend, prev: Player[], next: Player[]) {
+  if (backend === "localStorage") {
+    savePlayers(next);
+    return;
+  }
+  const { put, removed } = diffById(prev, next);
+  if (put.length) await playersRepo.putMany(put);
+  if (removed.length) await playersRepo.removeMany(removed);
+}
+
+export async function persistSeasons(backend: Backend, prev: Season[], next: Season[]) {
+  if (backend === "localStorage") {
+    saveSeasons(next);
+    return;
+  }
+  const { put, removed } = diffById(prev, next);
+  if (put.length) await seasonsRepo.putMany(put);
+  if (removed.length) await seasonsRepo.removeMany(removed);
+}
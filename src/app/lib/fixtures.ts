@@ -0,0 +1,23 @@
+import { emptyCounts } from "./counts";
+import type { GameEntry } from "./types";
+
+/**
+ * Test data shared by the *.test.ts files. Not used by the app.
+ */
+
+let seq = 0;
+
+/** A saved game with nothing recorded; override whatever the test cares about. */
+export function gameFixture(extra: Partial<GameEntry> = {}): GameEntry {
+  seq++;
+  return {
+    id: `g${seq}`,
+    createdAt: seq,
+    date: "2026-01-10",
+    team: "Fly Academy",
+    opponent: "",
+    playerName: "Jordan",
+    counts: { ...emptyCounts },
+    ...extra,
+  };
+}
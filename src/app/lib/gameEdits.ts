@@ -0,0 +1,98 @@
+import { COUNT_KEYS, emptyCounts, usedCustomKeys } from "./counts";
+import { gameResult } from "./stats";
+import type { GameEdit, GameEntry, GameFields } from "./types";
+
+const FIELD_KEYS: (keyof GameFields)[] = [
+  "date",
+  "team",
+  "opponent",
+  "playerId",
+  "playerName",
+  "notes",
+  "seasonId",
+  "counts",
+  "custom",
+  "score",
+];
+
+export function gameFields(g: GameEntry): GameFields {
+  return {
+    date: g.date,
+    team: g.team,
+    opponent: g.opponent,
+    playerId: g.playerId,
+    playerName: g.playerName,
+    notes: g.notes,
+    seasonId: g.seasonId,
+    counts: { ...emptyCounts, ...g.counts },
+    custom: g.custom ? { ...g.custom } : undefined,
+    score: g.score ? { ...g.score } : undefined,
+  };
+}
+
+function sameValue<K extends keyof GameFields>(key: K, a: GameFields[K], b: GameFields[K]) {
+  if (key === "counts") {
+    const ca = a as GameFields["counts"];
+    const cb = b as GameFields["counts"];
+    // Counts saved before a stat existed (e.g. blk) read as 0
+    return COUNT_KEYS.every((k) => (ca[k] ?? 0) === (cb[k] ?? 0));
+  }
+  if (key === "custom") {
+    const ca = a as GameFields["custom"];
+    const cb = b as GameFields["custom"];
+    const keys = new Set([...usedCustomKeys(ca), ...usedCustomKeys(cb)]);
+    return [...keys].every((k) => (ca?.[k] ?? 0) === (cb?.[k] ?? 0));
+  }
+  if (key === "score") {
+    const sa = a as GameFields["score"];
+    const sb = b as GameFields["score"];
+    return sa?.team === sb?.team && sa?.opponent === sb?.opponent;
+  }
+  return (a ?? "") === (b ?? "");
+}
+
+function diff(from: GameFields, to: GameFields): Pick<GameEdit, "before" | "after"> | null {
+  const before: Partial<GameFields> = {};
+  const after: Partial<GameFields> = {};
+  let changed = false;
+  FIELD_KEYS.forEach((k) => {
+    if (sameValue(k, from[k], to[k])) return;
+    changed = true;
+    Object.assign(before, { [k]: from[k] });
+    Object.assign(after, { [k]: to[k] });
+  });
+  return changed ? { before, after } : null;
+}
+
+/** Apply corrected values to a saved game, logging what changed. No-op edits are dropped. */
+export function applyGameEdit(g: GameEntry, next: GameFields, at = Date.now(), revert = false): GameEntry {
+  const current = gameFields(g);
+  const change = diff(current, next);
+  if (!change) return g;
+
+  return {
+    ...g,
+    ...next,
+    counts: { ...emptyCounts, ...next.counts },
+    result: next.score ? gameResult(next.score) : undefined,
+    notes: next.notes?.trim() || undefined,
+    original: g.original ?? current,
+    edits: [...(g.edits ?? []), { at, ...change, ...(revert ? { revert: true } : {}) }],
+  };
+}
+
+export function revertGame(g: GameEntry, at = Date.now()): GameEntry {
+  if (!g.original) return g;
+  return applyGameEdit(g, g.original, at, true);
+}
+
+export function isEdited(g: GameEntry) {
+  return !!g.original && !!diff(g.original, gameFields(g));
+}
+
+export function describeEdit(e: GameEdit) {
+  return Object.keys(e.after)
+    .filter((k) => k !== "playerId")
+    .map((k) => (k === "playerName" ? "player" : k === "custom" ? "other stats" : k === "seasonId" ? "season" : k))
+    .join(", ");
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import {
+  LIVE_FINAL_KEY,
+  LIVE_STALE_MS,
+  buildSnapshot,
+  isQuiet,
+  loadLiveFinal,
+  publish,
+  readSnapshot,
+  storeLiveFinal,
+  totalLine,
+} from "./live";
+import type { LiveSnapshot } from "./live";
+import type { GameEvent, StatKey } from "./types";
+
+let seq = 0;
+const ev = (key: StatKey, playerKey?: string): GameEvent => ({ id: `e${++seq}`, at: seq, period: 1, key, delta: 1, playerKey });
+
+const snapshot = (over: Partial<Parameters<typeof buildSnapshot>[0]> = {}): LiveSnapshot =>
+  buildSnapshot({
+    gameId: "g1",
+    status: "live",
+    date: "2026-01-10",
+    team: "Fly",
+    opponent: "Hawks",
+    period: 2,
+    periodFormat: "quarters",
+    score: { team: 7, opponent: 4 },
+    stats: [],
+    players: [
+      { key: "p1", name: "Jordan", jersey: "4" },
+      { key: "p2", name: "Riley" },
+    ],
+    events: [ev("made3", "p1"), ev("made2", "p2"), ev("ast", "p1"), ev("made2", "p2")],
+    roster: true,
+    now: 100,
+    ...over,
+  });
+
+describe("buildSnapshot", () => {
+  it("splits roster events into one line per player", () => {
+    const s = snapshot();
+    expect(s.lines.map((l) => [l.key, l.counts.made3, l.counts.made2, l.counts.ast])).toEqual([
+      ["p1", 1, 0, 1],
+      ["p2", 0, 2, 0],
+    ]);
+    expect(totalLine(s.lines).counts).toMatchObject({ made3: 1, made2: 2, ast: 1 });
+  });
+
+  it("gives the single player every event", () => {
+    const s = snapshot({ players: [{ key: "solo", name: "Jordan" }], roster: false });
+    expect(s.lines[0].counts).toMatchObject({ made3: 1, made2: 2, ast: 1 });
+  });
+});
+
+describe("readSnapshot", () => {
+  it("keeps what the server needs and drops bad events", () => {
+    const sent = JSON.parse(JSON.stringify(snapshot()));
+    sent.events.push({ id: "bad", key: "nope" });
+    sent.version = 99;
+    const read = readSnapshot(sent, "from-url");
+    if (typeof read === "string") throw new Error(read);
+    expect(read.gameId).toBe("from-url");
+    expect(read.version).toBe(0);
+    expect(read.events).toHaveLength(4);
+    expect(read.lines[0]).toMatchObject({ name: "Jordan", jersey: "4" });
+  });
+
+  it("refuses anything that isn't a snapshot", () => {
+    expect(readSnapshot(null, "g1")).toMatch(/object/);
+    expect(readSnapshot({ ...snapshot(), status: "paused" }, "g1")).toMatch(/status/);
+    expect(readSnapshot({ ...snapshot(), events: undefined }, "g1")).toMatch(/missing/);
+  });
+});
+
+describe("publish", () => {
+  it("lets only the first key update the game, bumping the version", () => {
+    const first = publish(undefined, snapshot(), "k1", 10);
+    if (typeof first === "string") throw new Error(first);
+    expect(first.snapshot).toMatchObject({ version: 1, updatedAt: 10 });
+
+    const second = publish(first, snapshot(), "k1", 20);
+    if (typeof second === "string") throw new Error(second);
+    expect(second.snapshot.version).toBe(2);
+
+    expect(publish(second, snapshot(), "k2")).toMatch(/another device/);
+    expect(publish(undefined, snapshot(), "")).toMatch(/key/);
+  });
+
+  it("keeps a final game final", () => {
+    const final = publish(undefined, snapshot({ status: "final" }), "k1");
+    if (typeof final === "string") throw new Error(final);
+    expect(publish(final, snapshot(), "k1")).toMatch(/already final/);
+    expect(publish(final, snapshot({ status: "final" }), "k1")).not.toBeTypeOf("string");
+  });
+});
+
+describe("isQuiet", () => {
+  it("only applies to live games the tracker has gone silent on", () => {
+    const s = { ...snapshot(), updatedAt: 1000 };
+    expect(isQuiet(s, 1000 + LIVE_STALE_MS)).toBe(false);
+    expect(isQuiet(s, 1001 + LIVE_STALE_MS)).toBe(true);
+    expect(isQuiet({ ...s, status: "final" }, 1e12)).toBe(false);
+  });
+});
+
+describe("queued final update", () => {
+  const memoryStore = () => {
+    const m = new Map<string, string>();
+    return {
+      getItem: (k: string) => m.get(k) ?? null,
+      setItem: (k: string, v: string) => void m.set(k, v),
+      removeItem: (k: string) => void m.delete(k),
+    };
+  };
+
+  it("survives a remount that writes before it has loaded", () => {
+    const store = memoryStore();
+    const final = { share: { id: "g1", key: "k1" }, snapshot: snapshot({ status: "final" }) };
+    storeLiveFinal(store, final);
+
+    // A fresh mount (or StrictMode's second one) runs the write with nothing loaded yet
+    storeLiveFinal(store, undefined);
+    expect(loadLiveFinal(store)).toMatchObject({
+      share: final.share,
+      snapshot: { status: "final", score: final.snapshot.score },
+    });
+
+    // Taken by the server
+    storeLiveFinal(store, null);
+    expect(loadLiveFinal(store)).toBeNull();
+  });
+
+  it("ignores a stored copy it can't use", () => {
+    const store = memoryStore();
+    store.setItem(LIVE_FINAL_KEY, "{");
+    expect(loadLiveFinal(store)).toBeNull();
+    store.setItem(LIVE_FINAL_KEY, JSON.stringify({ share: { id: "g1" }, snapshot: snapshot() }));
+    expect(loadLiveFinal(store)).toBeNull();
+  });
+});
@@ -0,0 +1,185 @@
+import { emptyCounts, validCustomStat } from "./counts";
+import { countsFromEvents, customFromEvents, sumCounts } from "./stats";
+import { validCounts, validCustom, validEvent } from "./storage";
+import type { CustomCounts, CustomStat, GameEvent, GameScore, LiveCounts, PeriodFormat } from "./types";
+
+/**
+ * Live spectator feed: the tracking phone publishes a snapshot of the game as it goes,
+ * spectators on /live/[gameId] poll for it
+ * - A snapshot carries the running counts per tracked player + the event log for play-by-play
+ * - The first publish claims the game id with a secret key; only that key can update it
+ * - Saving the game publishes a last "final" snapshot; a final game can't go back to live,
+ *   and the tracker keeps it queued until the server has taken it
+ * Pure functions only (storage is passed in); covered by live.test.ts.
+ */
+
+export type LiveStatus = "live" | "final";
+
+export type LiveLine = { key: string; name: string; jersey?: string; counts: LiveCounts; custom: CustomCounts };
+
+export type LiveSnapshot = {
+  gameId: string;
+  status: LiveStatus;
+  version: number; // set by the server, +1 per publish; spectators skip what they've already seen
+  updatedAt: number; // server clock, when the publish arrived
+  date: string;
+  team: string;
+  opponent: string;
+  period: number;
+  periodFormat: PeriodFormat;
+  score: GameScore;
+  stats: CustomStat[];
+  lines: LiveLine[]; // one per tracked player
+  events: GameEvent[];
+};
+
+// How often the tracker re-publishes with nothing new, and when spectators call the feed quiet
+export const LIVE_HEARTBEAT_MS = 10000;
+export const LIVE_STALE_MS = 45000;
+export const LIVE_POLL_MS = 1000;
+
+const MAX_EVENTS = 2000;
+const MAX_LINES = 30;
+
+export function newLiveKey() {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Snapshot of the game in progress. In roster mode events are split by playerKey;
+ * in single-player mode the one line gets every event.
+ */
+export function buildSnapshot(input: {
+  gameId: string;
+  status: LiveStatus;
+  date: string;
+  team: string;
+  opponent: string;
+  period: number;
+  periodFormat: PeriodFormat;
+  score: GameScore;
+  stats: CustomStat[];
+  players: { key: string; name: string; jersey?: string }[];
+  events: GameEvent[];
+  roster: boolean;
+  now?: number;
+}): LiveSnapshot {
+  const lines = input.players.map((p) => {
+    const ev = input.roster ? input.events.filter((e) => e.playerKey === p.key) : input.events;
+    return { ...p, counts: countsFromEvents(ev), custom: customFromEvents(ev) };
+  });
+  return {
+    gameId: input.gameId,
+    status: input.status,
+    version: 0,
+    updatedAt: input.now ?? Date.now(),
+    date: input.date,
+    team: input.team,
+    opponent: input.opponent,
+    period: input.period,
+    periodFormat: input.periodFormat,
+    score: input.score,
+    stats: input.stats,
+    lines,
+    events: input.events.slice(-MAX_EVENTS),
+  };
+}
+
+/** Everyone's line added up (what spectators see under "All"). */
+export function totalLine(lines: LiveLine[]): Pick<LiveLine, "counts" | "custom"> {
+  const custom: CustomCounts = {};
+  lines.forEach((l) =>
+    Object.entries(l.custom).forEach(([k, v]) => {
+      custom[k as keyof CustomCounts] = (custom[k as keyof CustomCounts] ?? 0) + v;
+    })
+  );
+  return { counts: lines.reduce((acc, l) => sumCounts(acc, l.counts), { ...emptyCounts }), custom };
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+const num = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? v : 0);
+const str = (v: unknown) => (typeof v === "string" ? v : "");
+
+/** A published snapshot as the server will keep it, or why it can't be used. */
+export function readSnapshot(v: unknown, gameId: string): LiveSnapshot | string {
+  if (!isObject(v)) return "not an object";
+  if (v.status !== "live" && v.status !== "final") return "status must be live or final";
+  if (!Array.isArray(v.lines) || !Array.isArray(v.events)) return "missing lines or events";
+  if (v.lines.length > MAX_LINES || v.events.length > MAX_EVENTS) return "too many lines or events";
+  const score = isObject(v.score) ? v.score : {};
+  return {
+    gameId,
+    status: v.status,
+    version: 0,
+    updatedAt: 0,
+    date: str(v.date),
+    team: str(v.team),
+    opponent: str(v.opponent),
+    period: Math.max(1, num(v.period)),
+    periodFormat: v.periodFormat === "halves" ? "halves" : "quarters",
+    score: { team: Math.max(0, num(score.team)), opponent: Math.max(0, num(score.opponent)) },
+    stats: Array.isArray(v.stats) ? v.stats.filter(validCustomStat) : [],
+    lines: v.lines.filter(isObject).map((l) => ({
+      key: str(l.key),
+      name: str(l.name),
+      jersey: str(l.jersey) || undefined,
+      counts: validCounts(l.counts) ?? { ...emptyCounts },
+      custom: validCustom(l.custom) ?? {},
+    })),
+    events: v.events.filter(validEvent),
+  };
+}
+
+export type LiveEntry = { key: string; snapshot: LiveSnapshot };
+
+/** Apply a publish. The first one claims the game id; after that the key must match. */
+export function publish(
+  current: LiveEntry | undefined,
+  snapshot: LiveSnapshot,
+  key: string,
+  now = Date.now()
+): LiveEntry | string {
+  if (!key) return "missing publish key";
+  if (current && current.key !== key) return "this game is being published from another device";
+  if (current?.snapshot.status === "final" && snapshot.status === "live") return "this game is already final";
+  return { key, snapshot: { ...snapshot, version: (current?.snapshot.version ?? 0) + 1, updatedAt: now } };
+}
+
+/**
+ * The tracker hasn't been heard from in a while (phone locked, out of signal).
+ * `serverNow` comes with the snapshot, so the spectator's own clock doesn't matter.
+ */
+export const isQuiet = (s: LiveSnapshot, serverNow: number) =>
+  s.status === "live" && serverNow - s.updatedAt > LIVE_STALE_MS;
+
+// --- Tracker side ---
+
+export type LiveShare = { id: string; key: string };
+
+// A saved game whose final snapshot the server hasn't taken yet
+export type LiveFinal = { share: LiveShare; snapshot: LiveSnapshot };
+
+export const LIVE_FINAL_KEY = "flyStatTracker.liveFinal.v1";
+
+type KeyValueStore = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+export function loadLiveFinal(store: KeyValueStore): LiveFinal | null {
+  let v: unknown;
+  try {
+    v = JSON.parse(store.getItem(LIVE_FINAL_KEY) ?? "null");
+  } catch {
+    return null;
+  }
+  if (!isObject(v) || !isObject(v.share) || typeof v.share.id !== "string" || typeof v.share.key !== "string") {
+    return null;
+  }
+  const snapshot = readSnapshot(v.snapshot, v.share.id);
+  return typeof snapshot === "string" ? null : { share: { id: v.share.id, key: v.share.key }, snapshot };
+}
+
+/** Keep the queued final in step with state; `undefined` (not loaded yet) leaves the stored one alone. */
+export function storeLiveFinal(store: KeyValueStore, final: LiveFinal | null | undefined) {
+  if (final === undefined) return;
+  if (final) store.setItem(LIVE_FINAL_KEY, JSON.stringify(final));
+  else store.removeItem(LIVE_FINAL_KEY);
+}
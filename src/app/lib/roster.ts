@@ -0,0 +1,66 @@
+import type { GameEntry, Player } from "./types";
+import { makeId } from "./util";
+
+export const POSITIONS = ["", "PG", "SG", "SF", "PF", "C", "G", "F"];
+
+// "Jordan " and "jordan" are the same player
+export function normalizeName(name: string) {
+  return name.trim().replace(/\s+/g, " ");
+}
+
+export function sameName(a: string, b: string) {
+  return normalizeName(a).toLowerCase() === normalizeName(b).toLowerCase();
+}
+
+export function findPlayerByName(players: Player[], name: string) {
+  return players.find((p) => sameName(p.name, name));
+}
+
+export function createPlayer(fields: Partial<Player> & { name: string }): Player {
+  return {
+    id: makeId(),
+    createdAt: Date.now(),
+    jersey: "",
+    position: "",
+    team: "",
+    ...fields,
+    name: normalizeName(fields.name),
+  };
+}
+
+export function playerLabel(p: Pick<Player, "name" | "jersey">) {
+  return p.jersey ? `#${p.jersey} ${p.name}` : p.name;
+}
+
+/**
+ * Give every game a playerId. Games saved before the roster existed are matched
+ * to a player by (normalized) name, creating roster entries as needed.
+ */
+export function linkGamesToRoster(games: GameEntry[], players: Player[]) {
+  const roster = [...players];
+  let changed = false;
+
+  const linked = games.map((g) => {
+    if (g.playerId && roster.some((p) => p.id === g.playerId)) return g;
+    let p = findPlayerByName(roster, g.playerName || "");
+    if (!p) {
+      p = createPlayer({ name: g.playerName || "Unknown player", jersey: g.jersey ?? "", team: g.team ?? "" });
+      roster.push(p);
+    }
+    changed = true;
+    return { ...g, playerId: p.id };
+  });
+
+  return { games: linked, players: roster, changed };
+}
+
+/** Move every game from one player onto another and drop the merged-away player. */
+export function mergePlayers(games: GameEntry[], players: Player[], fromId: string, intoId: string) {
+  const into = players.find((p) => p.id === intoId);
+  if (!into || fromId === intoId) return { games, players };
+
+  return {
+    games: games.map((g) => (g.playerId === fromId ? { ...g, playerId: intoId } : g)),
+    players: players.filter((p) => p.id !== fromId),
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { gameFixture } from "./fixtures";
+import { currentSeason, inDateRange, inSeason, seasonProblem } from "./seasons";
+import type { GameEntry, Season } from "./types";
+
+const fall: Season = { id: "fall", name: "Fall League", startDate: "2025-09-01", endDate: "2025-11-30" };
+const aau: Season = { id: "aau", name: "Spring AAU", startDate: "2026-03-01", endDate: "2026-06-30", team: "Fly 15U" };
+const spring: Season = { id: "spring", name: "Spring", startDate: "2026-03-01", endDate: "2026-05-31" };
+
+const game = (date: string, extra: Partial<GameEntry> = {}): GameEntry => gameFixture({ date, ...extra });
+
+describe("currentSeason", () => {
+  it("picks the season covering the date, preferring one for the team", () => {
+    const all = [fall, aau, spring];
+    expect(currentSeason(all, "2025-10-04", "Fly Academy")?.id).toBe("fall");
+    expect(currentSeason(all, "2026-04-10", "Fly 15U")?.id).toBe("aau");
+    expect(currentSeason(all, "2026-04-10", "Fly Academy")?.id).toBe("spring");
+    expect(currentSeason(all, "2026-08-01", "Fly Academy")).toBeUndefined();
+  });
+});
+
+describe("inSeason", () => {
+  const known = new Set(["fall", "aau", "spring"]);
+
+  it("uses the filed season, falling back to date and team for older games", () => {
+    expect(inSeason(game("2026-04-10", { seasonId: "fall" }), fall, known)).toBe(true);
+    expect(inSeason(game("2025-10-04", { seasonId: "spring" }), fall, known)).toBe(false);
+    expect(inSeason(game("2025-10-04"), fall, known)).toBe(true);
+    expect(inSeason(game("2026-04-10"), aau, known)).toBe(false); // different team
+  });
+
+  it("keeps games filed under no season out of every season", () => {
+    expect(inSeason(game("2025-10-04", { seasonId: "" }), fall, known)).toBe(false);
+  });
+
+  it("matches games from a deleted season by date", () => {
+    expect(inSeason(game("2025-10-04", { seasonId: "gone" }), fall, known)).toBe(true);
+  });
+});
+
+describe("date ranges", () => {
+  it("treats bounds as inclusive and empty bounds as open", () => {
+    expect(inDateRange(game("2026-01-10"), "2026-01-10", "2026-01-10")).toBe(true);
+    expect(inDateRange(game("2026-01-10"), "2026-01-11", "")).toBe(false);
+    expect(inDateRange(game("2026-01-10"), "", "")).toBe(true);
+  });
+
+  it("rejects seasons that end before they start", () => {
+    expect(seasonProblem({ ...fall, endDate: "2025-08-01" })).toMatch(/ends before/);
+    expect(seasonProblem(fall)).toBeNull();
+  });
+});
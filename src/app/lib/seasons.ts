@@ -0,0 +1,56 @@
+import type { GameEntry, Season } from "./types";
+import { makeId } from "./util";
+
+/**
+ * Named seasons / competitions (fall league, spring AAU…)
+ * - A game belongs to the season it was filed under (seasonId); "" means filed under no season
+ * - Games without one (saved before seasons existed, or whose season was deleted) fall into the
+ *   season covering their date and team
+ */
+
+export function createSeason(fields: Omit<Season, "id">): Season {
+  return { id: makeId(), ...fields, name: fields.name.trim(), team: fields.team?.trim() || undefined };
+}
+
+function sameTeam(a: string, b: string) {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/** Whether a season's dates (and team, when both are given) cover a game on `date` for `team`. */
+export function seasonCovers(s: Season, date: string, team?: string) {
+  if (date < s.startDate || date > s.endDate) return false;
+  return !s.team || team === undefined || sameTeam(s.team, team);
+}
+
+/**
+ * The season a new game on `date` for `team` defaults to.
+ * A season for that team beats an all-teams one; otherwise the latest start wins.
+ */
+export function currentSeason(seasons: Season[], date: string, team?: string): Season | undefined {
+  return seasons
+    .filter((s) => seasonCovers(s, date, team))
+    .sort((a, b) => Number(!!b.team) - Number(!!a.team) || b.startDate.localeCompare(a.startDate))[0];
+}
+
+/** Games filed under a season that has since been deleted count as unfiled; "No season" is never in one. */
+export function inSeason(g: GameEntry, s: Season, knownIds: Set<string>) {
+  if (g.seasonId === "") return false;
+  return g.seasonId && knownIds.has(g.seasonId) ? g.seasonId === s.id : seasonCovers(s, g.date, g.team);
+}
+
+/** Inclusive YYYY-MM-DD bounds; an empty bound is open-ended. */
+export function inDateRange(g: GameEntry, from: string, to: string) {
+  return (!from || g.date >= from) && (!to || g.date <= to);
+}
+
+/** Why a season can't be saved, or null. */
+export function seasonProblem(s: Pick<Season, "name" | "startDate" | "endDate">) {
+  if (!s.name.trim()) return "Give the season a name.";
+  if (!s.startDate || !s.endDate) return "Pick a start and end date.";
+  if (s.startDate > s.endDate) return "The season ends before it starts.";
+  return null;
+}
+
+export function sortSeasons(seasons: Season[]) {
+  return [...seasons].sort((a, b) => b.startDate.localeCompare(a.startDate) || a.name.localeCompare(b.name));
+}
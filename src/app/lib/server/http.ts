@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { memberByToken } from "../teams";
+import type { Member, Team } from "../teams";
+import { DEFAULT_SPACE } from "./syncStore";
+import type { StoreFile } from "./syncStore";
+
+/**
+ * Shared bits for the API route handlers: JSON errors and who's asking
+ * - No Authorization header: the device syncs on its own (default space)
+ * - "Authorization: Bearer <token>": a team member; their team's space and role apply
+ */
+
+export function error(status: number, message: string) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+export async function readJson<T>(req: Request): Promise<T | null> {
+  return (await req.json().catch(() => null)) as T | null;
+}
+
+export function bearerToken(req: Request) {
+  const header = req.headers.get("authorization") ?? "";
+  return header.startsWith("Bearer ") ? header.slice(7).trim() : "";
+}
+
+export type Access = { space: string; team: Team | null; member: Member | null };
+
+/** null when a token was sent but belongs to nobody (left the team, or removed). */
+export function accessFor(store: StoreFile, req: Request): Access | null {
+  const token = bearerToken(req);
+  if (!token) return { space: DEFAULT_SPACE, team: null, member: null };
+  const found = memberByToken(Object.values(store.teams), token);
+  return found ? { space: found.team.id, ...found } : null;
+}
+
+/** A refusal worked out inside withStore, turned into an error response by the handler. */
+export type Denied = { denied: true; status: number; message: string };
+
+export const deny = (status: number, message: string): Denied => ({ denied: true, status, message });
+
+export function isDenied(v: unknown): v is Denied {
+  return !!v && typeof v === "object" && (v as Denied).denied === true;
+}
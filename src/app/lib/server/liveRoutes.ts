@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { publish, readSnapshot } from "../live";
+import { error, readJson } from "./http";
+import { liveGames, pruneLive } from "./liveStore";
+
+/**
+ * Handlers behind /api/live/[gameId]
+ * - GET ?since=<version>: the latest snapshot + the server's clock, or 204 when nothing changed since `since`
+ * - POST (x-live-key header) the tracker's snapshot; the first key to publish owns the game id
+ */
+
+type Ctx = { params: Promise<{ gameId: string }> };
+
+export const liveRoutes = {
+  GET: async (req: Request, ctx: Ctx) => {
+    const { gameId } = await ctx.params;
+    const entry = liveGames().get(gameId);
+    if (!entry) return error(404, "This game isn't live (yet).");
+    const since = Number(new URL(req.url).searchParams.get("since")) || 0;
+    if (since === entry.snapshot.version) return new Response(null, { status: 204 });
+    return NextResponse.json({ snapshot: entry.snapshot, now: Date.now() });
+  },
+
+  POST: async (req: Request, ctx: Ctx) => {
+    const { gameId } = await ctx.params;
+    const snapshot = readSnapshot(await readJson(req), gameId);
+    if (typeof snapshot === "string") return error(400, snapshot);
+    pruneLive();
+    const next = publish(liveGames().get(gameId), snapshot, req.headers.get("x-live-key") ?? "");
+    if (typeof next === "string") return error(409, next);
+    liveGames().set(gameId, next);
+    return NextResponse.json({ version: next.snapshot.version });
+  },
+};
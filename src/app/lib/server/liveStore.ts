@@ -0,0 +1,23 @@
+import type { LiveEntry } from "../live";
+
+/**
+ * Live games, held in memory: a live feed only matters while the game is on, so nothing is written to disk
+ * - Kept on globalThis so every route bundle in the process (and dev hot reloads) shares one map
+ * - Games not updated for a day are dropped
+ * Server only.
+ */
+
+const KEEP_MS = 24 * 60 * 60 * 1000;
+
+const holder = globalThis as typeof globalThis & { __flyLiveGames?: Map<string, LiveEntry> };
+
+export function liveGames() {
+  holder.__flyLiveGames ??= new Map();
+  return holder.__flyLiveGames;
+}
+
+export function pruneLive(now = Date.now()) {
+  liveGames().forEach((entry, id) => {
+    if (now - entry.snapshot.updatedAt > KEEP_MS) liveGames().delete(id);
+  });
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { validateGame, validatePlayer } from "../storage";
+import { MAX_PUSH, pullRecords, pushRecords, readRecord } from "../sync";
+import type { PullResponse, PushResponse, SyncKind, SyncRecord } from "../sync";
+import { NOT_A_MEMBER, canWrite } from "../teams";
+import { accessFor, deny, error, isDenied, readJson } from "./http";
+import type { Denied } from "./http";
+import { withStore } from "./syncStore";
+
+/**
+ * Handlers behind /api/games and /api/players
+ * - GET ?since=<cursor>: every change after the cursor (tombstones included) + the new cursor
+ * - POST { records }: push changes; each is validated like a stored record, then merged last-writer-wins
+ * - With a team token both work on the team's space; viewers can pull but not push
+ */
+
+export function syncHandlers(kind: SyncKind) {
+  const validate: (v: unknown) => unknown = kind === "games" ? validateGame : validatePlayer;
+
+  const GET = async (req: Request) => {
+    const since = Number(new URL(req.url).searchParams.get("since")) || 0;
+    try {
+      const result = await withStore<PullResponse | Denied>((store) => {
+        const access = accessFor(store, req);
+        if (!access) return { result: deny(401, NOT_A_MEMBER) };
+        return { result: pullRecords(store.spaces[access.space]?.[kind] ?? {}, since, store.seq) };
+      });
+      if (isDenied(result)) return error(result.status, result.message);
+      return NextResponse.json(result);
+    } catch (err) {
+      return error(500, (err as Error).message);
+    }
+  };
+
+  const POST = async (req: Request) => {
+    const body = await readJson<{ records?: unknown }>(req);
+    if (!body || !Array.isArray(body.records)) return error(400, "Expected { records: [...] }");
+    if (body.records.length > MAX_PUSH) return error(413, `Push at most ${MAX_PUSH} records at a time`);
+
+    const records: SyncRecord[] = [];
+    const rejected: string[] = [];
+    body.records.forEach((raw) => {
+      const r = readRecord(raw, validate);
+      if (r) records.push(r);
+      else rejected.push(typeof (raw as { id?: unknown })?.id === "string" ? (raw as { id: string }).id : "?");
+    });
+
+    try {
+      const result = await withStore<PushResponse | Denied>((store) => {
+        const access = accessFor(store, req);
+        if (!access) return { result: deny(401, NOT_A_MEMBER) };
+        if (access.member && !canWrite(access.member.role)) {
+          return { result: deny(403, "Viewers can follow the team but can't change its games or roster.") };
+        }
+        const space = store.spaces[access.space] ?? {};
+        const pushed = pushRecords(space[kind] ?? {}, records, store.seq);
+        // Nothing new (retries, or all stale): leave the file alone
+        if (pushed.seq === store.seq) return { result: pushed.result };
+        return {
+          store: {
+            ...store,
+            seq: pushed.seq,
+            spaces: { ...store.spaces, [access.space]: { ...space, [kind]: pushed.collection } },
+          },
+          result: pushed.result,
+        };
+      });
+      if (isDenied(result)) return error(result.status, result.message);
+      return NextResponse.json({ ...result, rejected });
+    } catch (err) {
+      return error(500, (err as Error).message);
+    }
+  };
+
+  return { GET, POST };
+}
@@ -0,0 +1,79 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { Collection, SyncKind } from "../sync";
+import type { Team } from "../teams";
+
+/**
+ * Server-side sync store: one JSON file the app's own Next.js server reads and writes
+ * - Location: SYNC_DATA_FILE, or .data/sync.json under the working directory
+ * - Spaces: "default" for devices syncing on their own, plus one per team (keyed by team id)
+ * - Changes are applied one at a time (in-process queue) and written atomically (temp file + rename),
+ *   so a crash mid-write leaves the previous file intact
+ * Server only (uses the file system).
+ */
+
+export const STORE_SCHEMA_VERSION = 2;
+
+export const DEFAULT_SPACE = "default";
+
+export type Space = Partial<Record<SyncKind, Collection>>;
+
+export type StoreFile = {
+  schemaVersion: number;
+  seq: number; // last change number handed out, across every space and kind
+  spaces: Record<string, Space>;
+  teams: Record<string, Team>; // v2
+};
+
+export function emptyStore(): StoreFile {
+  return { schemaVersion: STORE_SCHEMA_VERSION, seq: 0, spaces: {}, teams: {} };
+}
+
+export function storePath() {
+  return process.env.SYNC_DATA_FILE || path.join(process.cwd(), ".data", "sync.json");
+}
+
+async function readStore(file: string): Promise<StoreFile> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return emptyStore();
+    throw err;
+  }
+  // An unreadable store is an error, never silently replaced with an empty one
+  const parsed = JSON.parse(raw) as StoreFile;
+  if (!parsed || typeof parsed.seq !== "number" || typeof parsed.spaces !== "object") {
+    throw new Error(`Sync store at ${file} is not readable`);
+  }
+  if (parsed.schemaVersion > STORE_SCHEMA_VERSION) {
+    throw new Error(`Sync store at ${file} is from a newer version (schema v${parsed.schemaVersion})`);
+  }
+  // v1 → v2: teams added
+  return { ...parsed, schemaVersion: STORE_SCHEMA_VERSION, teams: parsed.teams ?? {} };
+}
+
+async function writeStore(file: string, store: StoreFile) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(store), "utf8");
+  await fs.rename(tmp, file);
+}
+
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run `fn` against the current store. Return `store` to save changes, or leave it out for a read.
+ * Calls are serialized so two pushes can't interleave their read-modify-write.
+ */
+export function withStore<R>(fn: (store: StoreFile) => { store?: StoreFile; result: R }): Promise<R> {
+  const run = queue.then(async () => {
+    const file = storePath();
+    const out = fn(await readStore(file));
+    if (out.store) await writeStore(file, out.store);
+    return out.result;
+  });
+  // Keep the queue going after a failure; the caller still sees the error
+  queue = run.catch(() => undefined);
+  return run;
+}
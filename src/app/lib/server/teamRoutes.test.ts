@@ -0,0 +1,206 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { emptyCounts } from "../counts";
+import { gameFixture } from "../fixtures";
+import {
+  applyIncoming,
+  canPush,
+  newSyncState,
+  queueAll,
+  queueChanges,
+  setSyncEnabled,
+  switchSpace,
+  syncOnce,
+} from "../syncClient";
+import type { Fetch, SyncData, SyncState } from "../syncClient";
+import { teamApi } from "../teamClient";
+import type { TeamSession } from "../teams";
+import type { GameEntry } from "../types";
+import { syncHandlers } from "./syncRoutes";
+import { teamRoutes } from "./teamRoutes";
+
+// The API routes, served from a throwaway store file: the same calls the app makes, minus the network
+const routes: Record<string, Partial<Record<string, (req: Request) => Promise<Response>>>> = {
+  "/api/games": syncHandlers("games"),
+  "/api/players": syncHandlers("players"),
+  "/api/teams": teamRoutes.root,
+  "/api/teams/join": teamRoutes.join,
+  "/api/teams/invites": teamRoutes.invites,
+  "/api/teams/members": teamRoutes.members,
+  "/api/teams/feed": teamRoutes.feed,
+};
+
+const local: Fetch = async (url, init) => {
+  const u = new URL(url, "http://localhost");
+  const handler = routes[u.pathname]?.[init?.method ?? "GET"];
+  if (!handler) return new Response(null, { status: 404 });
+  return handler(new Request(u, init));
+};
+
+let dir = "";
+beforeAll(() => {
+  dir = mkdtempSync(path.join(tmpdir(), "fly-sync-"));
+  process.env.SYNC_DATA_FILE = path.join(dir, "sync.json");
+});
+afterAll(() => {
+  delete process.env.SYNC_DATA_FILE;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const game = (id: string): GameEntry => gameFixture({ id, counts: { ...emptyCounts, made3: 2 } });
+
+const device = (team: TeamSession) => ({ ...newSyncState(), enabled: true, team });
+
+describe("team workspaces on a local server", () => {
+  it("shares games with statisticians, lets viewers read but not write", async () => {
+    const owner = (await teamApi(null, { fetchImpl: local }).create("Fly 14U", "Sam")).session;
+    const ownerApi = teamApi(owner, { fetchImpl: local });
+    const statCode = (await ownerApi.invite("statistician")).invite.code;
+    const viewCode = (await ownerApi.invite("viewer")).invite.code;
+
+    const stat = (await teamApi(null, { fetchImpl: local }).join(statCode, "Pat")).session;
+    const viewer = (await teamApi(null, { fetchImpl: local }).join(viewCode.toLowerCase(), "Grandpa")).session;
+    expect(stat.role).toBe("statistician");
+    expect(viewer.role).toBe("viewer");
+
+    // The statistician's game reaches the viewer through the team space
+    let statState = device(stat);
+    statState = { ...statState, outbox: { ...statState.outbox, games: { g1: { at: 10, device: statState.deviceId } } } };
+    await syncOnce(statState, { games: [game("g1")], players: [] }, { fetchImpl: local });
+
+    const pulled = await syncOnce(device(viewer), { games: [], players: [] }, { fetchImpl: local });
+    expect(pulled.incoming.games.map((r) => r.id)).toEqual(["g1"]);
+    expect((await teamApi(viewer, { fetchImpl: local }).feed()).items[0]).toMatchObject({ id: "g1", pts: 6 });
+
+    // Viewers can't push, even by hand
+    const push = await local("/api/games", {
+      method: "POST",
+      headers: { authorization: `Bearer ${viewer.token}` },
+      body: JSON.stringify({ records: [{ id: "g2", version: { at: 1, device: "x" }, data: game("g2") }] }),
+    });
+    expect(push.status).toBe(403);
+
+    // A device syncing on its own doesn't see team games
+    const solo = await syncOnce({ ...newSyncState(), enabled: true }, { games: [], players: [] }, { fetchImpl: local });
+    expect(solo.incoming.games).toEqual([]);
+  });
+
+  it("keeps management with owners, and shuts out removed members", async () => {
+    const owner = (await teamApi(null, { fetchImpl: local }).create("Fly 16U", "Alex")).session;
+    const ownerApi = teamApi(owner, { fetchImpl: local });
+    const code = (await ownerApi.invite("statistician")).invite.code;
+    const stat = (await teamApi(null, { fetchImpl: local }).join(code, "Pat")).session;
+    const statApi = teamApi(stat, { fetchImpl: local });
+
+    await expect(statApi.invite("viewer")).rejects.toThrow(/owners/);
+    expect((await statApi.team()).team.invites).toEqual([]);
+    await expect(ownerApi.remove(owner.memberId)).rejects.toThrow(/needs an owner/);
+
+    await ownerApi.remove(stat.memberId);
+    await expect(statApi.team()).rejects.toThrow(/no longer a member/);
+    await expect(syncOnce(device(stat), { games: [], players: [] }, { fetchImpl: local })).rejects.toThrow(
+      /no longer a member/
+    );
+  });
+});
+
+// A phone as the app runs it: local lists + sync state, joining / leaving the way GameTracker does
+type Phone = { state: SyncState; data: SyncData };
+
+const phone = (games: GameEntry[], syncOn: boolean): Phone => {
+  const state = queueChanges(setSyncEnabled(newSyncState(), syncOn), "games", games, []);
+  return { state, data: { games, players: [] } };
+};
+
+const moveTo = (p: Phone, team: TeamSession | null) => {
+  const moved = switchSpace(p.state, team, p.data);
+  p.state = moved.enabled && canPush(moved) ? queueAll(moved, p.data) : moved;
+};
+
+const sync = async (p: Phone) => {
+  const { state, incoming } = await syncOnce(p.state, p.data, { fetchImpl: local });
+  p.state = state;
+  p.data = { games: applyIncoming(p.data.games, incoming.games), players: applyIncoming(p.data.players, incoming.players) };
+};
+
+const track = (p: Phone, g: GameEntry) => {
+  p.data = { ...p.data, games: [...p.data.games, g] };
+  p.state = queueChanges(p.state, "games", [g], []);
+};
+
+// Lists come back from storage and sync state from localStorage as new objects
+const reload = (p: Phone) => {
+  p.state = JSON.parse(JSON.stringify(p.state));
+  p.data = JSON.parse(JSON.stringify(p.data));
+};
+
+const soloGames = async () => {
+  const solo = phone([], true);
+  await sync(solo);
+  return solo.data.games.map((g) => g.id);
+};
+
+describe("leaving a team", () => {
+  it("keeps a viewer's team games on the phone without uploading them", async () => {
+    const owner = (await teamApi(null, { fetchImpl: local }).create("Fly 12U", "Sam")).session;
+    const viewCode = (await teamApi(owner, { fetchImpl: local }).invite("viewer")).invite.code;
+    const ownerPhone = phone([], false);
+    moveTo(ownerPhone, owner);
+    track(ownerPhone, game("team-12u"));
+    await sync(ownerPhone);
+
+    const viewer = phone([game("viewer-own")], true);
+    await sync(viewer);
+    moveTo(viewer, (await teamApi(null, { fetchImpl: local }).join(viewCode, "Grandpa")).session);
+    await sync(viewer);
+    expect(viewer.data.games.map((g) => g.id).sort()).toEqual(["team-12u", "viewer-own"]);
+
+    reload(viewer);
+    moveTo(viewer, null);
+    expect(viewer.state.enabled).toBe(true);
+    expect(Object.keys(viewer.state.outbox.games)).toEqual(["viewer-own"]);
+    await sync(viewer);
+
+    expect(viewer.data.games.map((g) => g.id)).toContain("team-12u");
+    const solo = await soloGames();
+    expect(solo).toContain("viewer-own");
+    expect(solo).not.toContain("team-12u");
+  });
+
+  it("takes a statistician's own games along, never another team's", async () => {
+    const ownerA = (await teamApi(null, { fetchImpl: local }).create("Fly 13U", "Sam")).session;
+    const ownerB = (await teamApi(null, { fetchImpl: local }).create("Fly 17U", "Alex")).session;
+    const codeA = (await teamApi(ownerA, { fetchImpl: local }).invite("statistician")).invite.code;
+    const codeB = (await teamApi(ownerB, { fetchImpl: local }).invite("statistician")).invite.code;
+    const ownerPhone = phone([], false);
+    moveTo(ownerPhone, ownerA);
+    track(ownerPhone, game("team-13u"));
+    await sync(ownerPhone);
+
+    // Sync was never turned on for this phone's own games
+    const stat = phone([game("stat-own")], false);
+    moveTo(stat, (await teamApi(null, { fetchImpl: local }).join(codeA, "Pat")).session);
+    track(stat, game("tracked-13u"));
+    await sync(stat);
+    expect(stat.data.games).toHaveLength(3);
+
+    reload(stat);
+    moveTo(stat, (await teamApi(null, { fetchImpl: local }).join(codeB, "Pat")).session);
+    expect(Object.keys(stat.state.outbox.games)).toEqual(["stat-own"]);
+    await sync(stat);
+    const inB = phone([], false);
+    moveTo(inB, ownerB);
+    await sync(inB);
+    expect(inB.data.games.map((g) => g.id)).toEqual(["stat-own"]);
+
+    reload(stat);
+    moveTo(stat, null);
+    expect(stat.state.enabled).toBe(false);
+    expect(Object.keys(stat.state.outbox.games)).toEqual([]);
+    // Turning sync on later still only sends the phone's own games
+    expect(Object.keys(queueAll(setSyncEnabled(stat.state, true), stat.data).outbox.games)).toEqual(["stat-own"]);
+    expect(await soloGames()).not.toContain("tracked-13u");
+  });
+});
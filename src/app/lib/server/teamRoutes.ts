@@ -0,0 +1,187 @@
+import { randomBytes, randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import {
+  NOT_A_MEMBER,
+  addInvite,
+  canManage,
+  createTeam,
+  findInvite,
+  inviteCode,
+  isRole,
+  joinTeam,
+  removeMember,
+  revokeInvite,
+  setRole,
+  teamFeed,
+  teamView,
+} from "../teams";
+import type { FeedItem, Invite, Member, Team, TeamSession, TeamView } from "../teams";
+import { accessFor, deny, error, isDenied, readJson } from "./http";
+import type { Denied } from "./http";
+import { withStore } from "./syncStore";
+import type { StoreFile } from "./syncStore";
+
+/**
+ * Handlers behind /api/teams/*
+ * - POST /api/teams { teamName, memberName }: create a team, you're its owner
+ * - GET /api/teams: your team (members, and invite codes if you're an owner)
+ * - POST /api/teams/join { code, memberName }: join with an invite code, as the role the code carries
+ * - POST / DELETE /api/teams/invites { role } / { code }: owners make and revoke invite codes
+ * - PATCH / DELETE /api/teams/members { memberId, role } / { memberId }: owners change roles and remove
+ *   members; anyone can remove themselves (leave)
+ * - GET /api/teams/feed: the team's latest games
+ * Every call but create / join needs the member token (Authorization: Bearer).
+ */
+
+type Joined = { session: TeamSession; team: TeamView };
+
+const newToken = () => randomBytes(24).toString("base64url");
+
+function uniqueCode(store: StoreFile) {
+  let code = inviteCode();
+  while (findInvite(Object.values(store.teams), code)) code = inviteCode();
+  return code;
+}
+
+const withTeam = (store: StoreFile, team: Team): StoreFile => ({ ...store, teams: { ...store.teams, [team.id]: team } });
+
+async function respond<R>(run: () => Promise<R | Denied>) {
+  try {
+    const result = await run();
+    if (isDenied(result)) return error(result.status, result.message);
+    return NextResponse.json(result);
+  } catch (err) {
+    return error(500, (err as Error).message);
+  }
+}
+
+/** Runs `fn` for the member behind the request's token; refuses anyone else. */
+function asMember<R>(
+  req: Request,
+  fn: (store: StoreFile, team: Team, member: Member) => { store?: StoreFile; result: R | Denied }
+) {
+  return withStore<R | Denied>((store) => {
+    const access = accessFor(store, req);
+    if (!access) return { result: deny(401, NOT_A_MEMBER) };
+    if (!access.team || !access.member) return { result: deny(401, "Create or join a team first.") };
+    return fn(store, access.team, access.member);
+  });
+}
+
+const ownersOnly = () => deny(403, "Only team owners can do that.");
+
+export const teamRoutes = {
+  root: {
+    GET: (req: Request) =>
+      respond(() => asMember<{ team: TeamView }>(req, (_s, team, member) => ({ result: { team: teamView(team, member) } }))),
+
+    POST: async (req: Request) => {
+      const body = await readJson<{ teamName?: unknown; memberName?: unknown }>(req);
+      return respond(() =>
+        withStore<Joined | Denied>((store) => {
+          const made = createTeam(String(body?.teamName ?? ""), String(body?.memberName ?? ""), {
+            teamId: randomUUID(),
+            memberId: randomUUID(),
+            token: newToken(),
+          });
+          if (typeof made === "string") return { result: deny(400, made) };
+          return {
+            store: withTeam(store, made.team),
+            result: { session: made.session, team: teamView(made.team, made.team.members[0]) },
+          };
+        })
+      );
+    },
+  },
+
+  join: {
+    POST: async (req: Request) => {
+      const body = await readJson<{ code?: unknown; memberName?: unknown }>(req);
+      return respond(() =>
+        withStore<Joined | Denied>((store) => {
+          const joined = joinTeam(Object.values(store.teams), String(body?.code ?? ""), String(body?.memberName ?? ""), {
+            memberId: randomUUID(),
+            token: newToken(),
+          });
+          if (typeof joined === "string") return { result: deny(400, joined) };
+          const member = joined.team.members[joined.team.members.length - 1];
+          return {
+            store: withTeam(store, joined.team),
+            result: { session: joined.session, team: teamView(joined.team, member) },
+          };
+        })
+      );
+    },
+  },
+
+  invites: {
+    POST: async (req: Request) => {
+      const body = await readJson<{ role?: unknown }>(req);
+      return respond(() =>
+        asMember<{ invite: Invite; team: TeamView }>(req, (store, team, member) => {
+          if (!canManage(member.role)) return { result: ownersOnly() };
+          const role = body?.role;
+          if (role !== "statistician" && role !== "viewer") return { result: deny(400, "Invite as statistician or viewer.") };
+          const next = addInvite(team, role, uniqueCode(store), member.id);
+          return {
+            store: withTeam(store, next),
+            result: { invite: next.invites[next.invites.length - 1], team: teamView(next, member) },
+          };
+        })
+      );
+    },
+
+    DELETE: async (req: Request) => {
+      const body = await readJson<{ code?: unknown }>(req);
+      return respond(() =>
+        asMember<{ team: TeamView }>(req, (store, team, member) => {
+          if (!canManage(member.role)) return { result: ownersOnly() };
+          const next = revokeInvite(team, String(body?.code ?? ""));
+          return { store: withTeam(store, next), result: { team: teamView(next, member) } };
+        })
+      );
+    },
+  },
+
+  members: {
+    PATCH: async (req: Request) => {
+      const body = await readJson<{ memberId?: unknown; role?: unknown }>(req);
+      return respond(() =>
+        asMember<{ team: TeamView }>(req, (store, team, member) => {
+          if (!canManage(member.role)) return { result: ownersOnly() };
+          if (!isRole(body?.role)) return { result: deny(400, "Unknown role.") };
+          const next = setRole(team, String(body?.memberId ?? ""), body.role);
+          if (typeof next === "string") return { result: deny(400, next) };
+          const me = next.members.find((m) => m.id === member.id) ?? member;
+          return { store: withTeam(store, next), result: { team: teamView(next, me) } };
+        })
+      );
+    },
+
+    DELETE: async (req: Request) => {
+      const body = await readJson<{ memberId?: unknown }>(req);
+      return respond(() =>
+        asMember<{ team: TeamView | null }>(req, (store, team, member) => {
+          const memberId = String(body?.memberId ?? "");
+          const leaving = memberId === member.id;
+          if (!leaving && !canManage(member.role)) return { result: ownersOnly() };
+          const next = removeMember(team, memberId);
+          if (typeof next === "string") return { result: deny(400, next) };
+          return { store: withTeam(store, next), result: { team: leaving ? null : teamView(next, member) } };
+        })
+      );
+    },
+  },
+
+  feed: {
+    GET: (req: Request) => {
+      const limit = Math.min(100, Number(new URL(req.url).searchParams.get("limit")) || 20);
+      return respond(() =>
+        asMember<{ items: FeedItem[] }>(req, (store, team) => {
+          const space = store.spaces[team.id] ?? {};
+          return { result: { items: teamFeed(space.games ?? {}, space.players ?? {}, limit) } };
+        })
+      );
+    },
+  },
+};
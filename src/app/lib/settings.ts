@@ -0,0 +1,53 @@
+import { validCustomStat } from "./counts";
+import type { CustomStat } from "./types";
+
+/**
+ * App preferences. Small and read on every load, so they stay in localStorage.
+ */
+
+export const SETTINGS_KEY = "flyStatTracker.settings.v1";
+
+export type AppSettings = {
+  vibration: boolean;
+  customStats: CustomStat[]; // extra tap buttons beyond the built-in box score
+  periodMinutes: number; // game clock length of a regulation period
+  overtimeMinutes: number;
+  perMinutes: 36 | 32; // rate stats in the Player Log (32 for youth games)
+};
+
+export const defaultSettings: AppSettings = {
+  vibration: true,
+  customStats: [],
+  periodMinutes: 8,
+  overtimeMinutes: 4,
+  perMinutes: 36,
+};
+
+// Whole minutes, 1-60
+function minutes(v: unknown, fallback: number) {
+  return typeof v === "number" && Number.isFinite(v) && v >= 1 && v <= 60 ? Math.round(v) : fallback;
+}
+
+// Unknown / missing fields fall back to defaults so older copies keep loading
+export function normalizeSettings(v: unknown): AppSettings {
+  const s = v && typeof v === "object" ? (v as Partial<AppSettings>) : {};
+  return {
+    vibration: typeof s.vibration === "boolean" ? s.vibration : defaultSettings.vibration,
+    customStats: Array.isArray(s.customStats) ? s.customStats.filter(validCustomStat) : [],
+    periodMinutes: minutes(s.periodMinutes, defaultSettings.periodMinutes),
+    overtimeMinutes: minutes(s.overtimeMinutes, defaultSettings.overtimeMinutes),
+    perMinutes: s.perMinutes === 32 ? 32 : 36,
+  };
+}
+
+export function loadSettings(): AppSettings {
+  try {
+    return normalizeSettings(JSON.parse(localStorage.getItem(SETTINGS_KEY) || "null"));
+  } catch {
+    return { ...defaultSettings };
+  }
+}
+
+export function saveSettings(s: AppSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(s));
+}
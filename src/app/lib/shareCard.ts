@@ -0,0 +1,181 @@
+import { statLabel, usedCustomKeys } from "./counts";
+import { boxScore } from "./stats";
+import type { GameEntry } from "./types";
+
+/**
+ * Single-game summary for sharing (grandparents' group text)
+ * - gameShareText: plain-text stat line
+ * - renderShareCard: branded 1080x1350 PNG drawn on a canvas, all in the browser
+ */
+
+export type ShareInfo = {
+  playerName: string;
+  jersey?: string;
+};
+
+function formatDate(iso: string) {
+  const d = new Date(`${iso}T12:00:00`);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleDateString([], { weekday: "short", month: "short", day: "numeric", year: "numeric" });
+}
+
+const split = (m: number, a: number, p: number) => `${m}-${a}${a ? ` (${p.toFixed(0)}%)` : ""}`;
+
+export function gameShareText(g: GameEntry, who: ShareInfo) {
+  const b = boxScore(g.counts);
+  const c = g.counts;
+  const lines = [
+    `${who.jersey ? `#${who.jersey} ` : ""}${who.playerName} — ${formatDate(g.date)}${g.opponent ? ` vs ${g.opponent}` : ""}${
+      g.score && g.result ? ` (${g.result} ${g.score.team}-${g.score.opponent})` : ""
+    }`,
+    `${b.pts} PTS • FG ${split(b.fgm, b.fga, b.fgPct)} • 3P ${split(b.tpm, b.tpa, b.tpPct)} • FT ${split(b.ftm, b.fta, b.ftPct)}`,
+    `REB ${b.reb} • AST ${c.ast} • STL ${c.stl} • BLK ${c.blk ?? 0} • TO ${c.to} • PF ${c.pf}`,
+  ];
+  const custom = usedCustomKeys(g.custom);
+  if (custom.length) {
+    lines.push(custom.map((k) => `${statLabel(k, g.customStats)} ${g.custom?.[k]}`).join(" • "));
+  }
+  if (g.notes) lines.push(`Notes: ${g.notes}`);
+  lines.push("— Fly Stat Tracker");
+  return lines.join("\n");
+}
+
+const W = 1080;
+const H = 1350;
+const INK = "#0b0b0b";
+const GOOD = "#0b6b66";
+const BAD = "#d0482e";
+const NEUTRAL = "#7ea6bf";
+const FONT = "system-ui,-apple-system,Segoe UI,Roboto,Helvetica,Arial,sans-serif";
+
+function roundRect(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) {
+  ctx.beginPath();
+  ctx.moveTo(x + r, y);
+  ctx.arcTo(x + w, y, x + w, y + h, r);
+  ctx.arcTo(x + w, y + h, x, y + h, r);
+  ctx.arcTo(x, y + h, x, y, r);
+  ctx.arcTo(x, y, x + w, y, r);
+  ctx.closePath();
+}
+
+// Greedy word wrap, capped at maxLines with an ellipsis
+function wrap(ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number) {
+  const words = text.split(/\s+/);
+  const lines: string[] = [];
+  let line = "";
+  for (const w of words) {
+    const next = line ? `${line} ${w}` : w;
+    if (ctx.measureText(next).width <= maxWidth) {
+      line = next;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = w;
+    if (lines.length === maxLines) break;
+  }
+  if (line && lines.length < maxLines) lines.push(line);
+  if (lines.length === maxLines && lines.join(" ").length < text.length) {
+    lines[maxLines - 1] = `${lines[maxLines - 1].replace(/\s*\S*$/, "")}…`;
+  }
+  return lines;
+}
+
+export async function renderShareCard(g: GameEntry, who: ShareInfo): Promise<Blob> {
+  const canvas = document.createElement("canvas");
+  canvas.width = W;
+  canvas.height = H;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available");
+
+  const b = boxScore(g.counts);
+  const c = g.counts;
+
+  // Background + brand band
+  ctx.fillStyle = "#f6f6f4";
+  ctx.fillRect(0, 0, W, H);
+  ctx.fillStyle = INK;
+  ctx.fillRect(0, 0, W, 420);
+  ctx.fillStyle = GOOD;
+  ctx.fillRect(0, 420, W, 14);
+
+  ctx.fillStyle = "rgba(255,255,255,.6)";
+  ctx.font = `600 28px ${FONT}`;
+  ctx.fillText("PREPARE FOR TAKEOFF • FLY STAT TRACKER", 72, 100);
+
+  ctx.fillStyle = "#fff";
+  ctx.font = `900 84px ${FONT}`;
+  ctx.fillText(`${who.jersey ? `#${who.jersey} ` : ""}${who.playerName}`, 72, 210, W - 144);
+
+  ctx.fillStyle = "rgba(255,255,255,.8)";
+  ctx.font = `500 36px ${FONT}`;
+  ctx.fillText(`${formatDate(g.date)}${g.opponent ? `  •  vs ${g.opponent}` : ""}`, 72, 280, W - 144);
+  if (g.team) ctx.fillText(g.team, 72, 336, W - 144);
+
+  // Points
+  ctx.fillStyle = INK;
+  ctx.font = `900 220px ${FONT}`;
+  ctx.fillText(String(b.pts), 72, 680);
+  const ptsWidth = ctx.measureText(String(b.pts)).width;
+  ctx.fillStyle = "rgba(0,0,0,.55)";
+  ctx.font = `800 48px ${FONT}`;
+  ctx.fillText("PTS", 72 + ptsWidth + 20, 680);
+
+  // Shooting splits
+  const splits = [
+    { label: "FG", value: split(b.fgm, b.fga, b.fgPct) },
+    { label: "3P", value: split(b.tpm, b.tpa, b.tpPct) },
+    { label: "FT", value: split(b.ftm, b.fta, b.ftPct) },
+  ];
+  const sw = (W - 144 - 2 * 24) / 3;
+  splits.forEach((s, i) => {
+    const x = 72 + i * (sw + 24);
+    ctx.fillStyle = GOOD;
+    roundRect(ctx, x, 740, sw, 150, 28);
+    ctx.fill();
+    ctx.fillStyle = "rgba(255,255,255,.8)";
+    ctx.font = `700 28px ${FONT}`;
+    ctx.fillText(s.label, x + 28, 795);
+    ctx.fillStyle = "#fff";
+    ctx.font = `900 40px ${FONT}`;
+    ctx.fillText(s.value, x + 28, 855, sw - 56);
+  });
+
+  // Everything else
+  const others = [
+    { label: "REB", value: b.reb, color: NEUTRAL },
+    { label: "AST", value: c.ast, color: NEUTRAL },
+    { label: "STL", value: c.stl, color: NEUTRAL },
+    { label: "BLK", value: c.blk ?? 0, color: NEUTRAL },
+    { label: "TO", value: c.to, color: BAD },
+    { label: "PF", value: c.pf, color: BAD },
+  ];
+  const ow = (W - 144 - (others.length - 1) * 18) / others.length;
+  others.forEach((o, i) => {
+    const x = 72 + i * (ow + 18);
+    ctx.fillStyle = "#fff";
+    roundRect(ctx, x, 920, ow, 140, 24);
+    ctx.fill();
+    ctx.fillStyle = o.color;
+    ctx.fillRect(x, 940, 8, 100);
+    ctx.fillStyle = "rgba(0,0,0,.55)";
+    ctx.font = `700 26px ${FONT}`;
+    ctx.fillText(o.label, x + 28, 975);
+    ctx.fillStyle = INK;
+    ctx.font = `900 52px ${FONT}`;
+    ctx.fillText(String(o.value), x + 28, 1035);
+  });
+
+  if (g.notes) {
+    ctx.fillStyle = "rgba(0,0,0,.7)";
+    ctx.font = `italic 500 32px ${FONT}`;
+    wrap(ctx, `“${g.notes}”`, W - 144, 3).forEach((line, i) => ctx.fillText(line, 72, 1130 + i * 44));
+  }
+
+  ctx.fillStyle = "rgba(0,0,0,.4)";
+  ctx.font = `600 24px ${FONT}`;
+  ctx.fillText("Tracked with Fly Stat Tracker", 72, H - 56);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Couldn't render image"))), "image/png");
+  });
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { COURT, courtLoc, isThree, shotZone, shotsFromEvents, zoneSplits } from "./shots";
+import type { GameEvent, Shot } from "./types";
+
+const shot = (x: number, y: number, made = true): Shot => ({ x, y, made, three: isThree({ x, y }), period: 1, at: 0 });
+
+describe("isThree", () => {
+  it("reads the arc from the hoop", () => {
+    expect(isThree({ x: 25, y: 20 })).toBe(false); // free-throw line
+    expect(isThree({ x: 25, y: COURT.hoop.y + COURT.threeRadius + 0.5 })).toBe(true);
+  });
+
+  it("uses the straight line in the corners", () => {
+    expect(isThree({ x: 2, y: 2 })).toBe(true);
+    expect(isThree({ x: 8, y: 2 })).toBe(false);
+  });
+});
+
+describe("shotZone", () => {
+  it("splits twos into paint and midrange", () => {
+    expect(shotZone(shot(25, 8))).toBe("paint");
+    expect(shotZone(shot(12, 12))).toBe("midrange");
+    expect(shotZone(shot(25, 22))).toBe("midrange"); // above the free-throw line
+  });
+
+  it("splits threes into corner and above the break", () => {
+    expect(shotZone(shot(2, 6))).toBe("corner3");
+    expect(shotZone(shot(25, 27))).toBe("above3");
+  });
+});
+
+describe("shots from the event log", () => {
+  const ev = (key: GameEvent["key"], loc?: { x: number; y: number }, delta: 1 | -1 = 1): GameEvent => ({
+    id: key,
+    at: 1,
+    period: 2,
+    key,
+    delta,
+    loc,
+  });
+
+  it("keeps located field goals only", () => {
+    const shots = shotsFromEvents([ev("made3", { x: 2, y: 3 }), ev("miss2", { x: 25, y: 6 }), ev("made2"), ev("ast", { x: 1, y: 1 })]);
+    expect(shots).toEqual([
+      { x: 2, y: 3, made: true, three: true, period: 2, at: 1 },
+      { x: 25, y: 6, made: false, three: false, period: 2, at: 1 },
+    ]);
+  });
+
+  it("rounds and clamps taps to the court", () => {
+    expect(courtLoc(-3, 12.345)).toEqual({ x: 0, y: 12.3 });
+    expect(courtLoc(60, 50)).toEqual({ x: COURT.width, y: COURT.length });
+  });
+
+  it("gives make percentages by zone", () => {
+    const splits = zoneSplits([shot(25, 8), shot(25, 6, false), shot(2, 6)]);
+    expect(splits.find((z) => z.zone === "paint")).toMatchObject({ made: 1, att: 2, pct: 50 });
+    expect(splits.find((z) => z.zone === "corner3")).toMatchObject({ made: 1, att: 1, pct: 100 });
+    expect(splits.find((z) => z.zone === "above3")).toMatchObject({ made: 0, att: 0, pct: 0 });
+  });
+});
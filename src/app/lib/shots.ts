@@ -0,0 +1,67 @@
+import { pct } from "./stats";
+import type { GameEvent, Shot, ShotLoc } from "./types";
+
+/**
+ * Shot locations on a half court (high-school lines)
+ * - Coordinates are in feet: x 0-50 across the baseline, y 0-47 out from the baseline
+ * - 2 vs 3 is read off the arc; zones group shots for make percentages
+ */
+
+export const COURT = {
+  width: 50,
+  length: 47, // baseline to half-court line
+  hoop: { x: 25, y: 5.25 },
+  threeRadius: 19.75, // arc, measured from the centre of the hoop
+  laneWidth: 12,
+  ftLine: 19, // free-throw line, from the baseline
+  cornerDepth: 14, // corner 3s are taken below this
+};
+
+export type ShotZone = "paint" | "midrange" | "corner3" | "above3";
+
+export const ZONES: { key: ShotZone; label: string }[] = [
+  { key: "paint", label: "Paint" },
+  { key: "midrange", label: "Midrange" },
+  { key: "corner3", label: "Corner 3" },
+  { key: "above3", label: "Above-the-break 3" },
+];
+
+export function isThree({ x, y }: ShotLoc) {
+  const dx = x - COURT.hoop.x;
+  // Below the hoop the line runs straight to the baseline
+  if (y <= COURT.hoop.y) return Math.abs(dx) >= COURT.threeRadius;
+  return Math.hypot(dx, y - COURT.hoop.y) >= COURT.threeRadius;
+}
+
+export function shotZone(s: Shot): ShotZone {
+  if (s.three) return s.y <= COURT.cornerDepth ? "corner3" : "above3";
+  const inLane = Math.abs(s.x - COURT.hoop.x) <= COURT.laneWidth / 2 && s.y <= COURT.ftLine;
+  return inLane ? "paint" : "midrange";
+}
+
+// Court coordinates, rounded so saved games stay small
+export function courtLoc(x: number, y: number): ShotLoc {
+  const clamp = (v: number, max: number) => Math.min(max, Math.max(0, v));
+  return { x: Math.round(clamp(x, COURT.width) * 10) / 10, y: Math.round(clamp(y, COURT.length) * 10) / 10 };
+}
+
+/** Located field-goal attempts from the event log. Removals (delta -1) aren't shots. */
+export function shotsFromEvents(events: GameEvent[]): Shot[] {
+  return events
+    .filter((e) => e.loc && e.delta === 1 && ["made2", "miss2", "made3", "miss3"].includes(e.key))
+    .map((e) => ({
+      ...(e.loc as ShotLoc),
+      made: e.key === "made2" || e.key === "made3",
+      three: e.key === "made3" || e.key === "miss3",
+      period: e.period,
+      at: e.at,
+    }));
+}
+
+export function zoneSplits(shots: Shot[]) {
+  return ZONES.map(({ key, label }) => {
+    const inZone = shots.filter((s) => shotZone(s) === key);
+    const made = inZone.filter((s) => s.made).length;
+    return { zone: key, label, made, att: inZone.length, pct: pct(made, inZone.length) };
+  });
+}
@@ -0,0 +1,231 @@
+import { describe, expect, it } from "vitest";
+import { emptyCounts } from "./counts";
+import { gameFixture } from "./fixtures";
+import {
+  advancedStats,
+  avg,
+  boxScore,
+  countsFromEvents,
+  customFromEvents,
+  eventsFromCounts,
+  formatRecord,
+  gameResult,
+  pct,
+  points,
+  runningTotals,
+  recordOf,
+  seasonSummary,
+  sumCounts,
+  teamPointsShare,
+  trendSeries,
+} from "./stats";
+import type { CustomStat, GameEntry, GameEvent, LiveCounts, StatKey } from "./types";
+
+const line = (c: Partial<LiveCounts>): LiveCounts => ({ ...emptyCounts, ...c });
+
+let seq = 0;
+const ev = (key: StatKey, delta: 1 | -1 = 1, period = 1): GameEvent => ({ id: `e${++seq}`, at: seq, period, key, delta });
+
+const game = (counts: Partial<LiveCounts>, extra: Partial<GameEntry> = {}): GameEntry =>
+  gameFixture({ counts: line(counts), ...extra });
+
+describe("pct / avg", () => {
+  it("returns 0 instead of dividing by zero", () => {
+    expect(pct(3, 0)).toBe(0);
+    expect(avg(10, 0)).toBe(0);
+  });
+
+  it("computes percentages and averages", () => {
+    expect(pct(1, 4)).toBe(25);
+    expect(avg(30, 4)).toBe(7.5);
+  });
+});
+
+describe("sumCounts", () => {
+  it("adds every box-score key", () => {
+    const total = sumCounts(line({ made2: 2, ast: 1 }), line({ made2: 1, blk: 3 }));
+    expect(total).toEqual(line({ made2: 3, ast: 1, blk: 3 }));
+  });
+
+  it("treats keys missing on either side as 0", () => {
+    const old = { ...emptyCounts } as Partial<LiveCounts>;
+    delete old.blk; // saved before blocks existed
+    expect(sumCounts(line({ blk: 2 }), old as LiveCounts).blk).toBe(2);
+    expect(sumCounts({ "custom:defl-1": 2 }, { "custom:charge-1": 1 })).toEqual({
+      "custom:defl-1": 2,
+      "custom:charge-1": 1,
+    });
+  });
+});
+
+describe("countsFromEvents", () => {
+  it("projects the event log and never goes below zero", () => {
+    const c = countsFromEvents([ev("made2"), ev("made2"), ev("made2", -1), ev("ast", -1), ev("made3")]);
+    expect(c).toEqual(line({ made2: 1, made3: 1 }));
+  });
+
+  it("keeps custom stats out of the box score", () => {
+    const events = [ev("custom:defl-1"), ev("custom:defl-1"), ev("stl")];
+    expect(countsFromEvents(events)).toEqual(line({ stl: 1 }));
+    expect(customFromEvents(events)).toEqual({ "custom:defl-1": 2 });
+  });
+
+  it("turns counts saved before the event log back into events", () => {
+    const events = eventsFromCounts(line({ made3: 2, ast: 1, pf: -1 }), 50);
+    expect(events).toHaveLength(3);
+    expect(new Set(events.map((e) => e.id)).size).toBe(3);
+    expect(countsFromEvents(events)).toEqual(line({ made3: 2, ast: 1 }));
+  });
+
+  it("gives a running tally and points per event", () => {
+    const rows = runningTotals([ev("made3"), ev("madeFT"), ev("made3")]);
+    expect(rows.map((r) => [r.tally, r.pts])).toEqual([
+      [1, 3],
+      [1, 4],
+      [2, 7],
+    ]);
+  });
+});
+
+describe("boxScore", () => {
+  it("derives points, splits and rebounds", () => {
+    const b = boxScore(line({ made2: 3, miss2: 2, made3: 1, miss3: 3, madeFT: 2, missFT: 2, orb: 1, drb: 4 }));
+    expect(b).toMatchObject({ pts: 11, fgm: 4, fga: 9, tpm: 1, tpa: 4, ftm: 2, fta: 4, reb: 5 });
+    expect(b.fgPct).toBeCloseTo(44.44, 2);
+    expect(b.tpPct).toBe(25);
+    expect(b.ftPct).toBe(50);
+    expect(points(line({ made2: 3, made3: 1, madeFT: 2 }))).toBe(11);
+  });
+});
+
+describe("advancedStats", () => {
+  it("computes eFG%, TS% and the rates", () => {
+    // 4-10 FG (2-5 3P), 4-4 FT: 14 PTS
+    const a = advancedStats(line({ made2: 2, miss2: 3, made3: 2, miss3: 3, madeFT: 4, ast: 6, to: 3 }));
+    expect(a.efgPct).toBe(50);
+    expect(a.tsPct).toBeCloseTo((14 / (2 * (10 + 0.44 * 4))) * 100, 6);
+    expect(a.astTo).toBe(2);
+    expect(a.ftRate).toBe(0.4);
+    expect(a.tpaRate).toBe(0.5);
+  });
+
+  it("returns null for ratios with nothing to divide by", () => {
+    const a = advancedStats(line({ ast: 2 }));
+    expect(a.efgPct).toBeNull();
+    expect(a.tsPct).toBeNull();
+    expect(a.astTo).toBeNull();
+    expect(a.ftRate).toBeNull();
+    expect(a.tpaRate).toBeNull();
+  });
+
+  it("scores a game with Hollinger's formula", () => {
+    const c = line({ made2: 4, miss2: 4, madeFT: 2, missFT: 2, orb: 2, drb: 3, stl: 1, ast: 2, blk: 1, pf: 2, to: 1 });
+    // 10 + 1.6 - 5.6 - 0.8 + 1.4 + 0.9 + 1 + 1.4 + 0.7 - 0.8 - 1
+    expect(advancedStats(c).gameScore).toBeCloseTo(8.8, 6);
+  });
+});
+
+describe("seasonSummary", () => {
+  const defl: CustomStat = { key: "custom:defl-1", label: "Deflection", short: "DEFL", tone: "neutral", section: "hustle" };
+  const charge: CustomStat = { key: "custom:charge-1", label: "Charge", short: "CT", tone: "good", section: "hustle" };
+
+  it("is all zeros for no games", () => {
+    const s = seasonSummary([], { perMinutes: 36 });
+    expect(s.games).toBe(0);
+    expect(s.ppg).toBe(0);
+    expect(s.fgPct).toBe(0);
+    expect(s.advanced.gameScore).toBe(0);
+    expect(s.timedGames).toBe(0);
+  });
+
+  it("averages per game and takes percentages from totals", () => {
+    const s = seasonSummary(
+      [game({ made2: 5, miss2: 5, orb: 2, ast: 3 }), game({ made3: 1, miss3: 9, drb: 4, ast: 1, blk: 2 })],
+      { perMinutes: 36 }
+    );
+    expect(s.games).toBe(2);
+    expect(s.ppg).toBe(6.5);
+    expect(s.rpg).toBe(3);
+    expect(s.apg).toBe(2);
+    expect(s.blkg).toBe(1);
+    expect(s.fgPct).toBe(30); // 6 of 20, not the 50% / 10% average
+    expect(s.advanced.gameScore).toBeCloseTo(advancedStats(s.total).gameScore / 2, 6);
+  });
+
+  it("only uses timed games for minutes and per-36 rates", () => {
+    const s = seasonSummary(
+      [game({ made2: 6 }, { minutes: 18 }), game({ made2: 3 }, { minutes: 18 }), game({ made2: 10 })],
+      { perMinutes: 36 }
+    );
+    expect(s.timedGames).toBe(2);
+    expect(s.mpg).toBe(18);
+    expect(s.ptsPer).toBe(18); // 18 PTS in 36 timed minutes
+    expect(seasonSummary([game({ made2: 8 }, { minutes: 16 })], { perMinutes: 32 }).ptsPer).toBe(32);
+  });
+
+  it("lists custom stats that were recorded or are pinned", () => {
+    const s = seasonSummary(
+      [game({}, { custom: { "custom:defl-1": 3 } }), game({}, { custom: { "custom:defl-1": 1 } })],
+      { perMinutes: 36, customStats: [defl, charge], pinned: [] }
+    );
+    expect(s.custom).toEqual([{ key: defl.key, label: "Deflection", total: 4, perGame: 2 }]);
+
+    const pinned = seasonSummary([game({})], { perMinutes: 36, customStats: [defl, charge], pinned: [charge.key] });
+    expect(pinned.custom).toEqual([{ key: charge.key, label: "Charge", total: 0, perGame: 0 }]);
+  });
+});
+
+describe("game results", () => {
+  it("derives W / L / T from the final score", () => {
+    expect(gameResult({ team: 52, opponent: 40 })).toBe("W");
+    expect(gameResult({ team: 38, opponent: 40 })).toBe("L");
+    expect(gameResult({ team: 40, opponent: 40 })).toBe("T");
+  });
+
+  it("counts the record over scored games only", () => {
+    const r = recordOf([
+      game({}, { score: { team: 50, opponent: 41 } }),
+      game({}, { score: { team: 30, opponent: 41 } }),
+      game({}, { score: { team: 44, opponent: 40 } }),
+      game({}),
+    ]);
+    expect(r).toEqual({ w: 2, l: 1, t: 0 });
+    expect(formatRecord(r)).toBe("2-1");
+    expect(formatRecord({ w: 1, l: 0, t: 2 })).toBe("1-0-2");
+  });
+
+  it("shares team points across scored games, ignoring unscored ones", () => {
+    const share = teamPointsShare([
+      game({ made2: 5 }, { score: { team: 40, opponent: 30 } }),
+      game({ made2: 5 }, { score: { team: 60, opponent: 30 } }),
+      game({ made2: 20 }),
+    ]);
+    expect(share).toBe(20); // 20 of 100
+    expect(teamPointsShare([game({ made2: 4 })])).toBeNull();
+  });
+});
+
+describe("trendSeries", () => {
+  const dated = (date: string, c: Partial<LiveCounts>) => game(c, { date });
+
+  it("orders games by date and rolls averages once the window is full", () => {
+    const t = trendSeries(
+      [dated("2026-01-03", { made2: 5 }), dated("2026-01-01", { made2: 2 }), dated("2026-01-02", { made2: 4 })],
+      "pts"
+    );
+    expect(t.points.map((p) => p.value)).toEqual([4, 8, 10]);
+    expect(t.points.map((p) => p.avg3)).toEqual([null, null, 22 / 3]);
+    expect(t.points.every((p) => p.avg5 === null)).toBe(true);
+    expect(t.seasonAvg).toBeCloseTo(22 / 3, 6);
+  });
+
+  it("pools shooting percentages and leaves games without attempts empty", () => {
+    const t = trendSeries(
+      [dated("2026-01-01", { made3: 1, miss3: 3 }), dated("2026-01-02", {}), dated("2026-01-03", { made3: 3, miss3: 1 })],
+      "tpPct"
+    );
+    expect(t.points.map((p) => p.value)).toEqual([25, null, 75]);
+    expect(t.points[2].avg3).toBe(50); // 4 of 8, not the mean of 25 and 75
+    expect(trendSeries([dated("2026-01-01", {})], "ftPct").seasonAvg).toBeNull();
+  });
+});
@@ -0,0 +1,348 @@
+import { COUNT_KEYS, emptyCounts, isCustomKey } from "./counts";
+import type {
+  CustomCounts,
+  CustomKey,
+  CustomStat,
+  GameEntry,
+  GameEvent,
+  GameResult,
+  GameScore,
+  LiveCounts,
+} from "./types";
+
+/**
+ * Stats engine: every formula the app shows lives here (and only here)
+ * - Counting: events -> counts (and back, for counts saved before the event log), summing stat lines
+ * - Box score + efficiency metrics for one stat line
+ * - Season aggregation for the Player Log and CSV export
+ * - Results: W/L from the final score, record, share of team points
+ * - Trends: one stat per game over time, rolling averages, season average
+ * Pure functions only; covered by stats.test.ts.
+ */
+
+export function pct(made: number, att: number) {
+  if (!att) return 0;
+  return (made / att) * 100;
+}
+
+export function avg(numerator: number, denom: number) {
+  if (!denom) return 0;
+  return numerator / denom;
+}
+
+const clampNonNeg = (n: number) => Math.max(0, n);
+
+// Box-score counts or custom stat counts; a key missing on either side counts as 0
+export function sumCounts<T extends Record<string, number>>(a: T, b: T): T {
+  const out: Record<string, number> = { ...a };
+  Object.keys(b).forEach((k) => {
+    out[k] = (out[k] ?? 0) + (b[k] ?? 0);
+  });
+  return out as T;
+}
+
+export function points(c: LiveCounts) {
+  return c.made2 * 2 + c.made3 * 3 + c.madeFT;
+}
+
+/** Box-score counts from the event log. A count never goes below 0. */
+export function countsFromEvents(events: GameEvent[]): LiveCounts {
+  const out: LiveCounts = { ...emptyCounts };
+  events.forEach((e) => {
+    if (isCustomKey(e.key)) return;
+    out[e.key] = clampNonNeg(out[e.key] + e.delta);
+  });
+  return out;
+}
+
+export function customFromEvents(events: GameEvent[]): CustomCounts {
+  const out = {} as CustomCounts;
+  events.forEach((e) => {
+    if (isCustomKey(e.key)) out[e.key] = clampNonNeg((out[e.key] ?? 0) + e.delta);
+  });
+  return out;
+}
+
+/**
+ * Stand-in events for counts kept before there was an event log (old drafts): one +1 per count,
+ * all in period 1 at `at`. The box score comes out the same; the play-by-play has no real timing.
+ */
+export function eventsFromCounts(counts: LiveCounts, at: number): GameEvent[] {
+  return COUNT_KEYS.flatMap((key) =>
+    Array.from({ length: clampNonNeg(Math.floor(Number(counts[key]) || 0)) }, (_, i) => ({
+      id: `legacy-${key}-${i}`,
+      at,
+      period: 1,
+      key,
+      delta: 1 as const,
+    }))
+  );
+}
+
+/** Running tally of one stat and points after each event (play-by-play rows). */
+export function runningTotals(events: GameEvent[]) {
+  const running: Record<string, number> = { ...emptyCounts };
+  return events.map((e) => {
+    running[e.key] = clampNonNeg((running[e.key] ?? 0) + e.delta);
+    return { e, tally: running[e.key], pts: points(running as LiveCounts) };
+  });
+}
+
+// Shooting splits + points for one stat line
+export function boxScore(c: LiveCounts) {
+  const fgm = c.made2 + c.made3;
+  const fga = c.made2 + c.miss2 + c.made3 + c.miss3;
+  const tpm = c.made3;
+  const tpa = c.made3 + c.miss3;
+  const ftm = c.madeFT;
+  const fta = c.madeFT + c.missFT;
+
+  return {
+    pts: points(c),
+    fgm,
+    fga,
+    fgPct: pct(fgm, fga),
+    tpm,
+    tpa,
+    tpPct: pct(tpm, tpa),
+    ftm,
+    fta,
+    ftPct: pct(ftm, fta),
+    reb: c.orb + c.drb,
+  };
+}
+
+/**
+ * Efficiency metrics for a stat line (one game, or season totals).
+ * Ratios with a zero denominator are null so the UI can show "—" rather than a fake 0.
+ */
+export function advancedStats(c: LiveCounts) {
+  const b = boxScore(c);
+  const blk = c.blk ?? 0;
+  const ratio = (n: number, d: number) => (d ? n / d : null);
+
+  return {
+    efgPct: b.fga ? pct(b.fgm + 0.5 * b.tpm, b.fga) : null,
+    tsPct: b.fga || b.fta ? pct(b.pts, 2 * (b.fga + 0.44 * b.fta)) : null,
+    astTo: ratio(c.ast, c.to),
+    ftRate: ratio(b.fta, b.fga),
+    tpaRate: ratio(b.tpa, b.fga),
+    // Hollinger's game score
+    gameScore:
+      b.pts +
+      0.4 * b.fgm -
+      0.7 * b.fga -
+      0.4 * (b.fta - b.ftm) +
+      0.7 * c.orb +
+      0.3 * c.drb +
+      c.stl +
+      0.7 * c.ast +
+      0.7 * blk -
+      0.4 * c.pf -
+      c.to,
+  };
+}
+
+export type AdvancedStats = ReturnType<typeof advancedStats>;
+
+// Labels + the formula shown as a tooltip, in display order
+export const ADVANCED_METRICS: { key: keyof AdvancedStats; label: string; formula: string; pct?: boolean }[] = [
+  { key: "efgPct", label: "eFG%", formula: "Effective FG%: (FGM + 0.5 × 3PM) ÷ FGA. Credits a 3 for the extra point.", pct: true },
+  { key: "tsPct", label: "TS%", formula: "True shooting: PTS ÷ (2 × (FGA + 0.44 × FTA)). Counts 2s, 3s and free throws.", pct: true },
+  { key: "astTo", label: "AST/TO", formula: "Assists ÷ turnovers." },
+  { key: "ftRate", label: "FT RATE", formula: "Free-throw rate: FTA ÷ FGA. How often the player gets to the line." },
+  { key: "tpaRate", label: "3PA RATE", formula: "Three-point rate: 3PA ÷ FGA. Share of shots taken from three." },
+  {
+    key: "gameScore",
+    label: "GM SC",
+    formula:
+      "Game score: PTS + 0.4 FGM − 0.7 FGA − 0.4 (FTA − FTM) + 0.7 ORB + 0.3 DRB + STL + 0.7 AST + 0.7 BLK − 0.4 PF − TO. Per game for a season; ~10 is a solid game.",
+  },
+];
+
+export function formatMetric(m: (typeof ADVANCED_METRICS)[number], v: number | null) {
+  if (v === null) return "—";
+  return m.pct ? `${v.toFixed(1)}%` : v.toFixed(m.key === "gameScore" ? 1 : 2);
+}
+
+// Mirrors the Player Log "Season-to-date" panel
+export type SeasonSummary = {
+  games: number;
+  total: LiveCounts;
+  ppg: number;
+  rpg: number;
+  orbg: number;
+  drbg: number;
+  apg: number;
+  topg: number;
+  stlg: number;
+  blkg: number;
+  pfpg: number;
+  fgPct: number;
+  tpPct: number;
+  ftPct: number;
+  advanced: AdvancedStats; // ratios over season totals; gameScore per game
+  timedGames: number; // games with minutes played
+  mpg: number;
+  perMinutes: number;
+  ptsPer: number;
+  rebPer: number;
+  astPer: number;
+  custom: { key: CustomKey; label: string; total: number; perGame: number }[];
+};
+
+export type SeasonOptions = {
+  perMinutes: number; // rate stats per 36 (or 32)
+  customStats?: CustomStat[]; // definitions to label custom stats with
+  pinned?: CustomKey[]; // custom stats to list even at 0 (the ones on the tracker now)
+};
+
+/** Season-to-date aggregates for a set of games. */
+export function seasonSummary(games: GameEntry[], opts: SeasonOptions): SeasonSummary {
+  const total = games.reduce((acc, g) => sumCounts(acc, g.counts), { ...emptyCounts });
+  const customTotal = games.reduce((acc, g) => sumCounts(acc, g.custom ?? ({} as CustomCounts)), {} as CustomCounts);
+  const n = games.length;
+  const b = boxScore(total);
+  const adv = advancedStats(total);
+
+  // Minutes-based stats only count games where the clock was run
+  const timed = games.filter((g) => g.minutes);
+  const minutes = timed.reduce((m, g) => m + (g.minutes ?? 0), 0);
+  const timedTotal = timed.reduce((acc, g) => sumCounts(acc, g.counts), { ...emptyCounts });
+  const per = opts.perMinutes;
+  const perRate = (v: number) => avg(v * per, minutes);
+
+  const pinned = opts.pinned ?? [];
+
+  return {
+    games: n,
+    total,
+    ppg: avg(b.pts, n),
+    rpg: avg(b.reb, n),
+    orbg: avg(total.orb, n),
+    drbg: avg(total.drb, n),
+    apg: avg(total.ast, n),
+    topg: avg(total.to, n),
+    stlg: avg(total.stl, n),
+    blkg: avg(total.blk, n),
+    pfpg: avg(total.pf, n),
+    fgPct: b.fgPct,
+    tpPct: b.tpPct,
+    ftPct: b.ftPct,
+    // Ratios over season totals; game score is per game
+    advanced: { ...adv, gameScore: avg(adv.gameScore, n) },
+    timedGames: timed.length,
+    mpg: avg(minutes, timed.length),
+    perMinutes: per,
+    ptsPer: perRate(boxScore(timedTotal).pts),
+    rebPer: perRate(timedTotal.orb + timedTotal.drb),
+    astPer: perRate(timedTotal.ast),
+    custom: (opts.customStats ?? [])
+      .filter((d) => pinned.includes(d.key) || customTotal[d.key])
+      .map((d) => ({ key: d.key, label: d.label, total: customTotal[d.key] ?? 0, perGame: avg(customTotal[d.key] ?? 0, n) })),
+  };
+}
+
+export function gameResult(score: GameScore): GameResult {
+  if (score.team > score.opponent) return "W";
+  if (score.team < score.opponent) return "L";
+  return "T";
+}
+
+/** Wins / losses / ties over the games that have a final score. */
+export function recordOf(games: GameEntry[]) {
+  const out = { w: 0, l: 0, t: 0 };
+  games.forEach((g) => {
+    if (!g.score) return;
+    const r = gameResult(g.score);
+    if (r === "W") out.w++;
+    else if (r === "L") out.l++;
+    else out.t++;
+  });
+  return out;
+}
+
+export function formatRecord(r: { w: number; l: number; t: number }) {
+  return `${r.w}-${r.l}${r.t ? `-${r.t}` : ""}`;
+}
+
+/** The player's points as a % of team points, over games with a final score (null when there are none). */
+export function teamPointsShare(games: GameEntry[]) {
+  const scored = games.filter((g) => g.score);
+  const team = scored.reduce((n, g) => n + (g.score?.team ?? 0), 0);
+  if (!scored.length) return null;
+  return pct(scored.reduce((n, g) => n + points(g.counts), 0), team);
+}
+
+export type TrendKey = "pts" | "reb" | "ast" | "to" | "fgPct" | "tpPct" | "ftPct";
+
+export const TREND_METRICS: { key: TrendKey; label: string; pct?: boolean }[] = [
+  { key: "pts", label: "PTS" },
+  { key: "reb", label: "REB" },
+  { key: "ast", label: "AST" },
+  { key: "to", label: "TO" },
+  { key: "fgPct", label: "FG%", pct: true },
+  { key: "tpPct", label: "3P%", pct: true },
+  { key: "ftPct", label: "FT%", pct: true },
+];
+
+// [numerator, denominator] for one game; counting stats are over 1 game
+function trendParts(c: LiveCounts, key: TrendKey): [number, number] {
+  const b = boxScore(c);
+  switch (key) {
+    case "pts":
+      return [b.pts, 1];
+    case "reb":
+      return [b.reb, 1];
+    case "ast":
+      return [c.ast, 1];
+    case "to":
+      return [c.to, 1];
+    case "fgPct":
+      return [b.fgm, b.fga];
+    case "tpPct":
+      return [b.tpm, b.tpa];
+    case "ftPct":
+      return [b.ftm, b.fta];
+  }
+}
+
+export type TrendPoint = {
+  id: string;
+  date: string;
+  opponent: string;
+  value: number | null; // null: no attempts that game
+  avg3: number | null; // rolling averages, once there are that many games
+  avg5: number | null;
+};
+
+/**
+ * One stat per game, oldest first. Averages (rolling and season) pool the games like seasonSummary does,
+ * so a 3-game FG% is makes / attempts over those games, not an average of three percentages.
+ */
+export function trendSeries(games: GameEntry[], key: TrendKey) {
+  const scale = TREND_METRICS.find((m) => m.key === key)?.pct ? 100 : 1;
+  const ordered = [...games].sort((a, b) => a.date.localeCompare(b.date) || a.createdAt - b.createdAt);
+  const parts = ordered.map((g) => trendParts(g.counts, key));
+
+  const pooled = (from: number, to: number) => {
+    let num = 0;
+    let den = 0;
+    for (let i = from; i < to; i++) {
+      num += parts[i][0];
+      den += parts[i][1];
+    }
+    return den ? (num / den) * scale : null;
+  };
+  const rolling = (i: number, n: number) => (i + 1 >= n ? pooled(i + 1 - n, i + 1) : null);
+
+  const points: TrendPoint[] = ordered.map((g, i) => ({
+    id: g.id,
+    date: g.date,
+    opponent: g.opponent,
+    value: pooled(i, i + 1),
+    avg3: rolling(i, 3),
+    avg5: rolling(i, 5),
+  }));
+  return { points, seasonAvg: pooled(0, parts.length) };
+}
@@ -0,0 +1,355 @@
+import { COUNT_KEYS, emptyCounts, isCustomKey, validCustomStat } from "./counts";
+import { gameResult } from "./stats";
+import type { CustomCounts, CustomKey, GameEntry, GameEvent, GameScore, LiveCounts, Player, Season, Shot } from "./types";
+import { makeId } from "./util";
+
+/**
+ * Versioned local storage for saved games, roster + seasons
+ * - Games live in one envelope ({ schemaVersion, games }) under GAMES_KEY; roster and seasons are plain lists
+ * - Older formats (v1 / v2 keys) are run through the migration chain on first load
+ * - Every record is validated; anything unreadable is copied to QUARANTINE_KEY and reported,
+ *   never silently dropped, and a store we can't read at all is never overwritten
+ */
+
+export const SCHEMA_VERSION = 3;
+
+export const GAMES_KEY = "flyStatTracker.games";
+export const PLAYERS_KEY = "flyStatTracker.players.v1";
+export const SEASONS_KEY = "flyStatTracker.seasons.v1";
+export const QUARANTINE_KEY = "flyStatTracker.quarantine";
+
+// Pre-envelope keys, newest first. Left in place after migrating as a fallback copy.
+const LEGACY_KEYS: { key: string; version: number }[] = [
+  { key: "flyStatTracker.games.v2", version: 2 },
+  { key: "flyStatTracker.games.v1", version: 1 },
+];
+
+type GamesEnvelope = {
+  schemaVersion: number;
+  savedAt: number;
+  games: unknown[];
+};
+
+export type QuarantineEntry = {
+  at: number;
+  source: string; // storage key the data came from
+  reason: string;
+  raw: unknown;
+};
+
+export type StorageProblem = {
+  source: string;
+  message: string;
+  count: number;
+};
+
+export type LoadResult = {
+  games: GameEntry[];
+  players: Player[];
+  seasons: Season[];
+  problems: StorageProblem[];
+  // false when the stored data is unreadable and couldn't be set aside (or is from a newer app)
+  writable: boolean;
+};
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function str(v: unknown, fallback = "") {
+  return typeof v === "string" ? v : fallback;
+}
+
+/**
+ * Record migrations. migrations[n] upgrades version-n records to version n + 1.
+ */
+const migrations: Record<number, (records: unknown[]) => unknown[]> = {
+  // v1 -> v2: v1 records could be missing id / createdAt / team
+  1: (records) =>
+    records.map((r) => {
+      if (!isObject(r)) return r;
+      const createdAt = typeof r.createdAt === "number" ? r.createdAt : Date.parse(str(r.date)) || Date.now();
+      return {
+        ...r,
+        id: str(r.id) || makeId(),
+        createdAt,
+        team: str(r.team, "Fly Academy"),
+        opponent: str(r.opponent),
+      };
+    }),
+  // v2 -> v3: records unchanged; v3 wraps them in a versioned envelope
+  2: (records) => records,
+};
+
+export function migrateRecords(records: unknown[], fromVersion: number) {
+  let out = records;
+  for (let v = fromVersion; v < SCHEMA_VERSION; v++) {
+    const step = migrations[v];
+    if (step) out = step(out);
+  }
+  return out;
+}
+
+export function validCounts(v: unknown): LiveCounts | null {
+  if (!isObject(v)) return null;
+  const out: LiveCounts = { ...emptyCounts };
+  for (const k of COUNT_KEYS) {
+    const n = v[k] ?? 0;
+    if (typeof n !== "number" || !Number.isFinite(n) || n < 0) return null;
+    out[k] = n;
+  }
+  return out;
+}
+
+// Custom stat counts keep only well-formed keys with non-negative numbers
+export function validCustom(v: unknown): CustomCounts | undefined {
+  if (!isObject(v)) return undefined;
+  const out = {} as CustomCounts;
+  Object.entries(v).forEach(([k, n]) => {
+    if (isCustomKey(k) && typeof n === "number" && Number.isFinite(n) && n > 0) out[k as CustomKey] = n;
+  });
+  return Object.keys(out).length ? out : undefined;
+}
+
+function validScore(v: unknown): GameScore | undefined {
+  if (!isObject(v)) return undefined;
+  const ok = (n: unknown) => typeof n === "number" && Number.isFinite(n) && n >= 0;
+  return ok(v.team) && ok(v.opponent) ? { team: v.team as number, opponent: v.opponent as number } : undefined;
+}
+
+function validShot(v: unknown): v is Shot {
+  return (
+    isObject(v) &&
+    typeof v.x === "number" &&
+    typeof v.y === "number" &&
+    typeof v.made === "boolean" &&
+    typeof v.three === "boolean"
+  );
+}
+
+export function validEvent(v: unknown): v is GameEvent {
+  return (
+    isObject(v) &&
+    typeof v.id === "string" &&
+    typeof v.at === "number" &&
+    typeof v.period === "number" &&
+    typeof v.key === "string" &&
+    ((COUNT_KEYS as string[]).includes(v.key) || isCustomKey(v.key)) &&
+    (v.delta === 1 || v.delta === -1)
+  );
+}
+
+/** Returns the game, normalized, or a reason it can't be used. */
+export function validateGame(v: unknown): GameEntry | string {
+  if (!isObject(v)) return "not an object";
+  if (typeof v.id !== "string" || !v.id) return "missing id";
+  if (typeof v.playerName !== "string") return "missing playerName";
+  if (typeof v.date !== "string") return "missing date";
+  const counts = validCounts(v.counts);
+  if (!counts) return "bad counts";
+
+  const g = v as unknown as GameEntry;
+  const score = validScore(v.score);
+  return {
+    ...g,
+    createdAt: typeof v.createdAt === "number" ? v.createdAt : Date.parse(g.date) || 0,
+    team: str(v.team),
+    opponent: str(v.opponent),
+    seasonId: typeof v.seasonId === "string" ? v.seasonId : undefined,
+    counts,
+    custom: validCustom(v.custom),
+    score,
+    result: score ? gameResult(score) : undefined,
+    minutes: typeof v.minutes === "number" && Number.isFinite(v.minutes) && v.minutes >= 0 ? v.minutes : undefined,
+    customStats: Array.isArray(v.customStats) ? v.customStats.filter(validCustomStat) : undefined,
+    shots: Array.isArray(v.shots) ? v.shots.filter(validShot) : undefined,
+    events: Array.isArray(v.events) ? v.events.filter(validEvent) : undefined,
+  };
+}
+
+export function validatePlayer(v: unknown): Player | string {
+  if (!isObject(v)) return "not an object";
+  if (typeof v.id !== "string" || !v.id) return "missing id";
+  if (typeof v.name !== "string" || !v.name.trim()) return "missing name";
+  return {
+    ...(v as unknown as Player),
+    createdAt: typeof v.createdAt === "number" ? v.createdAt : 0,
+    jersey: str(v.jersey),
+    position: str(v.position),
+    team: str(v.team),
+  };
+}
+
+export function validateSeason(v: unknown): Season | string {
+  if (!isObject(v)) return "not an object";
+  if (typeof v.id !== "string" || !v.id) return "missing id";
+  if (typeof v.name !== "string") return "missing name";
+  if (typeof v.startDate !== "string" || typeof v.endDate !== "string") return "missing dates";
+  return { ...(v as unknown as Season), team: str(v.team) || undefined };
+}
+
+export function readQuarantine(): QuarantineEntry[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(QUARANTINE_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Append to the quarantine. Returns false if it couldn't be written (e.g. quota). */
+function quarantine(entries: QuarantineEntry[]) {
+  if (!entries.length) return true;
+  try {
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify([...readQuarantine(), ...entries]));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function validateAll<T>(
+  records: unknown[],
+  source: string,
+  validate: (v: unknown) => T | string
+): { items: T[]; rejected: QuarantineEntry[] } {
+  const items: T[] = [];
+  const rejected: QuarantineEntry[] = [];
+  records.forEach((raw) => {
+    const res = validate(raw);
+    if (typeof res === "string") rejected.push({ at: Date.now(), source, reason: res, raw });
+    else items.push(res);
+  });
+  return { items, rejected };
+}
+
+/**
+ * Validate records read from a store and set the rejects aside in the quarantine.
+ * `setAside` is false when the quarantine is full; the caller must then leave the originals where they are.
+ */
+export function checkRecords<T>(
+  records: unknown[],
+  source: string,
+  validate: (v: unknown) => T | string,
+  one: string,
+  many: string
+): { items: T[]; rejected: unknown[]; setAside: boolean; problem: StorageProblem | null } {
+  const res = validateAll(records, source, validate);
+  const n = res.rejected.length;
+  if (!n) return { items: res.items, rejected: [], setAside: true, problem: null };
+  return {
+    items: res.items,
+    rejected: res.rejected.map((r) => r.raw),
+    setAside: quarantine(res.rejected),
+    problem: {
+      source,
+      count: n,
+      message: `${n} ${n === 1 ? one : many} couldn't be read and ${n === 1 ? "was" : "were"} set aside.`,
+    },
+  };
+}
+
+type FoundRecords =
+  | { source: string; records: unknown[] }
+  | { source: string; unreadable: string }
+  | { source: string; newer: number };
+
+// Find the newest stored copy of the games and bring it up to SCHEMA_VERSION
+function readGameRecords(): FoundRecords | null {
+  const raw = localStorage.getItem(GAMES_KEY);
+  if (raw !== null) {
+    try {
+      const env = JSON.parse(raw) as GamesEnvelope;
+      if (!isObject(env) || typeof env.schemaVersion !== "number" || !Array.isArray(env.games)) {
+        return { source: GAMES_KEY, unreadable: raw };
+      }
+      if (env.schemaVersion > SCHEMA_VERSION) {
+        return { source: GAMES_KEY, newer: env.schemaVersion };
+      }
+      return { source: GAMES_KEY, records: migrateRecords(env.games, env.schemaVersion) };
+    } catch {
+      return { source: GAMES_KEY, unreadable: raw };
+    }
+  }
+
+  for (const { key, version } of LEGACY_KEYS) {
+    const legacy = localStorage.getItem(key);
+    if (legacy === null) continue;
+    try {
+      const parsed = JSON.parse(legacy);
+      if (!Array.isArray(parsed)) return { source: key, unreadable: legacy };
+      return { source: key, records: migrateRecords(parsed, version) };
+    } catch {
+      return { source: key, unreadable: legacy };
+    }
+  }
+
+  return null;
+}
+
+export function loadStore(): LoadResult {
+  const problems: StorageProblem[] = [];
+  let writable = true;
+  let games: GameEntry[] = [];
+
+  const found = readGameRecords();
+  if (found && "newer" in found) {
+    // Written by a newer build; leave it alone rather than downgrade it
+    writable = false;
+    problems.push({
+      source: found.source,
+      count: 0,
+      message: `Saved games are from a newer version of the app (schema v${found.newer}). Reload to update; nothing will be saved until then.`,
+    });
+  } else if (found && "unreadable" in found) {
+    // Keep a copy before anything can write over it
+    const saved = quarantine([{ at: Date.now(), source: found.source, reason: "unreadable store", raw: found.unreadable }]);
+    if (!saved) writable = false;
+    problems.push({
+      source: found.source,
+      count: 1,
+      message: saved
+        ? "Saved games couldn't be read. A copy was set aside so nothing is lost."
+        : "Saved games couldn't be read, and there wasn't room to set a copy aside. Nothing will be saved until this is fixed.",
+    });
+  } else if (found) {
+    const res = checkRecords(found.records, found.source, validateGame, "saved game", "saved games");
+    games = res.items;
+    if (!res.setAside) writable = false;
+    if (res.problem) problems.push(res.problem);
+  }
+
+  const readList = <T>(key: string, validate: (v: unknown) => T | string, one: string, many: string, all: string) => {
+    const raw = localStorage.getItem(key);
+    if (raw === null) return [];
+    try {
+      const parsed = JSON.parse(raw);
+      const res = checkRecords(Array.isArray(parsed) ? parsed : [parsed], key, validate, one, many);
+      if (!res.setAside) writable = false;
+      if (res.problem) problems.push(res.problem);
+      return res.items;
+    } catch {
+      if (!quarantine([{ at: Date.now(), source: key, reason: "unreadable store", raw }])) writable = false;
+      problems.push({ source: key, count: 1, message: `${all} couldn't be read. A copy was set aside.` });
+      return [];
+    }
+  };
+
+  const players = readList(PLAYERS_KEY, validatePlayer, "roster entry", "roster entries", "The roster");
+  const seasons = readList(SEASONS_KEY, validateSeason, "season", "seasons", "Seasons");
+
+  return { games, players, seasons, problems, writable };
+}
+
+export function saveGames(games: GameEntry[]) {
+  const env: GamesEnvelope = { schemaVersion: SCHEMA_VERSION, savedAt: Date.now(), games };
+  localStorage.setItem(GAMES_KEY, JSON.stringify(env));
+}
+
+export function savePlayers(players: Player[]) {
+  localStorage.setItem(PLAYERS_KEY, JSON.stringify(players));
+}
+
+export function saveSeasons(seasons: Season[]) {
+  localStorage.setItem(SEASONS_KEY, JSON.stringify(seasons));
+}
@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+import { gameFixture } from "./fixtures";
+import { validateGame } from "./storage";
+import { MAX_PUSH, compareVersions, nextVersion, pullRecords, pushRecords, readRecord, tombstone } from "./sync";
+import type { Collection, SyncKind, SyncRecord } from "./sync";
+import { applyIncoming, newSyncState, queueAll, queueChanges, settleSync, syncOnce } from "./syncClient";
+import type { Fetch, SyncData, SyncState } from "./syncClient";
+import type { GameEntry } from "./types";
+
+const game = (id: string, extra: Partial<GameEntry> = {}): GameEntry =>
+  gameFixture({ id, createdAt: 1, ...extra });
+
+const rec = (id: string, at: number, device = "a", data: unknown = game(id)): SyncRecord => ({
+  id,
+  version: { at, device },
+  data,
+});
+
+describe("versions", () => {
+  it("orders by time, then device", () => {
+    expect(compareVersions({ at: 2, device: "a" }, { at: 1, device: "z" })).toBeGreaterThan(0);
+    expect(compareVersions({ at: 1, device: "b" }, { at: 1, device: "a" })).toBeGreaterThan(0);
+    expect(compareVersions({ at: 1, device: "a" }, { at: 1, device: "a" })).toBe(0);
+  });
+
+  it("always moves past the previous version, even with a slow clock", () => {
+    expect(nextVersion("a", { at: 500, device: "b" }, 100)).toEqual({ at: 501, device: "a" });
+    expect(nextVersion("a", undefined, 100)).toEqual({ at: 100, device: "a" });
+  });
+});
+
+describe("readRecord", () => {
+  it("validates the data and its id", () => {
+    expect(readRecord(rec("g1", 1), validateGame)?.data).toMatchObject({ id: "g1" });
+    expect(readRecord(rec("g1", 1, "a", game("g2")), validateGame)).toBeNull();
+    expect(readRecord(rec("g1", 1, "a", { id: "g1" }), validateGame)).toBeNull();
+    expect(readRecord({ id: "g1", version: { at: "x", device: "a" } }, validateGame)).toBeNull();
+  });
+
+  it("takes tombstones without data", () => {
+    expect(readRecord({ id: "g1", version: { at: 3, device: "a" }, deleted: true }, validateGame)).toEqual(
+      tombstone("g1", { at: 3, device: "a" })
+    );
+  });
+});
+
+describe("server merge", () => {
+  it("keeps the later write and hands back the winner for stale pushes", () => {
+    let { collection, seq } = pushRecords({}, [rec("g1", 5)], 0);
+    expect(seq).toBe(1);
+
+    const older = pushRecords(collection, [rec("g1", 3, "b")], seq);
+    expect(older.result.applied).toEqual([]);
+    expect(older.result.stale).toEqual([rec("g1", 5)]);
+    expect(older.seq).toBe(seq);
+
+    // A retry of what the server already has counts as applied, without a new change number
+    const retry = pushRecords(collection, [rec("g1", 5)], seq);
+    expect(retry.result.applied).toEqual(["g1"]);
+    expect(retry.seq).toBe(seq);
+
+    ({ collection, seq } = pushRecords(collection, [tombstone("g1", { at: 9, device: "b" })], seq));
+    expect(collection.g1).toMatchObject({ deleted: true, seq: 2 });
+    expect(collection.g1.data).toBeUndefined();
+  });
+
+  it("pulls only what changed after the cursor, tombstones included", () => {
+    let { collection, seq } = pushRecords({}, [rec("g1", 1), rec("g2", 1)], 0);
+    const first = pullRecords(collection, 0, seq);
+    expect(first.records.map((r) => r.id)).toEqual(["g1", "g2"]);
+
+    ({ collection, seq } = pushRecords(collection, [tombstone("g2", { at: 2, device: "b" })], seq));
+    const next = pullRecords(collection, first.cursor, seq);
+    expect(next.records).toEqual([tombstone("g2", { at: 2, device: "b" })]);
+    expect(pullRecords(collection, next.cursor, seq).records).toEqual([]);
+  });
+});
+
+// An in-memory server speaking the same protocol as the API routes
+function fakeServer() {
+  const collections: Record<SyncKind, Collection> = { games: {}, players: {} };
+  let seq = 0;
+  let down = false;
+  const pushes: number[] = [];
+  const json = (body: unknown) => new Response(JSON.stringify(body), { status: 200 });
+  const fetchImpl: Fetch = async (url, init) => {
+    if (down) throw new TypeError("Failed to fetch");
+    const u = new URL(url, "http://local");
+    const kind = u.pathname.split("/").pop() as SyncKind;
+    if (init?.method === "POST") {
+      const { records } = JSON.parse(String(init.body)) as { records: SyncRecord[] };
+      pushes.push(records.length);
+      if (records.length > MAX_PUSH) return new Response(JSON.stringify({ error: "Too many" }), { status: 413 });
+      const pushed = pushRecords(collections[kind], records, seq);
+      collections[kind] = pushed.collection;
+      seq = pushed.seq;
+      return json({ ...pushed.result, rejected: [] });
+    }
+    return json(pullRecords(collections[kind], Number(u.searchParams.get("since")) || 0, seq));
+  };
+  return { fetchImpl, pushes, setDown: (v: boolean) => (down = v) };
+}
+
+type Device = { state: SyncState; data: SyncData };
+
+const device = (id: string): Device => ({ state: { ...newSyncState(), deviceId: id, enabled: true }, data: { games: [], players: [] } });
+
+function edit(d: Device, games: GameEntry[], at: number) {
+  const before = d.data.games;
+  const removed = before.filter((g) => !games.some((x) => x.id === g.id)).map((g) => g.id);
+  const put = games.filter((g) => before.find((x) => x.id === g.id) !== g);
+  d.state = queueChanges(d.state, "games", put, removed, at);
+  d.data = { ...d.data, games };
+}
+
+async function sync(d: Device, fetchImpl: Fetch) {
+  const { state, incoming } = await syncOnce(d.state, d.data, { fetchImpl });
+  d.state = state;
+  // What the app does with the result: apply, then queue the (skipped) diff
+  edit(d, applyIncoming(d.data.games, incoming.games), 0);
+}
+
+describe("client sync", () => {
+  it("queues offline, reconciles later, and the later write wins", async () => {
+    const server = fakeServer();
+    const phone = device("phone");
+    const tablet = device("tablet");
+
+    edit(phone, [game("g1"), game("g2")], 100);
+    server.setDown(true);
+    await expect(syncOnce(phone.state, phone.data, { fetchImpl: server.fetchImpl })).rejects.toThrow();
+    expect(Object.keys(phone.state.outbox.games)).toEqual(["g1", "g2"]);
+
+    server.setDown(false);
+    await sync(phone, server.fetchImpl);
+    expect(phone.state.outbox.games).toEqual({});
+
+    await sync(tablet, server.fetchImpl);
+    expect(tablet.data.games.map((g) => g.id)).toEqual(["g1", "g2"]);
+    // Records that came from the server aren't queued back up
+    expect(tablet.state.outbox.games).toEqual({});
+
+    // Both edit g1 offline; the tablet's edit is later
+    edit(phone, phone.data.games.map((g) => (g.id === "g1" ? { ...g, opponent: "Phone" } : g)), 200);
+    edit(tablet, tablet.data.games.map((g) => (g.id === "g1" ? { ...g, opponent: "Tablet" } : g)), 300);
+    await sync(tablet, server.fetchImpl);
+    await sync(phone, server.fetchImpl);
+    expect(phone.data.games.find((g) => g.id === "g1")?.opponent).toBe("Tablet");
+    expect(phone.state.outbox.games).toEqual({});
+  });
+
+  it("spreads deletes as tombstones", async () => {
+    const server = fakeServer();
+    const phone = device("phone");
+    const tablet = device("tablet");
+    edit(phone, [game("g1"), game("g2")], 100);
+    await sync(phone, server.fetchImpl);
+    await sync(tablet, server.fetchImpl);
+
+    edit(tablet, tablet.data.games.filter((g) => g.id !== "g2"), 200);
+    await sync(tablet, server.fetchImpl);
+    await sync(phone, server.fetchImpl);
+    expect(phone.data.games.map((g) => g.id)).toEqual(["g1"]);
+    // The removal the server told us about isn't sent back as a new delete
+    expect(phone.state.outbox.games).toEqual({});
+  });
+
+  it("keeps changes made while a sync was in flight", async () => {
+    const server = fakeServer();
+    const phone = device("phone");
+    edit(phone, [game("g1")], 100);
+    const sent = phone.state;
+    const pending = syncOnce(sent, phone.data, { fetchImpl: server.fetchImpl });
+    edit(phone, [{ ...game("g1"), opponent: "Later" }], 200);
+    const settled = settleSync(sent, phone.state, await pending);
+    expect(settled.state.outbox.games.g1).toMatchObject({ at: 200 });
+  });
+
+  it("sends a big outbox in batches the server accepts", async () => {
+    const server = fakeServer();
+    const phone = device("phone");
+    phone.data = { ...phone.data, games: Array.from({ length: MAX_PUSH + 20 }, (_, i) => game(`g${i}`)) };
+    phone.state = queueAll(phone.state, phone.data, 100);
+    await sync(phone, server.fetchImpl);
+    expect(server.pushes).toEqual([MAX_PUSH, 20]);
+    expect(phone.state.outbox.games).toEqual({});
+
+    const tablet = device("tablet");
+    await sync(tablet, server.fetchImpl);
+    expect(tablet.data.games).toHaveLength(MAX_PUSH + 20);
+  });
+});
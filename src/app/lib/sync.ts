@@ -0,0 +1,104 @@
+/**
+ * Sync protocol shared by the client engine (syncClient.ts) and the server store (server/syncStore.ts)
+ * - Every record travels with a version stamp: when it was last changed, and on which device
+ * - Last writer wins: the later stamp replaces the earlier one, the device id breaks ties
+ * - Deletes are tombstones (deleted + no data), kept on the server so offline devices hear about them
+ * - The server numbers every accepted change (seq); a client pulls everything after its cursor
+ * Pure functions only; covered by sync.test.ts.
+ */
+
+export type SyncKind = "games" | "players";
+
+export const SYNC_KINDS: SyncKind[] = ["games", "players"];
+
+export type Version = { at: number; device: string };
+
+// Most records one push may carry; the client splits a bigger outbox into batches
+export const MAX_PUSH = 500;
+
+export type SyncRecord<T = unknown> = {
+  id: string;
+  version: Version;
+  deleted?: boolean;
+  data?: T; // missing on tombstones
+};
+
+export type StoredRecord = SyncRecord & { seq: number };
+
+export type PushResponse = {
+  applied: string[]; // ids the server took
+  stale: SyncRecord[]; // the server's copy, where it already had a later version
+};
+
+export type PullResponse = {
+  records: SyncRecord[];
+  cursor: number; // pass back as `since` next time
+};
+
+/** > 0 when `a` is the later write. */
+export function compareVersions(a: Version, b: Version) {
+  return a.at - b.at || (a.device < b.device ? -1 : a.device > b.device ? 1 : 0);
+}
+
+/** Version for a change made now on `device` to a record last seen at `prev` (always later than prev). */
+export function nextVersion(device: string, prev?: Version, now = Date.now()): Version {
+  return { at: Math.max(now, (prev?.at ?? 0) + 1), device };
+}
+
+export function tombstone(id: string, version: Version): SyncRecord {
+  return { id, version, deleted: true };
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+/** A well-formed record with its data run through `validate` (null if either fails). */
+export function readRecord<T>(v: unknown, validate: (data: unknown) => T | string): SyncRecord<T> | null {
+  if (!isObject(v) || typeof v.id !== "string" || !v.id || !isObject(v.version)) return null;
+  const { at, device } = v.version;
+  if (typeof at !== "number" || !Number.isFinite(at) || typeof device !== "string") return null;
+  const version = { at, device };
+  if (v.deleted === true) return tombstone(v.id, version) as SyncRecord<T>;
+  const data = validate(v.data);
+  if (typeof data === "string") return null;
+  // The id inside the data is the record id; a mismatch is a malformed push
+  if (isObject(data) && data.id !== v.id) return null;
+  return { id: v.id, version, data };
+}
+
+// --- Server side (pure over one collection) ---
+
+export type Collection = Record<string, StoredRecord>;
+
+/** Apply pushed records last-writer-wins. `seq` is the server's change counter before this push. */
+export function pushRecords(collection: Collection, records: SyncRecord[], seq: number) {
+  const next = { ...collection };
+  const applied: string[] = [];
+  const stale: SyncRecord[] = [];
+  records.forEach((r) => {
+    const current = next[r.id];
+    if (current && compareVersions(r.version, current.version) <= 0) {
+      // Same version is a retry of something we already have
+      if (compareVersions(r.version, current.version) === 0) applied.push(r.id);
+      else stale.push(withoutSeq(current));
+      return;
+    }
+    seq += 1;
+    next[r.id] = { ...r, seq };
+    applied.push(r.id);
+  });
+  return { collection: next, seq, result: { applied, stale } satisfies PushResponse };
+}
+
+export function pullRecords(collection: Collection, since: number, seq: number): PullResponse {
+  const records = Object.values(collection)
+    .filter((r) => r.seq > since)
+    .sort((a, b) => a.seq - b.seq)
+    .map(withoutSeq);
+  return { records, cursor: seq };
+}
+
+function withoutSeq(r: StoredRecord): SyncRecord {
+  return r.deleted ? tombstone(r.id, r.version) : { id: r.id, version: r.version, data: r.data };
+}
@@ -0,0 +1,330 @@
+import { validateGame, validatePlayer } from "./storage";
+import { MAX_PUSH, SYNC_KINDS, compareVersions, nextVersion, readRecord, tombstone } from "./sync";
+import type { PullResponse, PushResponse, SyncKind, SyncRecord, Version } from "./sync";
+import { canWrite } from "./teams";
+import type { TeamSession } from "./teams";
+import type { GameEntry, Player } from "./types";
+import { makeId } from "./util";
+
+/**
+ * Client sync engine (local-first)
+ * - Local changes are stamped and queued in an outbox (localStorage) the moment they're persisted;
+ *   nothing waits on the network, and the outbox survives reloads and offline stretches.
+ *   The outbox holds versions only; the data is read from the current lists at push time.
+ * - A sync pushes the outbox, then pulls every change since our cursor; last writer wins per record
+ * - Records that arrived from the server are remembered by reference so saving them locally
+ *   doesn't queue them straight back up
+ * - In a team, requests carry the member token and sync the team's space; viewers only pull
+ * - Every record remembers the space it belongs to (a team, or this device's own). A record from a
+ *   team is only ever pushed back to that team, so leaving or switching teams can't upload it elsewhere.
+ */
+
+export const SYNC_KEY = "flyStatTracker.sync.v1";
+
+// Last known version per record; `deleted` remembers tombstones so a removal isn't re-queued
+type Known = Version & { deleted?: boolean };
+
+// Team id, or "" for this device's own space (whose records may also go up to a team it joins)
+type Space = string;
+
+export type SyncState = {
+  enabled: boolean;
+  soloEnabled: boolean; // the sync setting outside a team, put back on leaving one
+  deviceId: string;
+  team: TeamSession | null; // null: this device syncs on its own
+  cursors: Record<SyncKind, number>;
+  known: Record<SyncKind, Record<string, Known>>;
+  outbox: Record<SyncKind, Record<string, Known>>;
+  origin: Record<SyncKind, Record<string, Space>>; // where each record was made or pulled; kept across switches
+  lastSyncAt: number | null;
+  lastError: string | null;
+};
+
+export type SyncData = { games: GameEntry[]; players: Player[] };
+
+export type Incoming = { games: SyncRecord<GameEntry>[]; players: SyncRecord<Player>[] };
+
+const perKind = <T>(make: () => T): Record<SyncKind, T> => ({ games: make(), players: make() });
+
+export function newSyncState(): SyncState {
+  return {
+    enabled: false,
+    soloEnabled: false,
+    deviceId: makeId(),
+    team: null,
+    cursors: perKind(() => 0),
+    known: perKind(() => ({})),
+    outbox: perKind(() => ({})),
+    origin: perKind(() => ({})),
+    lastSyncAt: null,
+    lastError: null,
+  };
+}
+
+export function loadSyncState(): SyncState {
+  try {
+    const raw = JSON.parse(localStorage.getItem(SYNC_KEY) || "null") as Partial<SyncState> | null;
+    if (!raw || typeof raw.deviceId !== "string") return newSyncState();
+    const base = newSyncState();
+    const known = { ...base.known, ...raw.known };
+    const origin = { ...base.origin, ...raw.origin };
+    // Saved before records were tagged: whatever a team member's device knows came through the team
+    if (!raw.origin && raw.team) {
+      const teamId = raw.team.teamId;
+      SYNC_KINDS.forEach((k) => Object.keys(known[k]).forEach((id) => (origin[k][id] = teamId)));
+    }
+    return {
+      ...base,
+      ...raw,
+      soloEnabled: raw.soloEnabled ?? (raw.team ? false : !!raw.enabled),
+      cursors: { ...base.cursors, ...raw.cursors },
+      known,
+      outbox: { ...base.outbox, ...raw.outbox },
+      origin,
+    };
+  } catch {
+    return newSyncState();
+  }
+}
+
+export function saveSyncState(s: SyncState) {
+  localStorage.setItem(SYNC_KEY, JSON.stringify(s));
+}
+
+export function pendingCount(s: SyncState) {
+  return SYNC_KINDS.reduce((n, k) => n + Object.keys(s.outbox[k]).length, 0);
+}
+
+const fromServer = new WeakSet<object>();
+
+const spaceOf = (s: SyncState): Space => s.team?.teamId ?? "";
+
+// Team records stay with their team; the device's own records can go wherever it syncs
+const belongs = (s: SyncState, kind: SyncKind, id: string) => {
+  const from = s.origin[kind][id];
+  return !from || from === spaceOf(s);
+};
+
+/**
+ * Queue local changes (records added / changed, ids removed) for the next push.
+ * Records that just arrived from the server, and removals the server told us about, are skipped,
+ * and so are another team's records. New records belong to the space they were made in.
+ */
+export function queueChanges(
+  s: SyncState,
+  kind: SyncKind,
+  put: { id: string }[],
+  removed: string[],
+  now = Date.now()
+): SyncState {
+  const known = { ...s.known[kind] };
+  const outbox = { ...s.outbox[kind] };
+  const origin = { ...s.origin[kind] };
+  put.forEach((r) => {
+    if (fromServer.has(r) || !belongs(s, kind, r.id)) return;
+    if (!(r.id in origin)) origin[r.id] = spaceOf(s);
+    known[r.id] = outbox[r.id] = nextVersion(s.deviceId, known[r.id], now);
+  });
+  removed.forEach((id) => {
+    if (known[id]?.deleted || !belongs(s, kind, id)) return;
+    known[id] = outbox[id] = { ...nextVersion(s.deviceId, known[id], now), deleted: true };
+  });
+  return {
+    ...s,
+    known: { ...s.known, [kind]: known },
+    outbox: { ...s.outbox, [kind]: outbox },
+    origin: { ...s.origin, [kind]: origin },
+  };
+}
+
+/**
+ * Move to another space (a team, or back to this device's own). Cursors and versions belong to the
+ * old space, so they start over; the caller queues local records again if they should go up.
+ * Local records not tagged yet are settled as the old space's first, so nothing turns into a team's by accident.
+ * A team always syncs; leaving one puts back the device's own sync setting.
+ */
+export function switchSpace(s: SyncState, team: TeamSession | null, data: SyncData): SyncState {
+  const origin = { ...s.origin };
+  SYNC_KINDS.forEach((kind) => {
+    origin[kind] = { ...origin[kind] };
+    (data[kind] as { id: string }[]).forEach((r) => {
+      if (!(r.id in origin[kind])) origin[kind][r.id] = spaceOf(s);
+    });
+  });
+  const soloEnabled = s.team ? s.soloEnabled : s.enabled;
+  const fresh = newSyncState();
+  return { ...fresh, deviceId: s.deviceId, enabled: team ? true : soloEnabled, soloEnabled, team, origin };
+}
+
+/** The sync switch. Outside a team it's also the setting to come back to after leaving one. */
+export function setSyncEnabled(s: SyncState, on: boolean): SyncState {
+  return { ...s, enabled: on, soloEnabled: s.team ? s.soloEnabled : on, lastError: on ? null : s.lastError };
+}
+
+export const canPush = (s: SyncState) => !s.team || canWrite(s.team.role);
+
+/** Queue every record of this space the server hasn't seen from us, e.g. when sync is first turned on. */
+export function queueAll(s: SyncState, data: SyncData, now = Date.now()): SyncState {
+  let out = s;
+  SYNC_KINDS.forEach((kind) => {
+    out = queueChanges(out, kind, (data[kind] as { id: string }[]).filter((r) => !out.known[kind][r.id]), [], now);
+  });
+  return out;
+}
+
+/** Put server records into a local list: tombstones remove, the rest replace or add. */
+export function applyIncoming<T extends { id: string }>(list: T[], incoming: SyncRecord<T>[]): T[] {
+  if (!incoming.length) return list;
+  const byId = new Map(incoming.map((r) => [r.id, r]));
+  const out: T[] = [];
+  list.forEach((item) => {
+    const r = byId.get(item.id);
+    if (!r) out.push(item);
+    else if (!r.deleted && r.data) out.push(r.data);
+    byId.delete(item.id);
+  });
+  byId.forEach((r) => {
+    if (!r.deleted && r.data) out.push(r.data);
+  });
+  return out;
+}
+
+export type Fetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+export function authHeaders(team: TeamSession | null): Record<string, string> {
+  return team
+    ? { "content-type": "application/json", authorization: `Bearer ${team.token}` }
+    : { "content-type": "application/json" };
+}
+
+export async function apiCall<T>(fetchImpl: Fetch, url: string, init?: RequestInit): Promise<T> {
+  const res = await fetchImpl(url, init);
+  if (!res.ok) {
+    const body = (await res.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(body?.error || `Sync server answered ${res.status}`);
+  }
+  return (await res.json()) as T;
+}
+
+const validators: Record<SyncKind, (v: unknown) => unknown> = { games: validateGame, players: validatePlayer };
+
+/**
+ * One round trip per kind: push the outbox, then pull. Throws if the server can't be reached;
+ * the outbox is untouched in that case and goes out on the next try.
+ * Returns the new state and the server records to apply locally.
+ */
+export async function syncOnce(
+  s: SyncState,
+  data: SyncData,
+  opts: { baseUrl?: string; fetchImpl?: Fetch } = {}
+): Promise<{ state: SyncState; incoming: Incoming }> {
+  const fetchImpl = opts.fetchImpl ?? fetch;
+  const base = opts.baseUrl ?? "";
+  const headers = authHeaders(s.team);
+  let state = s;
+  const incoming: Incoming = { games: [], players: [] };
+
+  for (const kind of SYNC_KINDS) {
+    const url = `${base}/api/${kind}`;
+    const current = new Map((data[kind] as { id: string }[]).map((r) => [r.id, r]));
+    const pushed: SyncRecord[] = [];
+    Object.entries(state.outbox[kind]).forEach(([id, v]) => {
+      const version = { at: v.at, device: v.device };
+      if (v.deleted) pushed.push(tombstone(id, version));
+      else if (current.has(id)) pushed.push({ id, version, data: current.get(id) });
+    });
+    let stale: SyncRecord[] = [];
+
+    // The server takes MAX_PUSH records per request, so a big outbox (sync just turned on) goes up in batches
+    for (let i = 0; i < pushed.length && canPush(state); i += MAX_PUSH) {
+      const batch = pushed.slice(i, i + MAX_PUSH);
+      const res = await apiCall<PushResponse>(fetchImpl, url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ records: batch }),
+      });
+      // Only clear what went out unchanged; a newer local change stays queued
+      const outbox = { ...state.outbox[kind] };
+      res.applied.forEach((id) => {
+        const sent = batch.find((r) => r.id === id);
+        if (sent && outbox[id] && compareVersions(outbox[id], sent.version) === 0) delete outbox[id];
+      });
+      stale = [...stale, ...res.stale];
+      state = { ...state, outbox: { ...state.outbox, [kind]: outbox } };
+    }
+
+    const pulled = await apiCall<PullResponse>(fetchImpl, `${url}?since=${state.cursors[kind]}`, { headers });
+
+    const known = { ...state.known[kind] };
+    const outbox = { ...state.outbox[kind] };
+    const origin = { ...state.origin[kind] };
+    const take: SyncRecord[] = [];
+    [...stale, ...pulled.records].forEach((raw) => {
+      const r = readRecord(raw, validators[kind]);
+      if (!r) return;
+      const mine = known[r.id];
+      // Our own change coming back, or something older than what we hold
+      if (mine && compareVersions(r.version, mine) <= 0) return;
+      known[r.id] = r.deleted ? { ...r.version, deleted: true } : r.version;
+      delete outbox[r.id];
+      if (!(r.id in origin)) origin[r.id] = spaceOf(state);
+      if (r.data && typeof r.data === "object") fromServer.add(r.data);
+      take.push(r);
+    });
+
+    (incoming[kind] as SyncRecord[]).push(...take);
+    state = {
+      ...state,
+      cursors: { ...state.cursors, [kind]: pulled.cursor },
+      known: { ...state.known, [kind]: known },
+      outbox: { ...state.outbox, [kind]: outbox },
+      origin: { ...state.origin, [kind]: origin },
+    };
+  }
+
+  return { state: { ...state, lastSyncAt: Date.now(), lastError: null }, incoming };
+}
+
+/**
+ * Fold a finished sync into the latest state. Changes queued while the request was out win:
+ * they stay in the outbox, and server copies of those records are held back.
+ * Turning sync off or changing role meanwhile carries over too.
+ */
+export function settleSync(
+  sent: SyncState,
+  latest: SyncState,
+  done: { state: SyncState; incoming: Incoming }
+): { state: SyncState; incoming: Incoming } {
+  // Switched space while the request was out: the result belongs to the old one
+  if ((latest.team?.token ?? "") !== (sent.team?.token ?? "")) return { state: latest, incoming: { games: [], players: [] } };
+  // Records made while the request was out were tagged on `latest`, pulled ones on `done`
+  const origin = { ...done.state.origin };
+  SYNC_KINDS.forEach((kind) => {
+    origin[kind] = { ...done.state.origin[kind], ...latest.origin[kind] };
+  });
+  let state: SyncState = {
+    ...done.state,
+    enabled: latest.enabled,
+    soloEnabled: latest.soloEnabled,
+    team: latest.team,
+    origin,
+  };
+  const incoming: Incoming = { ...done.incoming };
+  SYNC_KINDS.forEach((kind) => {
+    const changed = new Set(
+      Object.entries(latest.outbox[kind])
+        .filter(([id, v]) => !sent.outbox[kind][id] || compareVersions(sent.outbox[kind][id], v) !== 0)
+        .map(([id]) => id)
+    );
+    if (!changed.size) return;
+    const known = { ...state.known[kind] };
+    const outbox = { ...state.outbox[kind] };
+    changed.forEach((id) => {
+      known[id] = latest.known[kind][id];
+      outbox[id] = latest.outbox[kind][id];
+    });
+    state = { ...state, known: { ...state.known, [kind]: known }, outbox: { ...state.outbox, [kind]: outbox } };
+    (incoming[kind] as SyncRecord[]) = (incoming[kind] as SyncRecord[]).filter((r) => !changed.has(r.id));
+  });
+  return { state, incoming };
+}
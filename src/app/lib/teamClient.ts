@@ -0,0 +1,34 @@
+import { apiCall, authHeaders } from "./syncClient";
+import type { Fetch } from "./syncClient";
+import type { FeedItem, Invite, Role, TeamSession, TeamView } from "./teams";
+
+/**
+ * Calls to the team endpoints (/api/teams/*) from the Sync screen.
+ * Every call throws with the server's message when it refuses.
+ */
+
+type Joined = { session: TeamSession; team: TeamView };
+
+export type TeamApi = ReturnType<typeof teamApi>;
+
+export function teamApi(session: TeamSession | null, opts: { baseUrl?: string; fetchImpl?: Fetch } = {}) {
+  const fetchImpl = opts.fetchImpl ?? fetch;
+  const base = `${opts.baseUrl ?? ""}/api/teams`;
+  const send = <T>(path: string, method: string, body?: unknown) =>
+    apiCall<T>(fetchImpl, base + path, {
+      method,
+      headers: authHeaders(session),
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  return {
+    create: (teamName: string, memberName: string) => send<Joined>("", "POST", { teamName, memberName }),
+    join: (code: string, memberName: string) => send<Joined>("/join", "POST", { code, memberName }),
+    team: () => send<{ team: TeamView }>("", "GET"),
+    invite: (role: Invite["role"]) => send<{ invite: Invite; team: TeamView }>("/invites", "POST", { role }),
+    revoke: (code: string) => send<{ team: TeamView }>("/invites", "DELETE", { code }),
+    setRole: (memberId: string, role: Role) => send<{ team: TeamView }>("/members", "PATCH", { memberId, role }),
+    remove: (memberId: string) => send<{ team: TeamView | null }>("/members", "DELETE", { memberId }),
+    feed: (limit = 20) => send<{ items: FeedItem[] }>(`/feed?limit=${limit}`, "GET"),
+  };
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { emptyCounts } from "./counts";
+import { gameFixture } from "./fixtures";
+import { pushRecords, tombstone } from "./sync";
+import {
+  addInvite,
+  canWrite,
+  createTeam,
+  inviteCode,
+  joinTeam,
+  memberByToken,
+  normalizeCode,
+  removeMember,
+  setRole,
+  teamFeed,
+  teamView,
+} from "./teams";
+import type { Team } from "./teams";
+import type { GameEntry } from "./types";
+
+function team(): Team {
+  const made = createTeam("Fly 14U", "Sam", { teamId: "t1", memberId: "m1", token: "tok1" }, 1);
+  if (typeof made === "string") throw new Error(made);
+  return made.team;
+}
+
+describe("invite codes", () => {
+  it("are short, unambiguous and typed however", () => {
+    const code = inviteCode(() => 0.99);
+    expect(code).toHaveLength(6);
+    expect(code).not.toMatch(/[01IO]/);
+    expect(normalizeCode("abc-23 4")).toBe("ABC234");
+  });
+});
+
+describe("membership", () => {
+  it("joins with the role the code carries", () => {
+    const t = addInvite(team(), "viewer", "VIEW22", "m1", 2);
+    const joined = joinTeam([t], "view-22", "Grandpa", { memberId: "m2", token: "tok2" }, 3);
+    if (typeof joined === "string") throw new Error(joined);
+    expect(joined.session).toMatchObject({ teamId: "t1", role: "viewer", token: "tok2" });
+    expect(canWrite(joined.session.role)).toBe(false);
+    expect(memberByToken([joined.team], "tok2")?.member.name).toBe("Grandpa");
+    expect(memberByToken([joined.team], "nope")).toBeNull();
+  });
+
+  it("refuses unknown codes and missing names", () => {
+    const t = addInvite(team(), "statistician", "STAT22", "m1");
+    expect(joinTeam([t], "WRONG1", "Pat", { memberId: "m2", token: "t" })).toMatch(/doesn't match/);
+    expect(joinTeam([t], "STAT22", " ", { memberId: "m2", token: "t" })).toMatch(/name/);
+    expect(createTeam(" ", "Sam", { teamId: "t", memberId: "m", token: "t" })).toMatch(/name/);
+  });
+
+  it("never leaves a team without an owner", () => {
+    const t = team();
+    expect(setRole(t, "m1", "viewer")).toMatch(/needs an owner/);
+    expect(removeMember(t, "m1")).toMatch(/needs an owner/);
+
+    const withTwo = setRole({ ...t, members: [...t.members, { ...t.members[0], id: "m2", token: "tok2" }] }, "m2", "owner");
+    if (typeof withTwo === "string") throw new Error(withTwo);
+    expect(setRole(withTwo, "m1", "statistician")).not.toBeTypeOf("string");
+  });
+
+  it("shows invite codes to owners only, and never tokens", () => {
+    const t = addInvite(team(), "viewer", "VIEW22", "m1");
+    const joined = joinTeam([t], "VIEW22", "Grandpa", { memberId: "m2", token: "tok2" });
+    if (typeof joined === "string") throw new Error(joined);
+    const [owner, viewer] = joined.team.members;
+    expect(teamView(joined.team, owner).invites).toHaveLength(1);
+    expect(teamView(joined.team, viewer).invites).toEqual([]);
+    expect(JSON.stringify(teamView(joined.team, owner))).not.toContain("tok");
+  });
+});
+
+describe("teamFeed", () => {
+  const game = (id: string, extra: Partial<GameEntry> = {}): GameEntry =>
+    gameFixture({ id, playerName: "Old name", counts: { ...emptyCounts, made2: 3, ast: 2 }, ...extra });
+
+  it("lists the latest changes first, skipping trashed and deleted games", () => {
+    const { collection: players } = pushRecords({}, [{ id: "p1", version: { at: 1, device: "a" }, data: { id: "p1", name: "Jordan" } }], 0);
+    const { collection: games } = pushRecords(
+      {},
+      [
+        { id: "g1", version: { at: 1, device: "a" }, data: game("g1", { playerId: "p1" }) },
+        { id: "g2", version: { at: 5, device: "a" }, data: game("g2") },
+        { id: "g3", version: { at: 6, device: "a" }, data: game("g3", { deletedAt: 6 }) },
+        tombstone("g4", { at: 7, device: "a" }),
+      ],
+      0
+    );
+    const feed = teamFeed(games, players);
+    expect(feed.map((f) => f.id)).toEqual(["g2", "g1"]);
+    expect(feed[1]).toMatchObject({ playerName: "Jordan", pts: 6, ast: 2 });
+  });
+});
@@ -0,0 +1,204 @@
+import { boxScore } from "./stats";
+import type { Collection } from "./sync";
+import type { GameEntry, GameResult, GameScore, Player } from "./types";
+
+/**
+ * Team workspaces on the sync server
+ * - A team has its own games + roster (a separate sync space), shared by every member
+ * - Roles: owner (manages members and invites), statistician (tracks and edits), viewer (read only)
+ * - People join with an invite code; the code carries the role they join as
+ * - Each member gets a secret token; the device sends it with every sync request
+ * Pure functions only; covered by teams.test.ts.
+ */
+
+export type Role = "owner" | "statistician" | "viewer";
+
+export const ROLES: Role[] = ["owner", "statistician", "viewer"];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: "Owner",
+  statistician: "Statistician",
+  viewer: "Viewer",
+};
+
+export type Member = { id: string; name: string; role: Role; token: string; joinedAt: number };
+
+export type Invite = { code: string; role: Exclude<Role, "owner">; createdAt: number; createdBy: string };
+
+export type Team = { id: string; name: string; createdAt: number; members: Member[]; invites: Invite[] };
+
+/** What a device keeps after creating or joining a team. */
+export type TeamSession = {
+  teamId: string;
+  teamName: string;
+  memberId: string;
+  memberName: string;
+  role: Role;
+  token: string;
+};
+
+/** A team as a member sees it: no tokens, and invite codes for owners only. */
+export type TeamView = {
+  id: string;
+  name: string;
+  role: Role;
+  members: Omit<Member, "token">[];
+  invites: Invite[];
+};
+
+export type FeedItem = {
+  id: string;
+  gameId?: string;
+  date: string;
+  opponent: string;
+  playerName: string;
+  pts: number;
+  reb: number;
+  ast: number;
+  result?: GameResult;
+  score?: GameScore;
+  updatedAt: number;
+};
+
+export const NOT_A_MEMBER = "You're no longer a member of this team. Join again with an invite code.";
+
+export const canWrite = (role: Role) => role !== "viewer";
+export const canManage = (role: Role) => role === "owner";
+
+const CODE_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // no 0/O or 1/I: codes get read out loud
+export const CODE_LENGTH = 6;
+
+export function inviteCode(random: () => number = Math.random) {
+  let code = "";
+  for (let i = 0; i < CODE_LENGTH; i++) code += CODE_CHARS[Math.floor(random() * CODE_CHARS.length)];
+  return code;
+}
+
+/** "abc-23 4" → "ABC234", so codes can be typed however they were written down. */
+export function normalizeCode(s: string) {
+  return s.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+export function isRole(v: unknown): v is Role {
+  return typeof v === "string" && (ROLES as string[]).includes(v);
+}
+
+function sessionFor(team: Team, m: Member): TeamSession {
+  return { teamId: team.id, teamName: team.name, memberId: m.id, memberName: m.name, role: m.role, token: m.token };
+}
+
+export function createTeam(
+  name: string,
+  ownerName: string,
+  ids: { teamId: string; memberId: string; token: string },
+  now = Date.now()
+): { team: Team; session: TeamSession } | string {
+  if (!name.trim()) return "Give the team a name.";
+  if (!ownerName.trim()) return "Add your name so teammates know who you are.";
+  const owner: Member = { id: ids.memberId, name: ownerName.trim(), role: "owner", token: ids.token, joinedAt: now };
+  const team: Team = { id: ids.teamId, name: name.trim(), createdAt: now, members: [owner], invites: [] };
+  return { team, session: sessionFor(team, owner) };
+}
+
+export function addInvite(team: Team, role: Invite["role"], code: string, by: string, now = Date.now()): Team {
+  return { ...team, invites: [...team.invites, { code, role, createdAt: now, createdBy: by }] };
+}
+
+export function revokeInvite(team: Team, code: string): Team {
+  return { ...team, invites: team.invites.filter((i) => i.code !== normalizeCode(code)) };
+}
+
+/** Invite codes stay valid until revoked, so one code can be shared with every parent. */
+export function findInvite(teams: Team[], code: string): { team: Team; invite: Invite } | null {
+  const c = normalizeCode(code);
+  for (const team of teams) {
+    const invite = team.invites.find((i) => i.code === c);
+    if (invite) return { team, invite };
+  }
+  return null;
+}
+
+export function joinTeam(
+  teams: Team[],
+  code: string,
+  name: string,
+  ids: { memberId: string; token: string },
+  now = Date.now()
+): { team: Team; session: TeamSession } | string {
+  if (!name.trim()) return "Add your name so teammates know who you are.";
+  const found = findInvite(teams, code);
+  if (!found) return "That invite code doesn't match a team. Check it with whoever sent it.";
+  const member: Member = { id: ids.memberId, name: name.trim(), role: found.invite.role, token: ids.token, joinedAt: now };
+  const team = { ...found.team, members: [...found.team.members, member] };
+  return { team, session: sessionFor(team, member) };
+}
+
+export function memberByToken(teams: Team[], token: string): { team: Team; member: Member } | null {
+  if (!token) return null;
+  for (const team of teams) {
+    const member = team.members.find((m) => m.token === token);
+    if (member) return { team, member };
+  }
+  return null;
+}
+
+const lastOwner = (team: Team, memberId: string) =>
+  team.members.filter((m) => m.role === "owner").every((m) => m.id === memberId);
+
+export function setRole(team: Team, memberId: string, role: Role): Team | string {
+  const m = team.members.find((x) => x.id === memberId);
+  if (!m) return "That member isn't on the team any more.";
+  if (m.role === "owner" && role !== "owner" && lastOwner(team, memberId)) {
+    return "A team needs an owner. Make someone else an owner first.";
+  }
+  return { ...team, members: team.members.map((x) => (x.id === memberId ? { ...x, role } : x)) };
+}
+
+export function removeMember(team: Team, memberId: string): Team | string {
+  const m = team.members.find((x) => x.id === memberId);
+  if (!m) return "That member isn't on the team any more.";
+  if (m.role === "owner" && lastOwner(team, memberId)) {
+    return "A team needs an owner. Make someone else an owner first.";
+  }
+  return { ...team, members: team.members.filter((x) => x.id !== memberId) };
+}
+
+export function teamView(team: Team, member: Member): TeamView {
+  return {
+    id: team.id,
+    name: team.name,
+    role: member.role,
+    members: team.members.map((m) => ({ id: m.id, name: m.name, role: m.role, joinedAt: m.joinedAt })),
+    invites: canManage(member.role) ? team.invites : [],
+  };
+}
+
+/** Latest games in a team space, newest change first (trashed and deleted games left out). */
+export function teamFeed(games: Collection, players: Collection, limit = 20): FeedItem[] {
+  const names = new Map(
+    Object.values(players)
+      .filter((r) => !r.deleted && r.data)
+      .map((r) => [r.id, (r.data as Player).name])
+  );
+  return Object.values(games)
+    .filter((r) => !r.deleted && r.data && !(r.data as GameEntry).deletedAt)
+    .sort((a, b) => b.version.at - a.version.at)
+    .slice(0, limit)
+    .map((r) => {
+      const g = r.data as GameEntry;
+      const b = boxScore(g.counts);
+      return {
+        id: g.id,
+        gameId: g.gameId,
+        date: g.date,
+        opponent: g.opponent,
+        playerName: (g.playerId && names.get(g.playerId)) || g.playerName,
+        pts: b.pts,
+        reb: b.reb,
+        ast: g.counts.ast,
+        result: g.result,
+        score: g.score,
+        updatedAt: r.version.at,
+      };
+    });
+}
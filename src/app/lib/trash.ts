@@ -0,0 +1,30 @@
+import type { GameEntry } from "./types";
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isTrashed(g: GameEntry) {
+  return typeof g.deletedAt === "number";
+}
+
+export function trashGame(g: GameEntry, at = Date.now()): GameEntry {
+  return { ...g, deletedAt: at };
+}
+
+export function restoreGame(g: GameEntry): GameEntry {
+  const rest = { ...g };
+  delete rest.deletedAt;
+  return rest;
+}
+
+/** Whole days before a trashed game is purged (0 = goes on next load). */
+export function daysLeftInTrash(g: GameEntry, now = Date.now()) {
+  if (!isTrashed(g)) return TRASH_RETENTION_DAYS;
+  return Math.max(0, Math.ceil((g.deletedAt! + TRASH_RETENTION_DAYS * DAY_MS - now) / DAY_MS));
+}
+
+/** Drop trashed games past the retention window. */
+export function purgeExpired(games: GameEntry[], now = Date.now()) {
+  return games.filter((g) => !isTrashed(g) || g.deletedAt! + TRASH_RETENTION_DAYS * DAY_MS > now);
+}
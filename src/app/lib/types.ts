@@ -0,0 +1,142 @@
+// Shared domain types for the tracker, the roster screen and storage
+
+export type LiveCounts = {
+  made2: number;
+  miss2: number;
+  made3: number;
+  miss3: number;
+  madeFT: number;
+  missFT: number;
+
+  orb: number;
+  drb: number;
+  ast: number;
+  to: number;
+  stl: number;
+  blk: number;
+  pf: number;
+};
+
+// User-defined counter stats (deflections, charges taken, loose balls…)
+export type CustomKey = `custom:${string}`;
+
+export type CustomCounts = Record<CustomKey, number>;
+
+// Anything a tap can record
+export type StatKey = keyof LiveCounts | CustomKey;
+
+export type StatTone = "good" | "bad" | "neutral";
+
+export type StatSection = "scoring" | "hustle";
+
+export type CustomStat = {
+  key: CustomKey;
+  label: string; // "Deflection"
+  short: string; // button title, e.g. "DEFL"
+  tone: StatTone;
+  section: StatSection; // which button grid it appears in
+};
+
+export type GameEntry = {
+  id: string;
+  gameId?: string; // shared by every player's entry from one roster-mode game
+  createdAt: number;
+  date: string; // YYYY-MM-DD
+  team: string;
+  opponent: string;
+  playerId?: string; // roster player; playerName is the name at the time of the game
+  playerName: string;
+  jersey?: string;
+  notes?: string;
+  seasonId?: string; // season / competition it was filed under; "" = no season on purpose; unset = matched by date
+
+  counts: LiveCounts;
+  custom?: CustomCounts; // user-defined stats, by CustomStat.key
+  customStats?: CustomStat[]; // their definitions when the game was saved, so labels outlive the setting
+  score?: GameScore; // final score, when it was kept
+  result?: GameResult; // from score
+  minutes?: number; // minutes played by the game clock; missing when the clock wasn't used
+  events?: GameEvent[]; // play-by-play (games saved before the event log have none)
+  periodFormat?: PeriodFormat;
+  periods?: PeriodLine[]; // per-period box score, regulation periods always present
+  shots?: Shot[]; // field goals tapped on the shot chart
+
+  deletedAt?: number; // in Trash since; purged after TRASH_RETENTION_DAYS
+
+  original?: GameFields; // values as first saved; set on the first edit so it can be reverted
+  edits?: GameEdit[];
+};
+
+export type GameScore = {
+  team: number;
+  opponent: number;
+};
+
+export type GameResult = "W" | "L" | "T";
+
+// The parts of a saved game that can be corrected after the fact
+export type GameFields = Pick<
+  GameEntry,
+  "date" | "team" | "opponent" | "playerId" | "playerName" | "notes" | "seasonId" | "counts" | "custom" | "score"
+>;
+
+export type GameEdit = {
+  at: number;
+  before: Partial<GameFields>; // only the fields that changed
+  after: Partial<GameFields>;
+  revert?: boolean;
+};
+
+export type PeriodFormat = "quarters" | "halves";
+
+export type PeriodLine = {
+  period: number; // 1-based; past regulation = overtime
+  counts: LiveCounts;
+};
+
+// One tap in the live tracker. LiveCounts is a projection of these.
+export type GameEvent = {
+  id: string;
+  at: number; // wall-clock ms
+  period: number; // 1-based
+  key: StatKey;
+  delta: 1 | -1;
+  playerKey?: string; // roster mode only: the Player.id the tap belongs to
+  loc?: ShotLoc; // field goals tapped on the shot chart
+  correction?: boolean; // entered with the −/+ steppers in correction mode
+};
+
+// Court position in feet: x across the baseline (0-50), y out from the baseline (0-47)
+export type ShotLoc = {
+  x: number;
+  y: number;
+};
+
+export type Shot = ShotLoc & {
+  made: boolean;
+  three: boolean;
+  period: number;
+  at: number;
+};
+
+// A named season / competition (e.g. "Spring AAU 2026")
+export type Season = {
+  id: string;
+  name: string;
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+  team?: string;
+};
+
+// A rostered player. Games reference the id, so renames keep a season together.
+export type Player = {
+  id: string;
+  createdAt: number;
+  name: string;
+  jersey: string;
+  position: string;
+  team: string;
+  archived?: boolean;
+};
+
+
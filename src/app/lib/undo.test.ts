@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { diffList, emptyStack, jumpTo, mapStackItems, recordStep, redoStep, timeline, undoStep } from "./undo";
+
+type State = { events: string[]; taps: number[] };
+type Action = string;
+
+// Applies a list of changes, recording each as a step
+function play(changes: [Action, (s: State) => State][]) {
+  let state: State = { events: [], taps: [] };
+  let stack = emptyStack<State, Action>();
+  changes.forEach(([action, fn]) => {
+    const next = fn(state);
+    stack = recordStep(stack, action, state, next, 0);
+    state = next;
+  });
+  return { state, stack };
+}
+
+const tap = (e: string) => (s: State): State => ({ ...s, events: [...s.events, e] });
+const reset = (): State => ({ events: [], taps: [] });
+
+describe("diffList", () => {
+  it("keeps the shared prefix and copies only the rest", () => {
+    const a = ["x", "y"];
+    expect(diffList(a, [...a, "z"])).toEqual({ keep: 2, items: ["z"] });
+    expect(diffList([...a, "z"], a)).toEqual({ keep: 2, items: [] });
+    expect(diffList(a, [])).toEqual({ keep: 0, items: [] });
+  });
+});
+
+describe("undo / redo", () => {
+  it("reverses a reset exactly", () => {
+    const { state, stack } = play([
+      ["+A", tap("a")],
+      ["+B", tap("b")],
+      ["+1", (s) => ({ ...s, taps: [...s.taps, 1] })],
+      ["reset", reset],
+    ]);
+    expect(state).toEqual({ events: [], taps: [] });
+
+    const undone = undoStep(stack, state)!;
+    expect(undone.state).toEqual({ events: ["a", "b"], taps: [1] });
+    expect(undone.step.action).toBe("reset");
+
+    const redone = redoStep(undone.stack, undone.state)!;
+    expect(redone.state).toEqual({ events: [], taps: [] });
+    expect(redone.stack.past).toHaveLength(4);
+  });
+
+  it("restores bulk edits and drops redo after a new change", () => {
+    const { state, stack } = play([
+      ["+A", tap("a")],
+      ["+B", tap("b")],
+      ["drop A", (s) => ({ ...s, events: s.events.filter((e) => e !== "a") })],
+    ]);
+    const undone = undoStep(stack, state)!;
+    expect(undone.state.events).toEqual(["a", "b"]);
+
+    const after = recordStep(undone.stack, "+C", undone.state, tap("c")(undone.state));
+    expect(after.future).toEqual([]);
+    expect(undoStep(emptyStack<State, Action>(), state)).toBeNull();
+  });
+
+  it("jumps back and forward through the timeline", () => {
+    const { state, stack } = play([
+      ["+A", tap("a")],
+      ["+B", tap("b")],
+      ["+C", tap("c")],
+    ]);
+    const back = jumpTo(stack, state, 1);
+    expect(back.state.events).toEqual(["a"]);
+    expect(back.passed.map((s) => s.action)).toEqual(["+C", "+B"]);
+    expect(timeline(back.stack)).toMatchObject({ position: 1 });
+    expect(timeline(back.stack).steps.map((s) => s.action)).toEqual(["+A", "+B", "+C"]);
+
+    const forward = jumpTo(back.stack, back.state, 3);
+    expect(forward.state.events).toEqual(["a", "b", "c"]);
+  });
+
+  it("rewrites held items", () => {
+    const { state, stack } = play([
+      ["+A", tap("a")],
+      ["reset", reset],
+    ]);
+    const renamed = mapStackItems(stack, "events", (e) => e.toUpperCase());
+    expect(undoStep(renamed, state)!.state.events).toEqual(["A"]);
+  });
+});
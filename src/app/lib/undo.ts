@@ -0,0 +1,132 @@
+/**
+ * Undo / redo for the live game
+ * - The undoable state is a set of lists (event log, scoreboard taps); every change to them is a step
+ * - A step stores a patch back to the state before it (undo) or forward to the state after it (redo),
+ *   so reset and bulk edits reverse exactly; nothing is recomputed from the action
+ * - Patches keep a shared prefix by count and copy only the rest, so a tap costs one small step and the
+ *   stack stays cheap to write into the live-game draft
+ * Pure functions only; covered by undo.test.ts.
+ */
+
+type Lists = Record<string, readonly unknown[]>;
+
+/** Turns a list into another: keep the first `keep` items, then append `items`. */
+export type ListPatch<T> = { keep: number; items: T[] };
+
+export type StatePatch<S extends Lists> = { [K in keyof S]: ListPatch<S[K][number]> };
+
+export type UndoStep<S extends Lists, A> = { action: A; at: number; patch: StatePatch<S> };
+
+export type UndoStack<S extends Lists, A> = {
+  past: UndoStep<S, A>[]; // patches back to the state before each step, oldest first
+  future: UndoStep<S, A>[]; // patches forward to the state after each undone step, next redo last
+};
+
+export function emptyStack<S extends Lists, A>(): UndoStack<S, A> {
+  return { past: [], future: [] };
+}
+
+export function diffList<T>(from: readonly T[], to: readonly T[]): ListPatch<T> {
+  let keep = 0;
+  while (keep < from.length && keep < to.length && from[keep] === to[keep]) keep++;
+  return { keep, items: to.slice(keep) };
+}
+
+export function applyList<T>(list: readonly T[], p: ListPatch<T>): T[] {
+  return [...list.slice(0, p.keep), ...p.items];
+}
+
+function diffState<S extends Lists>(from: S, to: S): StatePatch<S> {
+  const out = {} as StatePatch<S>;
+  (Object.keys(to) as (keyof S)[]).forEach((k) => {
+    out[k] = diffList(from[k], to[k]);
+  });
+  return out;
+}
+
+function applyState<S extends Lists>(state: S, patch: StatePatch<S>): S {
+  const out = { ...state };
+  (Object.keys(patch) as (keyof S)[]).forEach((k) => {
+    out[k] = applyList(state[k], patch[k]) as unknown as S[keyof S];
+  });
+  return out;
+}
+
+/** Record a change from `before` to `after`. A new change drops anything that could be redone. */
+export function recordStep<S extends Lists, A>(
+  stack: UndoStack<S, A>,
+  action: A,
+  before: S,
+  after: S,
+  at = Date.now()
+): UndoStack<S, A> {
+  return { past: [...stack.past, { action, at, patch: diffState(after, before) }], future: [] };
+}
+
+export function undoStep<S extends Lists, A>(stack: UndoStack<S, A>, current: S) {
+  const step = stack.past[stack.past.length - 1];
+  if (!step) return null;
+  const state = applyState(current, step.patch);
+  return {
+    state,
+    step,
+    stack: {
+      past: stack.past.slice(0, -1),
+      future: [...stack.future, { ...step, patch: diffState(state, current) }],
+    },
+  };
+}
+
+export function redoStep<S extends Lists, A>(stack: UndoStack<S, A>, current: S) {
+  const step = stack.future[stack.future.length - 1];
+  if (!step) return null;
+  const state = applyState(current, step.patch);
+  return {
+    state,
+    step,
+    stack: {
+      past: [...stack.past, { ...step, patch: diffState(state, current) }],
+      future: stack.future.slice(0, -1),
+    },
+  };
+}
+
+/** Every step in the order it happened; the first `position` of them are applied. */
+export function timeline<S extends Lists, A>(stack: UndoStack<S, A>) {
+  return { steps: [...stack.past, ...[...stack.future].reverse()], position: stack.past.length };
+}
+
+/**
+ * Undo or redo until exactly `position` steps are applied (0 = before the first one).
+ * Returns the steps passed over, in the order they were undone / redone.
+ */
+export function jumpTo<S extends Lists, A>(stack: UndoStack<S, A>, current: S, position: number) {
+  let out = { stack, state: current };
+  const passed: UndoStep<S, A>[] = [];
+  while (out.stack.past.length > position) {
+    const r = undoStep(out.stack, out.state);
+    if (!r) break;
+    passed.push(r.step);
+    out = r;
+  }
+  while (out.stack.past.length < position) {
+    const r = redoStep(out.stack, out.state);
+    if (!r) break;
+    passed.push(r.step);
+    out = r;
+  }
+  return { ...out, passed };
+}
+
+/** Rewrite the items held in every step of one list (e.g. re-tagging events after a player merge). */
+export function mapStackItems<S extends Lists, A, K extends keyof S>(
+  stack: UndoStack<S, A>,
+  key: K,
+  fn: (item: S[K][number]) => S[K][number]
+): UndoStack<S, A> {
+  const mapStep = (s: UndoStep<S, A>): UndoStep<S, A> => ({
+    ...s,
+    patch: { ...s.patch, [key]: { ...s.patch[key], items: s.patch[key].items.map(fn) } },
+  });
+  return { past: stack.past.map(mapStep), future: stack.future.map(mapStep) };
+}
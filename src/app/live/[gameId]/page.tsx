@@ -0,0 +1,11 @@
+import type { Metadata } from "next";
+import LiveView from "../../components/LiveView";
+
+export const metadata: Metadata = {
+  title: "Live game • Fly Stat Tracker",
+};
+
+export default async function Page({ params }: { params: Promise<{ gameId: string }> }) {
+  const { gameId } = await params;
+  return <LiveView gameId={gameId} />;
+}